@@ -10,6 +10,7 @@ import ErrorBoundary from "@/components/error-boundary";
 import Home from "@/pages/home";
 import TextChat from "@/pages/text-chat";
 import VideoChat from "@/pages/video-chat";
+import Admin from "@/pages/admin";
 import NotFound from "@/pages/not-found";
 import { Moon, Sun, Users, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -204,6 +205,7 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/text-chat" component={TextChat} />
       <Route path="/video-chat" component={VideoChat} />
+      <Route path="/admin" component={Admin} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,14 @@
+import type { ImgHTMLAttributes, VideoHTMLAttributes } from 'react';
+import { useAttachmentSrc } from '@/hooks/use-attachment-src';
+
+// <img> and <video> for chat attachments; they render once the URL has its token
+
+export function AttachmentImage({ url, ...props }: { url: string } & Omit<ImgHTMLAttributes<HTMLImageElement>, 'src'>) {
+  const src = useAttachmentSrc(url);
+  return src ? <img src={src} {...props} /> : null;
+}
+
+export function AttachmentVideo({ url, ...props }: { url: string } & Omit<VideoHTMLAttributes<HTMLVideoElement>, 'src'>) {
+  const src = useAttachmentSrc(url);
+  return src ? <video src={src} {...props} /> : null;
+}
@@ -0,0 +1,36 @@
+import { Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { BanNotice } from '@/types/chat';
+
+interface BannedNoticeProps {
+  ban: BanNotice;
+  onLeave: () => void;
+}
+
+function formatRemaining(seconds: number): string {
+  if (seconds >= 86400) return `${Math.ceil(seconds / 86400)} day(s)`;
+  if (seconds >= 3600) return `${Math.ceil(seconds / 3600)} hour(s)`;
+  return `${Math.max(1, Math.ceil(seconds / 60))} minute(s)`;
+}
+
+export function BannedNotice({ ban, onLeave }: BannedNoticeProps) {
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-background/90 backdrop-blur-sm p-4" data-testid="banned-notice">
+      <div className="max-w-md w-full bg-card border border-destructive/40 rounded-2xl shadow-xl p-6 text-center space-y-4">
+        <div className="w-14 h-14 mx-auto rounded-full bg-destructive/10 flex items-center justify-center">
+          <Ban className="h-7 w-7 text-destructive" />
+        </div>
+        <h3 className="text-xl font-semibold">You have been banned</h3>
+        <p className="text-sm text-muted-foreground">{ban.reason}</p>
+        <p className="text-sm font-medium">
+          {ban.remainingSeconds === null
+            ? 'This ban is permanent.'
+            : `You can chat again in ${formatRemaining(ban.remainingSeconds)}.`}
+        </p>
+        <Button variant="outline" onClick={onLeave}>
+          Back to home
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,23 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Send, Image as ImageIcon } from 'lucide-react';
+import { Send, Image as ImageIcon, X } from 'lucide-react';
 import EmojiPicker from './emoji-picker';
 import FileUpload from './file-upload';
-import type { Attachment } from '@/types/chat';
+import QuotedMessage from './quoted-message';
+import { AttachmentImage } from './attachment-media';
+import { uploadAttachment } from '@/lib/attachments';
+import { toast } from '@/hooks/use-toast';
+import type { Attachment, Message } from '@/types/chat';
 
 interface EnhancedMessageInputProps {
   value: string;
   onChange: (value: string) => void;
   onSend: (content: string, attachments?: Attachment[]) => void;
+  sessionId?: string; // chat the attachments are uploaded for
+  onFileSelect?: (file: File) => boolean; // return true to send the file another way instead of uploading it
+  replyingTo?: Message | null; // shown above the input until sent or cancelled
+  onCancelReply?: () => void;
   disabled?: boolean;
   placeholder?: string;
   className?: string;
@@ -19,12 +27,17 @@ export default function EnhancedMessageInput({
   value,
   onChange,
   onSend,
+  sessionId,
+  onFileSelect,
+  replyingTo,
+  onCancelReply,
   disabled = false,
   placeholder = "Type a message...",
   className = ""
 }: EnhancedMessageInputProps) {
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isComposing, setIsComposing] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Auto-resize input based on content
@@ -46,7 +59,7 @@ export default function EnhancedMessageInput({
   };
 
   const handleSend = () => {
-    if (!value.trim() && attachments.length === 0) return;
+    if ((!value.trim() && attachments.length === 0) || isUploading) return;
     
     onSend(value.trim(), attachments);
     setValue('');
@@ -71,25 +84,21 @@ export default function EnhancedMessageInput({
   };
 
   const handleFileSelect = async (file: File) => {
+    if (onFileSelect?.(file)) return;
+    if (!sessionId) return;
+    setIsUploading(true);
     try {
-      // Convert file to base64 for now (in a real app, you'd upload to a server)
-      const base64 = await fileToBase64(file);
-      
-      const attachment: Attachment = {
-        id: Date.now().toString(),
-        type: getFileType(file.type),
-        url: base64,
-        filename: file.name,
-        size: file.size,
-        mimeType: file.type
-      };
-
+      const attachment = await uploadAttachment(file, sessionId);
       setAttachments(prev => [...prev, attachment]);
     } catch (error) {
-      // Only log in development mode to reduce Railway rate limits
-      if (process.env.NODE_ENV === 'development') {
-        console.error('Error processing file:', error);
-      }
+      // The server refuses files whose content doesn't match their type, and executables
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'Could not upload the file',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
     }
   };
 
@@ -101,14 +110,32 @@ export default function EnhancedMessageInput({
 
   return (
     <div className={`space-y-2 ${className}`}>
+      {/* Message being replied to */}
+      {replyingTo && (
+        <div className="flex items-center gap-2 px-4 pt-3" data-testid="reply-preview">
+          <QuotedMessage message={replyingTo} className="flex-1 min-w-0" />
+          {onCancelReply && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onCancelReply}
+              className="w-6 h-6 p-0 text-muted-foreground hover:text-foreground"
+              title="Cancel reply"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Attachment Preview */}
       {attachments.length > 0 && (
         <div className="flex flex-wrap gap-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-t-lg border-b border-gray-200 dark:border-gray-700">
           {attachments.map((attachment) => (
             <div key={attachment.id} className="flex items-center gap-2 bg-white dark:bg-gray-700 rounded-lg p-2 border border-gray-200 dark:border-gray-600 shadow-sm">
               {attachment.type === 'image' && (
-                <img 
-                  src={attachment.url} 
+                <AttachmentImage
+                  url={attachment.thumbnailUrl ?? attachment.url}
                   alt={attachment.filename}
                   className="w-8 h-8 object-cover rounded"
                 />
@@ -170,7 +197,7 @@ export default function EnhancedMessageInput({
           {/* Send Button */}
           <Button
             onClick={handleSend}
-            disabled={disabled || !hasContent}
+            disabled={disabled || !hasContent || isUploading}
             size="sm"
             className="group relative w-10 h-10 sm:w-11 sm:h-11 p-0 rounded-full bg-gradient-to-br from-primary to-secondary hover:from-primary/90 hover:to-secondary/90 text-white shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0 hover:scale-110"
           >
@@ -181,20 +208,3 @@ export default function EnhancedMessageInput({
     </div>
   );
 }
-
-// Helper functions
-function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
-  });
-}
-
-function getFileType(mimeType: string): Attachment['type'] {
-  if (mimeType.startsWith('image/')) return 'image';
-  if (mimeType.startsWith('video/')) return 'video';
-  if (mimeType.startsWith('audio/')) return 'audio';
-  return 'file';
-}
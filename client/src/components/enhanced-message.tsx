@@ -1,17 +1,43 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Play, Pause, Download, Eye, EyeOff } from 'lucide-react';
+import { Play, Pause, Download, Eye, EyeOff, X, Reply } from 'lucide-react';
+import EmojiPicker from './emoji-picker';
+import QuotedMessage from './quoted-message';
+import { AttachmentImage, AttachmentVideo } from './attachment-media';
+import { attachmentSrc } from '@/lib/attachments';
 import type { Message } from '@/types/chat';
 
 interface EnhancedMessageProps {
   message: Message;
   className?: string;
+  onCancelTransfer?: (transferId: string) => void;
+  currentUserId?: string | null; // whose reaction is highlighted and toggled
+  replyToMessage?: Message; // the message `message.replyTo` quotes, if it's loaded
+  onReact?: (emoji: string | null) => void; // null removes the user's reaction
+  onReply?: () => void;
 }
 
-export default function EnhancedMessage({ message, className }: EnhancedMessageProps) {
+export default function EnhancedMessage({
+  message,
+  className,
+  onCancelTransfer,
+  currentUserId,
+  replyToMessage,
+  onReact,
+  onReply,
+}: EnhancedMessageProps) {
   const [showFullImage, setShowFullImage] = useState<string | null>(null);
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
 
+  const ownReaction = message.reactions?.find(reaction => reaction.userId === currentUserId)?.emoji ?? null;
+  const reactionCounts = new Map<string, number>();
+  message.reactions?.forEach(({ emoji }) => reactionCounts.set(emoji, (reactionCounts.get(emoji) || 0) + 1));
+
+  // Picking the emoji you already reacted with takes the reaction back
+  const handleReact = (emoji: string) => {
+    onReact?.(emoji === ownReaction ? null : emoji);
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -24,13 +50,21 @@ export default function EnhancedMessage({ message, className }: EnhancedMessageP
     setShowFullImage(attachmentId);
   };
 
-  const handleAudioPlay = (attachmentId: string, url: string) => {
+  const handleAudioPlay = async (attachmentId: string, url: string) => {
     if (playingAudio === attachmentId) {
       setPlayingAudio(null);
       return;
     }
 
-    const audio = new Audio(url);
+    let src: string;
+    try {
+      src = await attachmentSrc(url);
+    } catch (error) {
+      console.error('Error loading audio:', error);
+      return;
+    }
+
+    const audio = new Audio(src);
     audio.onended = () => setPlayingAudio(null);
     audio.onerror = () => setPlayingAudio(null);
     
@@ -42,9 +76,14 @@ export default function EnhancedMessage({ message, className }: EnhancedMessageP
     });
   };
 
-  const handleFileDownload = (attachment: any) => {
+  const handleFileDownload = async (attachment: any) => {
     const link = document.createElement('a');
-    link.href = attachment.url;
+    try {
+      link.href = await attachmentSrc(attachment.url);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      return;
+    }
     link.download = attachment.filename;
     document.body.appendChild(link);
     link.click();
@@ -56,8 +95,8 @@ export default function EnhancedMessage({ message, className }: EnhancedMessageP
       case 'image':
         return (
           <div className="mt-2">
-            <img
-              src={attachment.url}
+            <AttachmentImage
+              url={attachment.thumbnailUrl ?? attachment.url}
               alt={attachment.filename}
               className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-90 transition-opacity"
               onClick={() => handleImageClick(attachment.id)}
@@ -72,8 +111,8 @@ export default function EnhancedMessage({ message, className }: EnhancedMessageP
       case 'video':
         return (
           <div className="mt-2">
-            <video
-              src={attachment.url}
+            <AttachmentVideo
+              url={attachment.url}
               controls
               className="max-w-full h-auto rounded-lg"
               preload="metadata"
@@ -135,54 +174,140 @@ export default function EnhancedMessage({ message, className }: EnhancedMessageP
   };
 
   return (
-    <div className={`flex ${message.isOwn ? 'justify-end' : 'justify-start'} ${className}`}>
-      <div className={`group max-w-[85%] relative ${
-        message.isOwn 
-          ? 'bg-gradient-to-br from-primary to-primary/90 text-white shadow-lg shadow-primary/20' 
-          : 'bg-card/80 backdrop-blur-sm border border-border/50 shadow-lg'
-      } rounded-2xl px-4 py-3 hover:shadow-xl transition-all duration-300`}
-      style={{
-        borderRadius: message.isOwn ? '20px 20px 4px 20px' : '20px 20px 20px 4px'
-      }}>
-        {/* Glassmorphism overlay */}
-        <div className="absolute inset-0 bg-gradient-to-br from-white/5 to-transparent rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"></div>
+    <div className={`group/message flex ${message.isOwn ? 'justify-end' : 'justify-start'} ${className}`}>
+      <div className={`flex flex-col max-w-[85%] ${message.isOwn ? 'items-end' : 'items-start'}`}>
+        <div className={`flex items-center gap-1 max-w-full ${message.isOwn ? 'flex-row-reverse' : ''}`}>
+          <div className={`group min-w-0 relative ${
+            message.isOwn 
+              ? 'bg-gradient-to-br from-primary to-primary/90 text-white shadow-lg shadow-primary/20' 
+              : 'bg-card/80 backdrop-blur-sm border border-border/50 shadow-lg'
+          } rounded-2xl px-4 py-3 hover:shadow-xl transition-all duration-300`}
+          style={{
+            borderRadius: message.isOwn ? '20px 20px 4px 20px' : '20px 20px 20px 4px'
+          }}>
+            {/* Glassmorphism overlay */}
+            <div className="absolute inset-0 bg-gradient-to-br from-white/5 to-transparent rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none"></div>
         
-        {/* Message Content */}
-        {message.content && (
-          <div className="relative text-sm leading-relaxed whitespace-pre-wrap break-words mb-1">
-            {message.content}
-          </div>
-        )}
+            {/* Quoted parent of a reply */}
+            {message.replyTo && (
+              <QuotedMessage message={replyToMessage} isOwn={message.isOwn} className="relative mb-2" />
+            )}
 
-        {/* Attachments */}
-        {message.attachments && message.attachments.length > 0 && (
-          <div className="mb-1">
-            {message.attachments.map((attachment) => (
-              <div key={attachment.id} className="mb-1">
-                {renderAttachment(attachment)}
+            {/* Message Content */}
+            {message.content && (
+              <div className="relative text-sm leading-relaxed whitespace-pre-wrap break-words mb-1">
+                {message.content}
               </div>
-            ))}
+            )}
+
+            {/* Peer-to-peer file transfer in progress */}
+            {message.transfer && message.transfer.status !== 'complete' && (
+              <div className="relative mt-2 mb-1 p-2 bg-slate-100 dark:bg-slate-800 rounded-lg min-w-[200px]">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+                      {message.transfer.filename}
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {message.transfer.status === 'cancelled'
+                        ? 'Transfer cancelled'
+                        : `${formatFileSize(message.transfer.transferred)} of ${formatFileSize(message.transfer.size)}`}
+                    </p>
+                  </div>
+                  {message.transfer.status === 'active' && onCancelTransfer && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onCancelTransfer(message.transfer!.id)}
+                      className="w-8 h-8 p-0 text-slate-500 hover:text-red-500"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {message.transfer.status === 'active' && (
+                  <div className="mt-2 h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${message.transfer.size ? (message.transfer.transferred / message.transfer.size) * 100 : 0}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Attachments */}
+            {message.attachments && message.attachments.length > 0 && (
+              <div className="mb-1">
+                {message.attachments.map((attachment) => (
+                  <div key={attachment.id} className="mb-1">
+                    {renderAttachment(attachment)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Message Timestamp and Status */}
+            <div className={`relative flex items-center justify-end gap-1.5 mt-2 ${
+              message.isOwn ? 'text-white/80' : 'text-muted-foreground'
+            }`}>
+              <span className="text-xs font-medium">
+                {new Date(message.timestamp).toLocaleTimeString([], { 
+                  hour: '2-digit', 
+                  minute: '2-digit' 
+                })}
+              </span>
+              {message.isOwn && (
+                <div className="flex items-center">
+                  <svg className="w-3.5 h-3.5 drop-shadow-sm" viewBox="0 0 16 15" fill="currentColor">
+                    <path d="M15.8545 0.854503C16.0498 0.65924 16.0498 0.342658 15.8545 0.147396C15.6593 -0.0478664 15.3427 -0.0478664 15.1474 0.147396L5.85355 9.44129C5.65829 9.63655 5.34171 9.63655 5.14645 9.44129L0.852539 5.14739C0.657277 4.95212 0.340695 4.95212 0.145433 5.14739C-0.0498294 5.34265 -0.0498294 5.65924 0.145433 5.8545L5.14645 10.8555C5.34171 11.0508 5.65829 11.0508 5.85355 10.8555L15.8545 0.854503Z"/>
+                  </svg>
+                </div>
+              )}
+            </div>
           </div>
-        )}
 
-        {/* Message Timestamp and Status */}
-        <div className={`relative flex items-center justify-end gap-1.5 mt-2 ${
-          message.isOwn ? 'text-white/80' : 'text-muted-foreground'
-        }`}>
-          <span className="text-xs font-medium">
-            {new Date(message.timestamp).toLocaleTimeString([], { 
-              hour: '2-digit', 
-              minute: '2-digit' 
-            })}
-          </span>
-          {message.isOwn && (
-            <div className="flex items-center">
-              <svg className="w-3.5 h-3.5 drop-shadow-sm" viewBox="0 0 16 15" fill="currentColor">
-                <path d="M15.8545 0.854503C16.0498 0.65924 16.0498 0.342658 15.8545 0.147396C15.6593 -0.0478664 15.3427 -0.0478664 15.1474 0.147396L5.85355 9.44129C5.65829 9.63655 5.34171 9.63655 5.14645 9.44129L0.852539 5.14739C0.657277 4.95212 0.340695 4.95212 0.145433 5.14739C-0.0498294 5.34265 -0.0498294 5.65924 0.145433 5.8545L5.14645 10.8555C5.34171 11.0508 5.65829 11.0508 5.85355 10.8555L15.8545 0.854503Z"/>
-              </svg>
+          {/* Reaction and reply actions, shown on hover */}
+          {(onReact || onReply) && (
+            <div className="flex items-center gap-0.5 flex-shrink-0 opacity-0 group-hover/message:opacity-100 focus-within:opacity-100 transition-opacity">
+              {onReact && <EmojiPicker onEmojiSelect={handleReact} className="flex-shrink-0" />}
+              {onReply && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onReply}
+                  className="w-9 h-9 p-0 rounded-full hover:bg-primary/10"
+                  title="Reply"
+                  data-testid="button-reply"
+                >
+                  <Reply className="h-4 w-4 text-muted-foreground" />
+                </Button>
+              )}
             </div>
           )}
         </div>
+
+        {/* Reactions */}
+        {reactionCounts.size > 0 && (
+          <div className="relative flex flex-wrap gap-1 -mt-2 px-2">
+            {Array.from(reactionCounts.entries()).map(([emoji, count]) => (
+              <button
+                key={emoji}
+                onClick={() => handleReact(emoji)}
+                disabled={!onReact}
+                className={`flex items-center gap-0.5 px-1.5 py-0.5 text-xs rounded-full border shadow-sm backdrop-blur-sm transition-colors ${
+                  emoji === ownReaction
+                    ? 'bg-primary/15 border-primary/50'
+                    : 'bg-card/90 border-border/50 hover:bg-muted'
+                }`}
+                title={emoji === ownReaction ? 'Remove your reaction' : `React with ${emoji}`}
+              >
+                <span>{emoji}</span>
+                {count > 1 && <span className="font-medium text-muted-foreground">{count}</span>}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Full Image Modal */}
@@ -192,8 +317,8 @@ export default function EnhancedMessage({ message, className }: EnhancedMessageP
           onClick={() => setShowFullImage(null)}
         >
           <div className="relative max-w-4xl max-h-full">
-            <img
-              src={message.attachments?.find(att => att.id === showFullImage)?.url}
+            <AttachmentImage
+              url={message.attachments?.find(att => att.id === showFullImage)?.url ?? ''}
               alt="Full size"
               className="max-w-full max-h-full object-contain rounded-lg"
             />
@@ -26,6 +26,7 @@ export default function FileUpload({
       return `File size must be less than ${Math.round(maxSizeBytes / (1024 * 1024))}MB`;
     }
 
+    // Only a first pass on the browser's guess; the server checks the file's bytes
     const isValidType = acceptedTypes.some(type => {
       if (type.endsWith('/*')) {
         return file.type.startsWith(type.slice(0, -1));
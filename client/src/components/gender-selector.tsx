@@ -72,9 +72,9 @@ export function GenderSelector({ onGenderSelect, selectedGender, disabled = fals
         
         <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
           <p className="text-sm text-blue-700 dark:text-blue-300">
-            <strong>Matching Algorithm:</strong> Male users are prioritized to match with female users, 
-            and female users are prioritized to match with male users. Other identities are matched 
-            with appropriate preferences.
+            <strong>Matching Algorithm:</strong> You're matched with people whose preferences include 
+            your gender, and you can choose who you'd like to meet yourself. Everyone is matched with 
+            anyone by default.
           </p>
         </div>
       </CardContent>
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { X, Plus } from 'lucide-react';
+import { canonicalInterest, interestsMatch } from '@shared/interests';
 
 interface InterestModalProps {
   isOpen: boolean;
@@ -42,12 +43,14 @@ export function InterestModal({ isOpen, onClose, selectedInterests, onSaveIntere
     );
   };
 
+  // Custom interests are stored under their canonical name ("Coding" becomes
+  // "programming") and skipped if an equivalent one is already selected
   const addCustomInterest = () => {
-    const interest = customInterest.trim().toLowerCase();
-    if (interest && !tempSelected.includes(interest)) {
+    const interest = canonicalInterest(customInterest);
+    if (interest && !tempSelected.some(selected => interestsMatch(selected, interest))) {
       setTempSelected(prev => [...prev, interest]);
-      setCustomInterest('');
     }
+    setCustomInterest('');
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
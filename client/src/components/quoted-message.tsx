@@ -0,0 +1,27 @@
+import type { Message } from '@/types/chat';
+
+interface QuotedMessageProps {
+  message?: Message; // undefined when the quoted message isn't loaded here
+  isOwn?: boolean; // quoted inside one of the user's own bubbles
+  className?: string;
+}
+
+// One line of the message a reply quotes, as shown above the reply and in the input
+export default function QuotedMessage({ message, isOwn = false, className = '' }: QuotedMessageProps) {
+  const preview = message
+    ? message.content || message.attachments?.[0]?.filename || message.transfer?.filename || 'Attachment'
+    : 'Original message unavailable';
+
+  return (
+    <div className={`border-l-2 pl-2 py-0.5 text-xs ${
+      isOwn ? 'border-white/60 text-white/80' : 'border-primary/60 text-muted-foreground'
+    } ${className}`}>
+      {message && (
+        <p className={`font-semibold ${isOwn ? 'text-white' : 'text-primary'}`}>
+          {message.isOwn ? 'You' : 'Stranger'}
+        </p>
+      )}
+      <p className={`truncate ${message ? '' : 'italic'}`}>{preview}</p>
+    </div>
+  );
+}
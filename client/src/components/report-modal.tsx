@@ -36,6 +36,8 @@ export function ReportModal({ isOpen, onClose, sessionId }: ReportModalProps) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          // The server takes the reporter from the resume token issued in user_joined
+          Authorization: `Bearer ${sessionStorage.getItem('resumeToken')}`,
         },
         body: JSON.stringify({
           sessionId,
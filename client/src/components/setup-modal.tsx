@@ -3,7 +3,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { X, Plus, ChevronLeft, ChevronRight } from 'lucide-react';
+import { canonicalInterest, interestsMatch } from '@shared/interests';
+import { REGIONS, type Gender, type PartnerPreferences, type Region, type UserProfile } from '@shared/protocol';
+import { PREFERENCE_LANGUAGES } from '@/lib/partner-preferences';
 import { GenderSelector } from './gender-selector';
 
 interface SetupModalProps {
@@ -11,7 +15,9 @@ interface SetupModalProps {
   onClose: () => void;
   selectedInterests: string[];
   selectedGender?: 'male' | 'female' | 'other' | null;
-  onSaveSetup: (interests: string[], gender: 'male' | 'female' | 'other') => void;
+  selectedPreferences: PartnerPreferences;
+  selectedProfile: UserProfile;
+  onSaveSetup: (interests: string[], gender: 'male' | 'female' | 'other', preferences: PartnerPreferences, profile: UserProfile) => void;
 }
 
 const popularInterests = [
@@ -28,18 +34,38 @@ const allInterests = [
   'investment', 'real-estate', 'automotive', 'environment'
 ];
 
+const partnerGenders: { value: Gender; label: string }[] = [
+  { value: 'male', label: 'Men' },
+  { value: 'female', label: 'Women' },
+  { value: 'other', label: 'Other' },
+];
+
+const regionLabels: Record<Region, string> = {
+  'africa': 'Africa',
+  'asia': 'Asia',
+  'europe': 'Europe',
+  'middle-east': 'Middle East',
+  'north-america': 'North America',
+  'oceania': 'Oceania',
+  'south-america': 'South America',
+};
+
 type SetupStep = 'gender' | 'interests';
 
-export function SetupModal({ isOpen, onClose, selectedInterests, selectedGender, onSaveSetup }: SetupModalProps) {
+export function SetupModal({ isOpen, onClose, selectedInterests, selectedGender, selectedPreferences, selectedProfile, onSaveSetup }: SetupModalProps) {
   const [currentStep, setCurrentStep] = useState<SetupStep>('gender');
   const [tempSelected, setTempSelected] = useState<string[]>([]);
   const [tempGender, setTempGender] = useState<'male' | 'female' | 'other' | null>(null);
+  const [tempPreferences, setTempPreferences] = useState<PartnerPreferences>({});
+  const [tempProfile, setTempProfile] = useState<UserProfile>({});
   const [customInterest, setCustomInterest] = useState('');
 
   useEffect(() => {
     setTempSelected([...selectedInterests]);
     setTempGender(selectedGender || null);
-  }, [selectedInterests, selectedGender, isOpen]);
+    setTempPreferences({ ...selectedPreferences });
+    setTempProfile({ ...selectedProfile });
+  }, [selectedInterests, selectedGender, selectedPreferences, selectedProfile, isOpen]);
 
   const toggleInterest = (interest: string) => {
     setTempSelected(prev => 
@@ -49,12 +75,14 @@ export function SetupModal({ isOpen, onClose, selectedInterests, selectedGender,
     );
   };
 
+  // Custom interests are stored under their canonical name ("Coding" becomes
+  // "programming") and skipped if an equivalent one is already selected
   const addCustomInterest = () => {
-    const interest = customInterest.trim().toLowerCase();
-    if (interest && !tempSelected.includes(interest)) {
+    const interest = canonicalInterest(customInterest);
+    if (interest && !tempSelected.some(selected => interestsMatch(selected, interest))) {
       setTempSelected(prev => [...prev, interest]);
-      setCustomInterest('');
     }
+    setCustomInterest('');
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -63,6 +91,32 @@ export function SetupModal({ isOpen, onClose, selectedInterests, selectedGender,
     }
   };
 
+  // Toggles a value in one of the list preferences; an empty list means "anyone"
+  const togglePreference = <K extends 'genders' | 'languages'>(key: K, value: NonNullable<PartnerPreferences[K]>[number]) => {
+    setTempPreferences(prev => {
+      const current = (prev[key] ?? []) as string[];
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+      return { ...prev, [key]: next.length > 0 ? next : undefined };
+    });
+  };
+
+  const setRegion = (region: string) => {
+    setTempPreferences(prev => ({ ...prev, region: region === 'any' ? undefined : region as Region }));
+  };
+
+  // The user's own languages and region, which partners' preferences are checked against
+  const toggleProfileLanguage = (code: string) => {
+    setTempProfile(prev => {
+      const current = prev.languages ?? [];
+      const next = current.includes(code) ? current.filter(c => c !== code) : [...current, code];
+      return { ...prev, languages: next.length > 0 ? next : undefined };
+    });
+  };
+
+  const setProfileRegion = (region: string) => {
+    setTempProfile(prev => ({ ...prev, region: region === 'unset' ? undefined : region as Region }));
+  };
+
   const clearAll = () => {
     setTempSelected([]);
   };
@@ -79,7 +133,7 @@ export function SetupModal({ isOpen, onClose, selectedInterests, selectedGender,
 
   const saveSetup = () => {
     if (tempGender) {
-      onSaveSetup(tempSelected, tempGender);
+      onSaveSetup(tempSelected, tempGender, tempPreferences, tempProfile);
       onClose();
     }
   };
@@ -97,6 +151,119 @@ export function SetupModal({ isOpen, onClose, selectedInterests, selectedGender,
         onGenderSelect={setTempGender}
         selectedGender={tempGender}
       />
+
+      {/* About the user, matched against partners' preferences */}
+      <div className="space-y-4 bg-muted/20 rounded-lg p-4 border border-border">
+        <div>
+          <h4 className="text-sm font-semibold">About you</h4>
+          <p className="text-xs text-muted-foreground">
+            People who ask for a language or region are only matched with you if it's one of yours.
+          </p>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold mb-2 text-muted-foreground uppercase tracking-wide">
+            Languages you speak
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {PREFERENCE_LANGUAGES.map(({ code, label }) => (
+              <button
+                key={code}
+                onClick={() => toggleProfileLanguage(code)}
+                className={`px-3 py-1 rounded-full text-sm transition-all ${
+                  tempProfile.languages?.includes(code)
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-card border border-border hover:bg-primary hover:text-primary-foreground'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold mb-2 text-muted-foreground uppercase tracking-wide">
+            Your region
+          </h4>
+          <Select value={tempProfile.region ?? 'unset'} onValueChange={setProfileRegion}>
+            <SelectTrigger className="w-full md:w-64" data-testid="select-profile-region">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unset">Prefer not to say</SelectItem>
+              {REGIONS.map(region => (
+                <SelectItem key={region} value={region}>{regionLabels[region]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Partner Preferences */}
+      <div className="space-y-4 bg-muted/20 rounded-lg p-4 border border-border">
+        <div>
+          <h4 className="text-sm font-semibold">Who would you like to meet?</h4>
+          <p className="text-xs text-muted-foreground">
+            Leave anything unselected to meet anyone. If nobody matches for a while, we'll widen the search.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {partnerGenders.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => togglePreference('genders', value)}
+              className={`px-4 py-2 rounded-full text-sm transition-all ${
+                tempPreferences.genders?.includes(value)
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-card border border-border hover:bg-primary hover:text-primary-foreground'
+              }`}
+              data-testid={`button-prefer-${value}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold mb-2 text-muted-foreground uppercase tracking-wide">
+            Languages
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {PREFERENCE_LANGUAGES.map(({ code, label }) => (
+              <button
+                key={code}
+                onClick={() => togglePreference('languages', code)}
+                className={`px-3 py-1 rounded-full text-sm transition-all ${
+                  tempPreferences.languages?.includes(code)
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-card border border-border hover:bg-primary hover:text-primary-foreground'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold mb-2 text-muted-foreground uppercase tracking-wide">
+            Region
+          </h4>
+          <Select value={tempPreferences.region ?? 'any'} onValueChange={setRegion}>
+            <SelectTrigger className="w-full md:w-64" data-testid="select-region">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Anywhere</SelectItem>
+              {REGIONS.map(region => (
+                <SelectItem key={region} value={region}>{regionLabels[region]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
       
       <div className="flex justify-end">
         <Button 
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { attachmentSrc } from '@/lib/attachments';
+
+// attachmentSrc() for rendering: undefined until the URL has its token
+export function useAttachmentSrc(url: string | undefined): string | undefined {
+  const [src, setSrc] = useState<string>();
+
+  useEffect(() => {
+    setSrc(undefined);
+    if (!url) return;
+
+    let cancelled = false;
+    attachmentSrc(url)
+      .then(signed => { if (!cancelled) setSrc(signed); })
+      .catch(error => console.error('Error loading attachment:', error));
+    return () => { cancelled = true; };
+  }, [url]);
+
+  return src;
+}
@@ -1,5 +1,6 @@
 import { useCallback, useRef, useState, useEffect } from 'react';
 import { logger } from '@/lib/logger';
+import { PeerChannel } from '@/lib/peer-channel';
 
 // Enhanced error types for better debugging
 interface WebRTCError extends Error {
@@ -86,6 +87,8 @@ export function useWebRTC(onRemoteStream?: (stream: MediaStream) => void, option
   
   const peerConnection = useRef<RTCPeerConnection | null>(null);
   const [peerConnectionState, setPeerConnectionState] = useState<RTCPeerConnection | null>(null);
+  const [peerChannel, setPeerChannel] = useState<PeerChannel | null>(null);
+  const [isPeerChannelOpen, setIsPeerChannelOpen] = useState(false);
   const streamUpdateTimeout = useRef<NodeJS.Timeout>();
   const connectionQualityInterval = useRef<NodeJS.Timeout>();
   const statsInterval = useRef<NodeJS.Timeout>();
@@ -415,6 +418,15 @@ export function useWebRTC(onRemoteStream?: (stream: MediaStream) => void, option
     // Set the peer connection immediately and synchronize state
     peerConnection.current = pc;
     setPeerConnectionState(pc);
+
+    // Negotiated with a fixed id, so both sides open it without an extra
+    // offer/answer round; it comes up with the rest of the connection
+    const channel = new PeerChannel(pc.createDataChannel('chat', { negotiated: true, id: 0, ordered: true }));
+    channel.onStateChange(open => {
+      if (peerConnection.current === pc) setIsPeerChannelOpen(open);
+    });
+    setPeerChannel(channel);
+    setIsPeerChannelOpen(false);
     
     // Peer connection created
     
@@ -1539,6 +1551,8 @@ export function useWebRTC(onRemoteStream?: (stream: MediaStream) => void, option
         } finally {
           peerConnection.current = null;
           setPeerConnectionState(null);
+          setPeerChannel(null);
+          setIsPeerChannelOpen(false);
         }
       }
       
@@ -1615,6 +1629,8 @@ export function useWebRTC(onRemoteStream?: (stream: MediaStream) => void, option
     requestPermissions,
     hasPermissions,
     peerConnection: peerConnectionState,
+    peerChannel,
+    isPeerChannelOpen,
     // Advanced features
     connectionHealth,
     isAdapting,
@@ -1,7 +1,15 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { WebSocketMessage } from '@/types/chat';
+import type { WebSocketMessage, BanNotice } from '@/types/chat';
 import { getWebSocketUrl, validateWebSocketUrl } from '@/lib/websocket-utils';
-import { HybridConnection } from '@/lib/websocket-fallback';
+import { HybridConnection, type ConnectionType } from '@/lib/websocket-fallback';
+import { getDeviceFingerprint } from '@/lib/device-fingerprint';
+import { toast } from '@/hooks/use-toast';
+import {
+  PROTOCOL_VERSION,
+  type ChatType,
+  type ServerMessageOf,
+  type ServerMessageType
+} from '@shared/protocol';
 
 // Enhanced error types for WebSocket
 interface WebSocketError extends Error {
@@ -34,12 +42,14 @@ export function useWebSocket() {
   const [socket, setSocket] = useState<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
+  const [protocolVersion, setProtocolVersion] = useState<number | null>(null);
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
   const [connectionQuality, setConnectionQuality] = useState<'good' | 'poor' | 'unknown'>('unknown');
   const [lastHeartbeat, setLastHeartbeat] = useState<Date | null>(null);
-  const [connectionType, setConnectionType] = useState<'websocket' | 'polling'>('websocket');
+  const [connectionType, setConnectionType] = useState<ConnectionType>('websocket');
   const [connectionError, setConnectionError] = useState<WebSocketError | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [banInfo, setBanInfo] = useState<BanNotice | null>(null);
   const [connectionMetrics, setConnectionMetrics] = useState<ConnectionMetrics>({
     totalConnections: 0,
     successfulConnections: 0,
@@ -174,11 +184,58 @@ export function useWebSocket() {
       hybridConnection.current = new HybridConnection(wsUrl, '/api/poll');
       
       // Enhanced message handlers with metrics
-      hybridConnection.current.on('user_joined', (message) => {
+      hybridConnection.current.on('user_joined', (message: ServerMessageOf<'user_joined'>) => {
         setUserId(message.userId);
+        // Lets a reload or a new connection come back as the same user
+        if (message.resumeToken) {
+          sessionStorage.setItem('resumeToken', message.resumeToken);
+        }
+        // Older servers don't echo a version and only speak version 1
+        setProtocolVersion(message.protocolVersion ?? 1);
         setConnectionMetrics(prev => ({ ...prev, messagesReceived: prev.messagesReceived + 1 }));
       });
       
+      // A ban is terminal: stop reconnecting and surface it to the page
+      hybridConnection.current.on('banned', (message) => {
+        shouldReconnect.current = false;
+        setBanInfo({
+          banId: message.banId,
+          reason: message.reason,
+          scope: message.scope,
+          expiresAt: message.expiresAt,
+          remainingSeconds: message.remainingSeconds,
+        });
+      });
+      
+      // Strikes below the ban threshold are surfaced as a warning toast
+      hybridConnection.current.on('moderation_warning', (message) => {
+        toast({
+          title: 'Warning',
+          description: message.message,
+          variant: 'destructive',
+        });
+      });
+      
+      // Throttled typing and signaling frames are dropped quietly; only
+      // actions the user took need explaining
+      hybridConnection.current.on('rate_limited', (message: ServerMessageOf<'rate_limited'>) => {
+        if (['send_message', 'find_match', 'next_stranger'].includes(message.messageType)) {
+          toast({
+            title: 'Slow down',
+            description: `You're doing that too often. Try again in ${message.retryAfter}s.`,
+          });
+        }
+      });
+
+      // Deploys restart the server; the connection reconnects by itself
+      // and the chat pages recover their session once rejoined
+      hybridConnection.current.on('server_draining', (message: ServerMessageOf<'server_draining'>) => {
+        toast({
+          title: 'Reconnecting',
+          description: message.message,
+        });
+      });
+
       hybridConnection.current.on('heartbeat_ack', (message) => {
         setLastHeartbeat(new Date());
         setConnectionQuality('good');
@@ -188,6 +245,10 @@ export function useWebSocket() {
       // Enhanced error handling
       hybridConnection.current.on('error', (error) => {
         console.error('Hybrid connection error:', error);
+        // Another tab or connection took over this user; reconnecting would take it back
+        if (error.code === 'resumed_elsewhere') {
+          shouldReconnect.current = false;
+        }
         const wsError = createWebSocketError(
           `Connection error: ${error.message || 'Unknown error'}`,
           error.code || 'CONNECTION_ERROR',
@@ -243,21 +304,16 @@ export function useWebSocket() {
       setConnectionQuality('good');
       updateConnectionMetrics(true);
       
-      // Send queued messages
-      while (messageQueue.current.length > 0) {
-        const message = messageQueue.current.shift();
-        if (message && hybridConnection.current) {
-          hybridConnection.current.send(message);
-          setConnectionMetrics(prev => ({ ...prev, messagesSent: prev.messagesSent + 1 }));
-        }
-      }
-      
       // Send join message with enhanced error handling
       try {
         const interests = JSON.parse(localStorage.getItem('interests') || '[]');
-        const joinMessage = {
+        const deviceId = await getDeviceFingerprint();
+        const joinMessage: WebSocketMessage = {
           type: 'join',
+          protocolVersion: PROTOCOL_VERSION,
           interests: Array.isArray(interests) ? interests : [],
+          deviceId,
+          resumeToken: sessionStorage.getItem('resumeToken') ?? undefined,
           timestamp: Date.now()
         };
         hybridConnection.current.send(joinMessage);
@@ -272,6 +328,15 @@ export function useWebSocket() {
         setConnectionError(joinError);
       }
       
+      // Send queued messages once joined; the server refuses most frames before `join`
+      while (messageQueue.current.length > 0) {
+        const message = messageQueue.current.shift();
+        if (message && hybridConnection.current) {
+          hybridConnection.current.send(message);
+          setConnectionMetrics(prev => ({ ...prev, messagesSent: prev.messagesSent + 1 }));
+        }
+      }
+      
       return hybridConnection.current;
     } catch (error) {
       console.error('Failed to create WebSocket:', error);
@@ -334,6 +399,7 @@ export function useWebSocket() {
     
     setIsConnected(false);
     setUserId(null);
+    setProtocolVersion(null);
     setConnectionType('websocket');
     setConnectionError(null);
     setIsConnecting(false);
@@ -385,7 +451,7 @@ export function useWebSocket() {
     }
   }, [isConnected, createWebSocketError]);
 
-  const onMessage = useCallback((type: string, handler: (data: any) => void) => {
+  const onMessage = useCallback(<T extends ServerMessageType>(type: T, handler: (data: ServerMessageOf<T>) => void) => {
     if (!type || typeof handler !== 'function') {
       console.error('Invalid message handler:', { type, handler });
       return;
@@ -416,7 +482,7 @@ export function useWebSocket() {
     }
   }, [createWebSocketError]);
 
-  const offMessage = useCallback((type: string) => {
+  const offMessage = useCallback((type: ServerMessageType) => {
     if (!type) {
       console.error('Invalid message type for unregistration:', type);
       return;
@@ -509,13 +575,13 @@ export function useWebSocket() {
     }
   }, [isConnected, reconnectAttempts, connect]);
 
-  const getQueueStatus = useCallback((chatType: string, interests: string[] = []) => {
+  const getQueueStatus = useCallback((chatType: ChatType, interests: string[] = []) => {
     if (!chatType) {
       console.error('Cannot get queue status: chatType is required');
       return;
     }
     
-    const message = {
+    const message: WebSocketMessage = {
       type: 'get_queue_status',
       chatType,
       interests: Array.isArray(interests) ? interests : []
@@ -557,6 +623,7 @@ export function useWebSocket() {
     socket,
     isConnected,
     userId,
+    protocolVersion,
     reconnectAttempts,
     connectionQuality,
     lastHeartbeat,
@@ -564,6 +631,7 @@ export function useWebSocket() {
     connectionError,
     isConnecting,
     connectionMetrics,
+    banInfo,
     sendMessage,
     onMessage,
     offMessage,
@@ -0,0 +1,72 @@
+import type { Attachment } from '@/types/chat';
+
+/**
+ * Chat files are uploaded to /api/attachments and sent by URL. The server
+ * only serves them to the two people in the chat, identified by the resume
+ * token from `user_joined`. That token only ever goes in a header; URLs get
+ * a short-lived token for the one attachment instead.
+ */
+
+interface UrlToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Renewed this long before it expires, so a URL isn't dead by the time it loads
+const URL_TOKEN_RENEW_MS = 60_000;
+
+const urlTokens = new Map<string, Promise<UrlToken>>(); // attachment id -> token for its URLs
+
+function resumeToken(): string | null {
+  return sessionStorage.getItem('resumeToken');
+}
+
+async function fetchUrlToken(attachmentId: string): Promise<UrlToken> {
+  const res = await fetch(`/api/attachments/${encodeURIComponent(attachmentId)}/token`, {
+    headers: { Authorization: `Bearer ${resumeToken()}` },
+  });
+  if (!res.ok) {
+    throw new Error(`Attachment token request failed (${res.status})`);
+  }
+  const { token, expiresAt } = await res.json();
+  return { token, expiresAt: Date.parse(expiresAt) };
+}
+
+async function urlToken(attachmentId: string): Promise<UrlToken> {
+  const cached = await urlTokens.get(attachmentId)?.catch(() => undefined);
+  if (cached && cached.expiresAt - URL_TOKEN_RENEW_MS > Date.now()) return cached;
+
+  const request = fetchUrlToken(attachmentId);
+  urlTokens.set(attachmentId, request);
+  return request;
+}
+
+export async function uploadAttachment(file: File, sessionId: string): Promise<Attachment> {
+  const params = new URLSearchParams({
+    sessionId,
+    filename: file.name,
+    mimeType: file.type || 'application/octet-stream',
+  });
+  const res = await fetch(`/api/attachments?${params}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      Authorization: `Bearer ${resumeToken()}`,
+    },
+    body: file,
+  });
+  if (!res.ok) {
+    const { error } = await res.json().catch(() => ({ error: res.statusText }));
+    throw new Error(error || `Upload failed (${res.status})`);
+  }
+  return res.json();
+}
+
+// <img>, <video> and download links can't send headers, so an attachment token rides in the URL.
+// Other URLs, e.g. blob: URLs of files received over the data channel, are returned as they are
+export async function attachmentSrc(url: string): Promise<string> {
+  const attachmentId = url.match(/^\/api\/attachments\/([^/?]+)/)?.[1];
+  if (!attachmentId || !resumeToken()) return url;
+  const { token } = await urlToken(attachmentId);
+  return `${url}?token=${encodeURIComponent(token)}`;
+}
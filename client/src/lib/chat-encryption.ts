@@ -0,0 +1,100 @@
+/**
+ * Opt-in end-to-end encryption for text chat. Each side makes an ECDH P-256
+ * key pair and sends the public half in a `key_exchange` frame; both then
+ * derive the same AES-GCM key, so the server only relays and stores
+ * ciphertext. Keys live in memory for one chat and are never persisted.
+ */
+
+const KEY_INFO = new TextEncoder().encode('lakhari-e2e-v1');
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  let binary = '';
+  new Uint8Array(bytes).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+// Same on both sides: a hash of both public keys, shown as "1234 5678 9012"
+async function fingerprintOf(publicKeyA: string, publicKeyB: string): Promise<string> {
+  const [first, second] = [publicKeyA, publicKeyB].sort();
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${first}.${second}`)));
+  const value = digest.slice(0, 6).reduce((total, byte) => total * 256 + byte, 0);
+  const digits = String(value % 1e12).padStart(12, '0');
+  return digits.match(/.{4}/g)!.join(' ');
+}
+
+export class ChatEncryption {
+  private keyPair: Promise<CryptoKeyPair>;
+  private key: CryptoKey | null = null;
+  private partnerPublicKey: string | null = null;
+  fingerprint: string | null = null; // set once a key has been agreed
+
+  constructor(readonly sessionId: string) {
+    this.keyPair = crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']);
+  }
+
+  get isReady(): boolean {
+    return this.key !== null;
+  }
+
+  async getPublicKey(): Promise<string> {
+    return toBase64(await crypto.subtle.exportKey('raw', (await this.keyPair).publicKey));
+  }
+
+  /**
+   * Derives the chat key from the partner's public key. Returns false if
+   * it's the key we already have; a different one replaces it (the partner
+   * reloaded, or someone is in the middle) and changes the fingerprint.
+   */
+  async acceptPartnerKey(publicKey: string): Promise<boolean> {
+    if (publicKey === this.partnerPublicKey) return false;
+
+    const partnerKey = await crypto.subtle.importKey('raw', fromBase64(publicKey), ECDH_PARAMS, false, []);
+    const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: partnerKey }, (await this.keyPair).privateKey, 256);
+    const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+    this.key = await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new TextEncoder().encode(this.sessionId), info: KEY_INFO },
+      hkdfKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    this.partnerPublicKey = publicKey;
+    this.fingerprint = await fingerprintOf(await this.getPublicKey(), publicKey);
+    return true;
+  }
+
+  // The sender id is authenticated too, so the server can't pass one user's message off as the other's
+  async encrypt(text: string, senderId: string): Promise<string> {
+    if (!this.key) throw new Error('No key agreed with the partner yet');
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(senderId) },
+      this.key,
+      new TextEncoder().encode(text)
+    );
+    return `${toBase64(iv)}.${toBase64(ciphertext)}`;
+  }
+
+  // Null when this chat's key can't open it, e.g. it was sent before a reload
+  async decrypt(content: string, senderId: string): Promise<string | null> {
+    if (!this.key) return null;
+    const [iv, ciphertext] = content.split('.');
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(senderId) },
+        this.key,
+        fromBase64(ciphertext)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      return null;
+    }
+  }
+}
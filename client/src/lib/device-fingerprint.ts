@@ -0,0 +1,50 @@
+/**
+ * Client-generated device fingerprint sent with the `join` message.
+ * Combines stable browser traits with a persisted random id so that
+ * device bans survive reloads without requiring an account.
+ */
+
+const STORAGE_KEY = 'deviceId';
+
+function getPersistedId(): string {
+  let id = localStorage.getItem(STORAGE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(STORAGE_KEY, id);
+  }
+  return id;
+}
+
+function collectTraits(): string {
+  return [
+    navigator.userAgent,
+    navigator.language,
+    navigator.hardwareConcurrency,
+    screen.width,
+    screen.height,
+    screen.colorDepth,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+  ].join('|');
+}
+
+let cachedFingerprint: Promise<string> | null = null;
+
+export function getDeviceFingerprint(): Promise<string> {
+  if (!cachedFingerprint) {
+    cachedFingerprint = (async () => {
+      const persistedId = getPersistedId();
+      try {
+        const data = new TextEncoder().encode(`${collectTraits()}|${persistedId}`);
+        const digest = await crypto.subtle.digest('SHA-256', data);
+        return Array.from(new Uint8Array(digest))
+          .map(byte => byte.toString(16).padStart(2, '0'))
+          .join('');
+      } catch (error) {
+        // crypto.subtle is unavailable on insecure origins
+        console.warn('Falling back to persisted device id:', error);
+        return persistedId;
+      }
+    })();
+  }
+  return cachedFingerprint;
+}
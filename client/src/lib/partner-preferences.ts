@@ -0,0 +1,49 @@
+import { partnerPreferencesSchema, userProfileSchema, type PartnerPreferences, type UserProfile } from '@shared/protocol';
+
+/**
+ * Partner preferences and the user's own profile chosen in the setup modal,
+ * persisted alongside the user's interests and gender and sent with every
+ * find_match/next_stranger.
+ */
+
+const STORAGE_KEY = 'partnerPreferences';
+const PROFILE_STORAGE_KEY = 'userProfile';
+
+export const PREFERENCE_LANGUAGES = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'pt', label: 'Português' },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'zh', label: '中文' },
+  { code: 'ru', label: 'Русский' },
+  { code: 'ja', label: '日本語' },
+];
+
+export function loadPartnerPreferences(): PartnerPreferences {
+  try {
+    const parsed = partnerPreferencesSchema.safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}'));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+export function savePartnerPreferences(preferences: PartnerPreferences): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+}
+
+export function loadUserProfile(): UserProfile {
+  try {
+    const parsed = userProfileSchema.safeParse(JSON.parse(localStorage.getItem(PROFILE_STORAGE_KEY) || '{}'));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveUserProfile(profile: UserProfile): void {
+  localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+}
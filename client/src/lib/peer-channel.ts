@@ -0,0 +1,292 @@
+import { z } from 'zod';
+import { reactionEmojiSchema } from '@shared/protocol';
+
+/**
+ * Chat, typing and file transfers sent straight to the partner over the
+ * call's RTCDataChannel, so a video chat doesn't route them through our
+ * server. Callers check `isOpen` and fall back to the WebSocket otherwise.
+ *
+ * Control frames are JSON strings; file data goes as binary frames of at
+ * most CHUNK_SIZE bytes, each prefixed with the 36-character transfer id.
+ */
+
+// Below the 16KB every browser's SCTP stack accepts in one message
+const CHUNK_SIZE = 16 * 1024 - 64;
+// Pause sending while this much is queued, resume once it drains below the low mark
+const MAX_BUFFERED_AMOUNT = 1024 * 1024;
+const LOW_BUFFERED_AMOUNT = 256 * 1024;
+// Same limit as uploads through the server
+const MAX_INCOMING_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_INCOMING_TRANSFERS = 4;
+const TRANSFER_ID_LENGTH = 36; // crypto.randomUUID()
+
+// Types a received file may be rendered as; anything else is only downloadable
+const INLINE_FILE_TYPE = /^(image\/(png|jpeg|gif|webp)|video\/[\w.+-]+|audio\/[\w.+-]+)$/;
+
+// The partner is a stranger: frames are validated like the server validates ours
+const peerMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('chat'),
+    id: z.string().max(64),
+    content: z.string().max(5000),
+    timestamp: z.number(),
+    hasEmoji: z.boolean().optional(),
+    replyTo: z.string().max(64).optional(),
+  }),
+  z.object({ type: z.literal('typing'), isTyping: z.boolean() }),
+  // Same rules as the server's message_reaction frame; null removes the sender's reaction
+  z.object({ type: z.literal('reaction'), messageId: z.string().max(64), emoji: reactionEmojiSchema.nullable() }),
+  z.object({
+    type: z.literal('file_start'),
+    transferId: z.string().length(TRANSFER_ID_LENGTH),
+    filename: z.string().max(255),
+    mimeType: z.string().max(127),
+    size: z.number().int().nonnegative(),
+  }),
+  z.object({ type: z.literal('file_end'), transferId: z.string().length(TRANSFER_ID_LENGTH) }),
+  z.object({ type: z.literal('file_cancel'), transferId: z.string().length(TRANSFER_ID_LENGTH) }),
+]);
+
+export type PeerMessage = z.infer<typeof peerMessageSchema>;
+export type PeerChatMessage = Extract<PeerMessage, { type: 'chat' | 'typing' | 'reaction' }>;
+
+export interface FileTransfer {
+  id: string;
+  direction: 'outgoing' | 'incoming';
+  filename: string;
+  mimeType: string;
+  size: number;
+  transferred: number; // bytes sent or received so far
+  status: 'active' | 'complete' | 'cancelled';
+  file?: Blob; // the file being sent, or the received file once complete
+}
+
+export class PeerChannel {
+  private transfers = new Map<string, FileTransfer>();
+  private incomingChunks = new Map<string, Uint8Array[]>();
+  private messageListeners = new Set<(message: PeerChatMessage) => void>();
+  private transferListeners = new Set<(transfer: FileTransfer) => void>();
+  private stateListeners = new Set<(open: boolean) => void>();
+
+  constructor(private channel: RTCDataChannel) {
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = LOW_BUFFERED_AMOUNT;
+    channel.addEventListener('message', this.handleFrame);
+    channel.addEventListener('open', () => this.stateListeners.forEach(listener => listener(true)));
+    channel.addEventListener('close', this.handleClose);
+  }
+
+  get isOpen(): boolean {
+    return this.channel.readyState === 'open';
+  }
+
+  onMessage(listener: (message: PeerChatMessage) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  // Called with a fresh copy whenever a transfer starts, progresses or finishes
+  onTransfer(listener: (transfer: FileTransfer) => void): () => void {
+    this.transferListeners.add(listener);
+    return () => this.transferListeners.delete(listener);
+  }
+
+  onStateChange(listener: (open: boolean) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  // False if the channel isn't open; the caller should use the server instead
+  send(message: PeerChatMessage): boolean {
+    return this.sendControl(message);
+  }
+
+  sendFile(file: File): FileTransfer | null {
+    if (!this.isOpen) return null;
+
+    const transfer: FileTransfer = {
+      id: crypto.randomUUID(),
+      direction: 'outgoing',
+      filename: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      transferred: 0,
+      status: 'active',
+      file,
+    };
+    this.transfers.set(transfer.id, transfer);
+    this.sendControl({
+      type: 'file_start',
+      transferId: transfer.id,
+      filename: transfer.filename,
+      mimeType: transfer.mimeType,
+      size: transfer.size,
+    });
+    this.emitTransfer(transfer);
+
+    this.pump(transfer, file).catch(error => {
+      console.error('Peer file transfer failed:', error);
+      this.cancel(transfer.id);
+    });
+    return { ...transfer };
+  }
+
+  // Stops a transfer in either direction and tells the partner
+  cancel(transferId: string): void {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer || transfer.status !== 'active') return;
+    this.sendControl({ type: 'file_cancel', transferId });
+    this.finish(transfer, 'cancelled');
+  }
+
+  private async pump(transfer: FileTransfer, file: File): Promise<void> {
+    const header = new TextEncoder().encode(transfer.id);
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+      if (this.channel.bufferedAmount > MAX_BUFFERED_AMOUNT) {
+        await this.waitForDrain();
+      }
+      const chunk = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+      if (transfer.status !== 'active' || !this.isOpen) return;
+
+      const frame = new Uint8Array(header.length + chunk.length);
+      frame.set(header);
+      frame.set(chunk, header.length);
+      this.channel.send(frame);
+      transfer.transferred = offset + chunk.length;
+      this.emitTransfer(transfer);
+    }
+
+    if (transfer.status !== 'active') return;
+    this.sendControl({ type: 'file_end', transferId: transfer.id });
+    this.finish(transfer, 'complete');
+  }
+
+  private waitForDrain(): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        this.channel.removeEventListener('bufferedamountlow', done);
+        this.channel.removeEventListener('close', done);
+        resolve();
+      };
+      this.channel.addEventListener('bufferedamountlow', done);
+      this.channel.addEventListener('close', done);
+    });
+  }
+
+  private sendControl(message: PeerMessage): boolean {
+    if (!this.isOpen) return false;
+    try {
+      this.channel.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.error('Error sending over data channel:', error);
+      return false;
+    }
+  }
+
+  private handleFrame = (event: MessageEvent) => {
+    if (typeof event.data !== 'string') {
+      this.handleChunk(new Uint8Array(event.data as ArrayBuffer));
+      return;
+    }
+
+    let parsed: ReturnType<typeof peerMessageSchema.safeParse>;
+    try {
+      parsed = peerMessageSchema.safeParse(JSON.parse(event.data));
+    } catch {
+      return;
+    }
+    if (!parsed.success) return;
+
+    const message = parsed.data;
+    switch (message.type) {
+      case 'chat':
+      case 'typing':
+      case 'reaction':
+        this.messageListeners.forEach(listener => listener(message));
+        break;
+      case 'file_start':
+        this.startIncoming(message);
+        break;
+      case 'file_end':
+        this.completeIncoming(message.transferId);
+        break;
+      case 'file_cancel': {
+        const transfer = this.transfers.get(message.transferId);
+        if (transfer?.status === 'active') this.finish(transfer, 'cancelled');
+        break;
+      }
+    }
+  };
+
+  private startIncoming(message: Extract<PeerMessage, { type: 'file_start' }>): void {
+    if (this.transfers.has(message.transferId)) return;
+
+    if (message.size > MAX_INCOMING_FILE_BYTES || this.incomingChunks.size >= MAX_INCOMING_TRANSFERS) {
+      this.sendControl({ type: 'file_cancel', transferId: message.transferId });
+      return;
+    }
+
+    const transfer: FileTransfer = {
+      id: message.transferId,
+      direction: 'incoming',
+      filename: message.filename,
+      mimeType: message.mimeType,
+      size: message.size,
+      transferred: 0,
+      status: 'active',
+    };
+    this.transfers.set(transfer.id, transfer);
+    this.incomingChunks.set(transfer.id, []);
+    this.emitTransfer(transfer);
+  }
+
+  private handleChunk(frame: Uint8Array): void {
+    const transferId = new TextDecoder().decode(frame.subarray(0, TRANSFER_ID_LENGTH));
+    const transfer = this.transfers.get(transferId);
+    const chunks = this.incomingChunks.get(transferId);
+    if (!transfer || !chunks || transfer.status !== 'active') return;
+
+    const chunk = frame.slice(TRANSFER_ID_LENGTH);
+    if (transfer.transferred + chunk.length > transfer.size) {
+      // More than announced; don't keep buffering it
+      this.cancel(transferId);
+      return;
+    }
+    chunks.push(chunk);
+    transfer.transferred += chunk.length;
+    this.emitTransfer(transfer);
+  }
+
+  private completeIncoming(transferId: string): void {
+    const transfer = this.transfers.get(transferId);
+    const chunks = this.incomingChunks.get(transferId);
+    if (!transfer || !chunks || transfer.status !== 'active') return;
+
+    if (transfer.transferred !== transfer.size) {
+      this.cancel(transferId);
+      return;
+    }
+    const type = INLINE_FILE_TYPE.test(transfer.mimeType) ? transfer.mimeType : 'application/octet-stream';
+    transfer.file = new Blob(chunks, { type });
+    this.finish(transfer, 'complete');
+  }
+
+  private finish(transfer: FileTransfer, status: 'complete' | 'cancelled'): void {
+    transfer.status = status;
+    this.incomingChunks.delete(transfer.id);
+    this.emitTransfer(transfer);
+  }
+
+  private handleClose = () => {
+    for (const transfer of Array.from(this.transfers.values())) {
+      if (transfer.status === 'active') this.finish(transfer, 'cancelled');
+    }
+    this.stateListeners.forEach(listener => listener(false));
+  };
+
+  private emitTransfer(transfer: FileTransfer): void {
+    const snapshot = { ...transfer };
+    this.transferListeners.forEach(listener => listener(snapshot));
+  }
+}
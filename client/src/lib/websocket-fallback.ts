@@ -1,14 +1,24 @@
 /**
  * Enhanced WebSocket fallback mechanism for serverless environments
  * Provides robust polling-based real-time communication when WebSockets fail
+ *
+ * The server holds each poll open until frames arrive, so once joined the
+ * client re-polls immediately. Frames are acked by sending back the cursor
+ * from the previous response.
  */
 
+// Server close codes that end the connection for good: banned (4003), or
+// replaced by another connection that resumed as the same user (4001)
+const FINAL_CLOSE_CODES = [4003, 4001];
+
 interface PollingOptions {
   interval: number;
   endpoint: string;
+  requestTimeout?: number;
   onMessage: (data: any) => void;
   onError: (error: Error) => void;
   onConnectionChange?: (connected: boolean) => void;
+  onSessionLost?: () => void; // server no longer knows our poll token
   maxRetries?: number;
   backoffMultiplier?: number;
   maxBackoff?: number;
@@ -27,7 +37,10 @@ interface ConnectionMetrics {
 export class WebSocketFallback {
   private intervalId: NodeJS.Timeout | null = null;
   private isPolling = false;
-  private lastMessageId: string | null = null;
+  private pollGeneration = 0;
+  private token: string | null = null;
+  private cursor = 0;
+  private sendChain: Promise<void> = Promise.resolve();
   private options: PollingOptions;
   private metrics: ConnectionMetrics;
   private retryCount = 0;
@@ -42,6 +55,7 @@ export class WebSocketFallback {
       maxRetries: 5,
       backoffMultiplier: 2,
       maxBackoff: 30000,
+      requestTimeout: 30000, // longer than the server's poll hold
       ...options
     };
     this.currentInterval = this.options.interval;
@@ -55,9 +69,6 @@ export class WebSocketFallback {
       consecutiveFailures: 0,
       isHealthy: true
     };
-    
-    // Start health monitoring
-    this.startHealthMonitoring();
   }
 
   start(): void {
@@ -65,16 +76,18 @@ export class WebSocketFallback {
     
     console.log('Starting enhanced polling fallback...');
     this.isPolling = true;
+    this.pollGeneration++;
     this.retryCount = 0;
     this.currentInterval = this.options.interval;
-    this.poll();
+    this.startHealthMonitoring();
+    this.poll(this.pollGeneration);
   }
 
   stop(): void {
     console.log('Stopping enhanced polling fallback...');
     
     if (this.intervalId) {
-      clearInterval(this.intervalId);
+      clearTimeout(this.intervalId);
       this.intervalId = null;
     }
     
@@ -93,8 +106,12 @@ export class WebSocketFallback {
     }
   }
 
-  private async poll(): Promise<void> {
+  private async poll(generation: number): Promise<void> {
+    // A restart started a newer polling loop; let this one die out
+    if (generation !== this.pollGeneration) return;
+
     const startTime = Date.now();
+    this.lastPollTime = startTime;
     this.metrics.totalPolls++;
     
     try {
@@ -104,21 +121,26 @@ export class WebSocketFallback {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          lastMessageId: this.lastMessageId,
-          timestamp: Date.now(),
-          metrics: this.metrics
+          token: this.token,
+          cursor: this.cursor,
+          timestamp: Date.now()
         }),
-        signal: AbortSignal.timeout(10000) // 10 second timeout
+        signal: AbortSignal.timeout(this.options.requestTimeout || 30000)
       });
 
       const responseTime = Date.now() - startTime;
       this.responseTimeSum += responseTime;
+      this.lastPollTime = Date.now();
       
-      if (!response.ok) {
+      // The server restarted or expired us: forget the token and rejoin
+      if (response.status === 401 && this.token) {
+        this.resetSession();
+        this.options.onSessionLost?.();
+      } else if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const data = await response.json();
+      const data = response.ok ? await response.json() : {};
       
       // Update metrics for successful poll
       this.metrics.successfulPolls++;
@@ -138,17 +160,32 @@ export class WebSocketFallback {
       if (data.messages && Array.isArray(data.messages)) {
         for (const message of data.messages) {
           this.options.onMessage(message);
-          this.lastMessageId = message.id || Date.now().toString();
         }
       }
+      if (typeof data.cursor === 'number') {
+        this.cursor = data.cursor;
+      }
+      
+      // Server closed this connection; a ban or takeover is final, anything else rejoins
+      if (data.closed) {
+        console.log('Polling connection closed by server:', data.closed.code, data.closed.reason);
+        this.resetSession();
+        if (FINAL_CLOSE_CODES.includes(data.closed.code)) {
+          this.stop();
+          return;
+        }
+        this.options.onSessionLost?.();
+      }
       
       // Reset retry count and interval on success
       this.retryCount = 0;
       this.currentInterval = this.options.interval;
 
-      // Schedule next poll
-      if (this.isPolling) {
-        this.intervalId = setTimeout(() => this.poll(), this.currentInterval);
+      // Schedule next poll: immediately once joined, since the server holds
+      // the request open; otherwise wait for the join to hand us a token
+      if (this.isPolling && generation === this.pollGeneration) {
+        const delay = this.token ? 0 : this.currentInterval;
+        this.intervalId = setTimeout(() => this.poll(generation), delay);
       }
     } catch (error) {
       const responseTime = Date.now() - startTime;
@@ -180,7 +217,7 @@ export class WebSocketFallback {
         
         console.log(`Retrying poll in ${backoffDelay}ms (attempt ${this.retryCount}/${this.options.maxRetries || 5})`);
         
-        this.intervalId = setTimeout(() => this.poll(), backoffDelay);
+        this.intervalId = setTimeout(() => this.poll(generation), backoffDelay);
       } else if (this.isPolling) {
         console.error('Max retry attempts reached, stopping polling');
         this.stop();
@@ -188,23 +225,58 @@ export class WebSocketFallback {
     }
   }
 
+  // Sends are chained so a join always lands (and hands out the poll
+  // token) before the frames that follow it
   sendMessage(message: any): Promise<void> {
-    return fetch('/api/messages', {
+    const send = this.sendChain.then(() => this.postMessage(message));
+    this.sendChain = send.catch(() => undefined);
+    return send;
+  }
+
+  private async postMessage(message: any): Promise<void> {
+    const response = await fetch('/api/messages', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         ...message,
+        token: message.type === 'join' ? null : this.token,
         timestamp: Date.now(),
         fallbackMode: true
       }),
       signal: AbortSignal.timeout(5000) // 5 second timeout for sends
-    }).then(response => {
-      if (!response.ok) {
-        throw new Error(`Failed to send message: ${response.statusText}`);
-      }
     });
+
+    const data = await response.json().catch(() => ({}));
+
+    // Banned IPs are refused at join with the same frame a socket would get
+    if (response.status === 403 && data.type === 'banned') {
+      this.options.onMessage(data);
+      this.stop();
+      return;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to send message: ${data.error || response.statusText}`);
+    }
+
+    if (data.token && data.token !== this.token) {
+      this.token = data.token;
+      this.cursor = 0;
+      // Wake the loop so it switches from idle polling to long-polling
+      if (this.isPolling) {
+        this.pollGeneration++;
+        if (this.intervalId) {
+          clearTimeout(this.intervalId);
+        }
+        this.poll(this.pollGeneration);
+      }
+    }
+  }
+
+  private resetSession(): void {
+    this.token = null;
+    this.cursor = 0;
   }
   
   // Enhanced health monitoring
@@ -218,8 +290,9 @@ export class WebSocketFallback {
     const now = Date.now();
     const timeSinceLastPoll = now - this.lastPollTime;
     
-    // If no polling has happened in the expected interval + 50% buffer
-    if (timeSinceLastPoll > this.currentInterval * 1.5) {
+    // If no poll has started or finished within a request timeout plus the
+    // expected interval (with a 50% buffer), the loop has stalled
+    if (timeSinceLastPoll > (this.options.requestTimeout || 30000) + this.currentInterval * 1.5) {
       console.warn('Polling appears to be stalled, restarting...');
       this.restart();
     }
@@ -252,19 +325,203 @@ export class WebSocketFallback {
   }
 }
 
+export type ConnectionType = 'websocket' | 'sse' | 'polling';
+
+interface EventStreamOptions {
+  endpoint: string;
+  connectTimeout?: number;
+  maxReconnectAttempts?: number;
+  onMessage: (data: any) => void;
+  onError: (error: Error) => void;
+  onSessionLost?: () => void; // server no longer knows our stream token
+  onClosed?: (code: number) => void; // server closed the stream for good
+  onFailed?: () => void; // stream dropped and could not be reopened
+}
+
+/**
+ * Server-Sent Events transport: frames arrive on one long-lived EventSource
+ * and client frames are POSTed back with the stream token. Much cheaper than
+ * polling on networks that block WebSockets but allow streaming responses.
+ */
+export class EventStreamFallback {
+  private source: EventSource | null = null;
+  private token: string | null = null;
+  private lastEventId = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private sendChain: Promise<void> = Promise.resolve();
+  private closed = false;
+  private options: EventStreamOptions;
+
+  constructor(options: EventStreamOptions) {
+    this.options = {
+      connectTimeout: 5000,
+      maxReconnectAttempts: 3,
+      ...options
+    };
+  }
+
+  // Resolves true once the server has handed out a stream token
+  connect(): Promise<boolean> {
+    return new Promise(resolve => {
+      let settled = false;
+      const timeout = setTimeout(() => {
+        this.closeSource();
+        settle(false);
+      }, this.options.connectTimeout);
+      const settle = (ok: boolean) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        resolve(ok);
+      };
+      this.open(settle);
+    });
+  }
+
+  private open(onReady?: (ok: boolean) => void): void {
+    if (typeof EventSource === 'undefined') {
+      onReady?.(false);
+      return;
+    }
+
+    const url = this.token
+      ? `${this.options.endpoint}?token=${encodeURIComponent(this.token)}&lastEventId=${this.lastEventId}`
+      : this.options.endpoint;
+    const source = new EventSource(url);
+    this.source = source;
+
+    source.addEventListener('ready', (event) => {
+      const { token } = JSON.parse((event as MessageEvent).data);
+      const sessionLost = this.token !== null && token !== this.token;
+      if (sessionLost) {
+        this.lastEventId = 0;
+      }
+      this.token = token;
+      this.reconnectAttempts = 0;
+      onReady?.(true);
+      if (sessionLost) {
+        this.options.onSessionLost?.();
+      }
+    });
+
+    source.onmessage = (event) => {
+      const id = parseInt(event.lastEventId, 10);
+      if (!isNaN(id)) {
+        if (id <= this.lastEventId) return; // already seen before a reconnect
+        this.lastEventId = id;
+      }
+      try {
+        this.options.onMessage(JSON.parse(event.data));
+      } catch (error) {
+        this.options.onError(error as Error);
+      }
+    };
+
+    source.addEventListener('close', (event) => {
+      const { code } = JSON.parse((event as MessageEvent).data);
+      this.closeSource();
+
+      // A ban or takeover is final; anything else gets a fresh stream and a rejoin
+      if (FINAL_CLOSE_CODES.includes(code)) {
+        this.closed = true;
+        this.options.onClosed?.(code);
+        return;
+      }
+      this.token = null;
+      this.lastEventId = 0;
+      this.open(ok => ok ? this.options.onSessionLost?.() : this.options.onFailed?.());
+    });
+
+    source.onerror = () => {
+      if (this.source !== source) return;
+      this.closeSource();
+
+      if (!this.token) {
+        onReady?.(false);
+        return;
+      }
+      // EventSource would retry on its own but without our token, so we
+      // reopen it ourselves and resume from the last event id
+      if (!this.closed) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= (this.options.maxReconnectAttempts || 3)) {
+      console.log('EventStream: Max reconnection attempts reached');
+      this.options.onFailed?.();
+      return;
+    }
+
+    const delay = 1000 * Math.pow(2, this.reconnectAttempts++);
+    console.log(`EventStream: Reconnecting in ${delay}ms...`);
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  // Sends are chained so frames reach the server in order
+  sendMessage(message: any): Promise<void> {
+    const send = this.sendChain.then(async () => {
+      const response = await fetch(this.options.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...message,
+          token: this.token,
+          timestamp: Date.now()
+        }),
+        signal: AbortSignal.timeout(5000)
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to send message: ${response.statusText}`);
+      }
+    });
+    this.sendChain = send.catch(() => undefined);
+    return send;
+  }
+
+  isReady(): boolean {
+    return this.token !== null && !this.closed;
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.closeSource();
+  }
+
+  private closeSource(): void {
+    if (this.source) {
+      this.source.close();
+      this.source = null;
+    }
+  }
+}
+
 /**
- * Enhanced Hybrid WebSocket/Polling connection manager
- * Automatically falls back to polling if WebSocket fails with comprehensive monitoring
+ * Enhanced Hybrid connection manager
+ * Tries WebSocket first, then Server-Sent Events, then polling, with comprehensive monitoring
  */
 export class HybridConnection {
   private ws: WebSocket | null = null;
+  private eventStream: EventStreamFallback | null = null;
   private fallback: WebSocketFallback | null = null;
   private useFallback = false;
+  private transport: ConnectionType = 'websocket';
   private messageHandlers = new Map<string, (data: any) => void>();
   private connectionState: 'connecting' | 'connected' | 'disconnected' | 'fallback' = 'disconnected';
   private connectionAttempts = 0;
   private lastConnectionAttempt = 0;
   private messageQueue: any[] = [];
+  private lastJoinMessage: any = null;
+  private drainReconnectDelay: number | null = null; // from server_draining, until the close that follows
   private connectionMetrics = {
     totalConnections: 0,
     successfulConnections: 0,
@@ -281,10 +538,12 @@ export class HybridConnection {
 
   constructor(
     private wsUrl: string,
-    private fallbackEndpoint: string = '/api/poll'
+    private fallbackEndpoint: string = '/api/poll',
+    private eventStreamEndpoint: string = '/api/events'
   ) {
     console.log('Initializing enhanced hybrid connection:', {
       wsUrl: this.wsUrl,
+      eventStreamEndpoint: this.eventStreamEndpoint,
       fallbackEndpoint: this.fallbackEndpoint
     });
   }
@@ -315,6 +574,7 @@ export class HybridConnection {
           
           this.connectionState = 'connected';
           this.useFallback = false;
+          this.transport = 'websocket';
           this.connectionAttempts = 0;
           this.connectionMetrics.successfulConnections++;
           this.connectionMetrics.averageConnectionTime = 
@@ -331,6 +591,26 @@ export class HybridConnection {
           
           this.stopHeartbeat();
           
+          // Banned or taken over by the server: stay disconnected instead of retrying or polling
+          if (FINAL_CLOSE_CODES.includes(event.code)) {
+            this.connectionState = 'disconnected';
+            return;
+          }
+
+          // Server restart announced by server_draining: come back when it
+          // suggested and rejoin, without counting it as a failed connection
+          if (event.code === 1012 && this.drainReconnectDelay !== null) {
+            const delay = this.drainReconnectDelay;
+            this.drainReconnectDelay = null;
+            this.connectionState = 'disconnected';
+            console.log(`HybridConnection: Server restarting, reconnecting in ${delay}ms`);
+            setTimeout(() => {
+              if (this.connectionState !== 'disconnected') return;
+              this.connect().then(() => this.rejoin());
+            }, delay);
+            return;
+          }
+          
           if (this.connectionState === 'connected') {
             this.connectionState = 'disconnected';
             this.connectionMetrics.failedConnections++;
@@ -344,12 +624,12 @@ export class HybridConnection {
                 if (this.connectionState === 'disconnected' && this.connectionAttempts < 5) {
                   this.connect();
                 } else if (this.connectionAttempts >= 5) {
-                  console.log('HybridConnection: Max reconnection attempts reached, falling back to polling');
-                  this.fallbackToPolling();
+                  console.log('HybridConnection: Max reconnection attempts reached, falling back');
+                  this.fallbackFromWebSocket();
                 }
               }, backoffDelay);
             } else {
-              this.fallbackToPolling();
+              this.fallbackFromWebSocket();
             }
           }
         };
@@ -369,8 +649,8 @@ export class HybridConnection {
             });
           }
           
-          this.fallbackToPolling();
-          resolve(); // Don't reject, fallback is available
+          // Don't reject, a fallback transport is available
+          this.fallbackFromWebSocket().then(() => resolve());
         };
 
         this.ws.onmessage = (event) => {
@@ -380,6 +660,10 @@ export class HybridConnection {
             
             this.connectionMetrics.messagesReceived++;
             this.lastHeartbeat = Date.now();
+
+            if (message.type === 'server_draining') {
+              this.drainReconnectDelay = message.reconnectAfterMs;
+            }
             
             const handler = this.messageHandlers.get(message.type);
             if (handler) {
@@ -405,24 +689,22 @@ export class HybridConnection {
         // Timeout after 5 seconds
         setTimeout(() => {
           if (this.connectionState === 'connecting') {
-            console.log('HybridConnection: WebSocket connection timeout, falling back to polling');
-            this.fallbackToPolling();
-            resolve();
+            console.log('HybridConnection: WebSocket connection timeout, falling back');
+            this.fallbackFromWebSocket().then(() => resolve());
           }
         }, 5000);
 
       } catch (error) {
         console.log('HybridConnection: WebSocket creation failed', error);
-        this.fallbackToPolling();
-        resolve();
+        this.fallbackFromWebSocket().then(() => resolve());
       }
     });
   }
 
-  private fallbackToPolling(): void {
+  // Steps down from WebSocket to SSE, and to polling if SSE can't connect
+  private async fallbackFromWebSocket(): Promise<void> {
     if (this.useFallback) return;
     
-    console.log('HybridConnection: Falling back to polling...');
     this.useFallback = true;
     this.connectionState = 'fallback';
     this.connectionMetrics.fallbackActivations++;
@@ -432,19 +714,65 @@ export class HybridConnection {
       this.ws = null;
     }
 
+    if (await this.tryEventStream()) {
+      console.log('HybridConnection: Using Server-Sent Events');
+      this.transport = 'sse';
+      // A user joined over the dropped WebSocket is gone server-side
+      this.rejoin();
+      this.processMessageQueue();
+      return;
+    }
+
+    this.fallbackToPolling();
+  }
+
+  private async tryEventStream(): Promise<boolean> {
+    console.log('HybridConnection: Trying Server-Sent Events...');
+    const eventStream = new EventStreamFallback({
+      endpoint: this.eventStreamEndpoint,
+      onMessage: (message) => this.dispatch(message),
+      onError: (error) => {
+        console.error('EventStream error:', error);
+      },
+      onSessionLost: () => this.rejoin(),
+      onClosed: (code) => {
+        // Banned or taken over by the server: stay disconnected instead of falling back
+        if (FINAL_CLOSE_CODES.includes(code)) {
+          this.connectionState = 'disconnected';
+        }
+      },
+      onFailed: () => {
+        console.log('HybridConnection: Event stream lost, falling back to polling');
+        this.eventStream?.disconnect();
+        this.eventStream = null;
+        this.fallbackToPolling();
+      }
+    });
+
+    const connected = await eventStream.connect();
+    if (connected) {
+      this.eventStream = eventStream;
+    } else {
+      eventStream.disconnect();
+    }
+    return connected;
+  }
+
+  private fallbackToPolling(): void {
+    if (this.fallback) return;
+    
+    console.log('HybridConnection: Falling back to polling...');
+    this.useFallback = true;
+    this.transport = 'polling';
+    this.connectionState = 'fallback';
+
     this.fallback = new WebSocketFallback({
       interval: 5000, // Poll every 5 seconds instead of 2
       endpoint: this.fallbackEndpoint,
       maxRetries: 5,
       backoffMultiplier: 2,
       maxBackoff: 30000,
-      onMessage: (message) => {
-        const handler = this.messageHandlers.get(message.type);
-        if (handler) {
-          handler(message);
-        }
-        this.connectionMetrics.messagesReceived++;
-      },
+      onMessage: (message) => this.dispatch(message),
       onError: (error) => {
         console.error('Polling error:', error);
         
@@ -463,16 +791,50 @@ export class HybridConnection {
         if (connected) {
           this.processMessageQueue();
         }
-      }
+      },
+      onSessionLost: () => this.rejoin()
     });
 
     this.fallback.start();
+
+    // A user joined over the dropped WebSocket is gone server-side
+    this.rejoin();
+  }
+
+  private dispatch(message: any): void {
+    // Rejoins resume with the newest token
+    if (message.type === 'user_joined' && message.resumeToken && this.lastJoinMessage) {
+      this.lastJoinMessage = { ...this.lastJoinMessage, resumeToken: message.resumeToken };
+    }
+    const handler = this.messageHandlers.get(message.type);
+    if (handler) {
+      handler(message);
+    }
+    this.connectionMetrics.messagesReceived++;
+  }
+
+  // Replays the last join; its resume token gets the same user id back
+  private rejoin(): void {
+    if (this.lastJoinMessage) {
+      console.log(`HybridConnection: Rejoining via ${this.getConnectionType()}`);
+      this.send({ ...this.lastJoinMessage, timestamp: Date.now() });
+    }
   }
 
   send(message: any): void {
-    console.log('HybridConnection: Sending message', message.type, 'via', this.useFallback ? 'polling' : 'websocket');
+    console.log('HybridConnection: Sending message', message.type, 'via', this.getConnectionType());
+    
+    if (message.type === 'join') {
+      this.lastJoinMessage = message;
+    }
     
-    if (this.useFallback && this.fallback) {
+    if (this.transport === 'sse' && this.eventStream?.isReady()) {
+      this.eventStream.sendMessage(message).catch(error => {
+        console.error('Failed to send message via event stream:', error);
+        // Queue message for retry
+        this.messageQueue.push(message);
+      });
+    } else if (this.useFallback && this.fallback) {
       this.fallback.sendMessage(message).catch(error => {
         console.error('Failed to send message via polling:', error);
         // Queue message for retry
@@ -523,6 +885,10 @@ export class HybridConnection {
       this.ws.close();
       this.ws = null;
     }
+    if (this.eventStream) {
+      this.eventStream.disconnect();
+      this.eventStream = null;
+    }
     if (this.fallback) {
       this.fallback.stop();
       this.fallback = null;
@@ -530,15 +896,17 @@ export class HybridConnection {
     
     this.connectionState = 'disconnected';
     this.useFallback = false;
+    this.transport = 'websocket';
     this.connectionAttempts = 0;
     this.messageQueue = [];
+    this.lastJoinMessage = null;
     this.isHealthy = false;
     
     console.log('HybridConnection: Disconnected');
   }
 
-  getConnectionType(): 'websocket' | 'polling' {
-    return this.useFallback ? 'polling' : 'websocket';
+  getConnectionType(): ConnectionType {
+    return this.transport;
   }
 
   isConnected(): boolean {
@@ -0,0 +1,565 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Shield, Flag, Ban, LogOut, AlertTriangle } from 'lucide-react';
+import type { ModerationReport, BanRecord, StrikeRecord, TrustLevel } from '@/types/chat';
+
+type ReportStatusFilter = 'pending' | 'resolved' | 'dismissed' | 'all';
+
+interface TranscriptMessage {
+  id: string;
+  senderId: string;
+  content: string;
+  encrypted?: boolean | null;
+  timestamp: string;
+}
+
+const banDurations = [
+  { value: '60', label: '1 hour' },
+  { value: '1440', label: '24 hours' },
+  { value: '10080', label: '7 days' },
+  { value: '0', label: 'Permanent' },
+];
+
+class AdminAuthError extends Error {}
+
+// All admin requests carry the moderator token as a bearer header
+async function adminFetch<T>(token: string, url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: {
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (res.status === 401) {
+    throw new AdminAuthError('Invalid admin token');
+  }
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `${res.status}: ${res.statusText}`);
+  }
+  return res.json();
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function StatusBadge({ status }: { status: ModerationReport['status'] }) {
+  const variant = status === 'pending' ? 'destructive' : status === 'resolved' ? 'default' : 'secondary';
+  return <Badge variant={variant}>{status}</Badge>;
+}
+
+function LevelBadge({ level }: { level: TrustLevel }) {
+  const variant = level === 'banned' || level === 'low_trust' ? 'destructive' : level === 'warning' ? 'default' : 'secondary';
+  return <Badge variant={variant}>{level.replace('_', ' ')}</Badge>;
+}
+
+export default function Admin() {
+  const [token, setToken] = useState<string | null>(() => sessionStorage.getItem('adminToken'));
+  const [tokenInput, setTokenInput] = useState('');
+
+  const handleSignIn = () => {
+    if (!tokenInput.trim()) return;
+    sessionStorage.setItem('adminToken', tokenInput.trim());
+    setToken(tokenInput.trim());
+    setTokenInput('');
+  };
+
+  const handleSignOut = () => {
+    sessionStorage.removeItem('adminToken');
+    setToken(null);
+  };
+
+  if (!token) {
+    return (
+      <div className="flex justify-center py-16">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Shield className="h-5 w-5 text-primary" />
+              Moderator sign in
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="admin-token">Admin token</Label>
+              <Input
+                id="admin-token"
+                type="password"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSignIn()}
+                data-testid="input-admin-token"
+              />
+            </div>
+            <Button className="w-full" onClick={handleSignIn} disabled={!tokenInput.trim()}>
+              Sign in
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <ModerationDashboard token={token} onSignOut={handleSignOut} />;
+}
+
+function ModerationDashboard({ token, onSignOut }: { token: string; onSignOut: () => void }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<ReportStatusFilter>('pending');
+  const [selectedReport, setSelectedReport] = useState<ModerationReport | null>(null);
+  const [banTarget, setBanTarget] = useState<ModerationReport | null>(null);
+
+  const handleError = (error: Error) => {
+    if (error instanceof AdminAuthError) {
+      onSignOut();
+    }
+    toast({ title: 'Request failed', description: error.message, variant: 'destructive' });
+  };
+
+  const reportsQuery = useQuery({
+    queryKey: ['/api/admin/reports', statusFilter],
+    queryFn: () => adminFetch<{ reports: ModerationReport[] }>(token, `/api/admin/reports?status=${statusFilter}`),
+    refetchInterval: 30000,
+    retry: false,
+  });
+
+  const bansQuery = useQuery({
+    queryKey: ['/api/admin/bans'],
+    queryFn: () => adminFetch<{ bans: BanRecord[] }>(token, '/api/admin/bans'),
+    retry: false,
+  });
+
+  const strikesQuery = useQuery({
+    queryKey: ['/api/admin/strikes', 'transitions'],
+    queryFn: () => adminFetch<{ strikes: StrikeRecord[] }>(token, '/api/admin/strikes?transitions=true'),
+    refetchInterval: 30000,
+    retry: false,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: 'resolved' | 'dismissed' }) =>
+      adminFetch(token, `/api/admin/reports/${id}/resolve`, {
+        method: 'POST',
+        body: JSON.stringify({ status }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reports'] });
+      setSelectedReport(null);
+    },
+    onError: handleError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => adminFetch(token, `/api/admin/bans/${id}`, { method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/admin/bans'] }),
+    onError: handleError,
+  });
+
+  const queryError = reportsQuery.error || bansQuery.error || strikesQuery.error;
+  useEffect(() => {
+    if (queryError instanceof AdminAuthError) {
+      onSignOut();
+    }
+  }, [queryError, onSignOut]);
+
+  const reports = reportsQuery.data?.reports || [];
+  const bans = bansQuery.data?.bans || [];
+  const strikes = strikesQuery.data?.strikes || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <Shield className="h-6 w-6 text-primary" />
+          Moderation
+        </h2>
+        <Button variant="outline" size="sm" onClick={onSignOut}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign out
+        </Button>
+      </div>
+
+      <Tabs defaultValue="reports">
+        <TabsList>
+          <TabsTrigger value="reports">
+            <Flag className="h-4 w-4 mr-2" />
+            Reports
+          </TabsTrigger>
+          <TabsTrigger value="bans">
+            <Ban className="h-4 w-4 mr-2" />
+            Bans
+          </TabsTrigger>
+          <TabsTrigger value="strikes">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Escalations
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="reports" className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Label>Status</Label>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReportStatusFilter)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="dismissed">Dismissed</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Filed</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Reported user</TableHead>
+                <TableHead>Evidence</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reports.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    {reportsQuery.isLoading ? 'Loading reports...' : 'No reports in this queue'}
+                  </TableCell>
+                </TableRow>
+              ) : reports.map((report) => (
+                <TableRow key={report.id} data-testid={`report-row-${report.id}`}>
+                  <TableCell>{formatDate(report.createdAt)}</TableCell>
+                  <TableCell>{report.reason}</TableCell>
+                  <TableCell className="font-mono text-xs">{report.reportedUserId || 'unknown'}</TableCell>
+                  <TableCell>{report.evidence?.length || 0} messages</TableCell>
+                  <TableCell><StatusBadge status={report.status} /></TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => setSelectedReport(report)}>
+                      Review
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+
+        <TabsContent value="bans">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scope</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bans.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    {bansQuery.isLoading ? 'Loading bans...' : 'No bans issued'}
+                  </TableCell>
+                </TableRow>
+              ) : bans.map((ban) => {
+                const isActive = !ban.revokedAt && (!ban.expiresAt || new Date(ban.expiresAt).getTime() > Date.now());
+                return (
+                  <TableRow key={ban.id}>
+                    <TableCell>{ban.scope}</TableCell>
+                    <TableCell className="font-mono text-xs">{ban.value}</TableCell>
+                    <TableCell>{ban.reason}</TableCell>
+                    <TableCell>{ban.expiresAt ? formatDate(ban.expiresAt) : 'Never'}</TableCell>
+                    <TableCell>
+                      <Badge variant={isActive ? 'destructive' : 'secondary'}>
+                        {ban.revokedAt ? 'revoked' : isActive ? 'active' : 'expired'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isActive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => revokeMutation.mutate(ban.id)}
+                          disabled={revokeMutation.isPending}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TabsContent>
+
+        <TabsContent value="strikes">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Cause</TableHead>
+                <TableHead>Strikes</TableHead>
+                <TableHead>Transition</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {strikes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    {strikesQuery.isLoading ? 'Loading escalations...' : 'No escalations in the last 7 days'}
+                  </TableCell>
+                </TableRow>
+              ) : strikes.map((strike) => (
+                <TableRow key={strike.id}>
+                  <TableCell>{formatDate(strike.createdAt)}</TableCell>
+                  <TableCell>
+                    <span className="text-muted-foreground mr-2">{strike.subjectType}</span>
+                    <span className="font-mono text-xs">{strike.subjectValue}</span>
+                  </TableCell>
+                  <TableCell>
+                    {strike.source}
+                    {strike.detail && <span className="text-muted-foreground font-mono text-xs ml-2">{strike.detail}</span>}
+                  </TableCell>
+                  <TableCell>{strike.strikeCount}</TableCell>
+                  <TableCell className="space-x-1">
+                    <LevelBadge level={strike.previousLevel} />
+                    <span className="text-muted-foreground">→</span>
+                    <LevelBadge level={strike.level} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+      </Tabs>
+
+      <ReportSheet
+        token={token}
+        report={selectedReport}
+        onClose={() => setSelectedReport(null)}
+        onResolve={(status) => selectedReport && resolveMutation.mutate({ id: selectedReport.id, status })}
+        onBan={() => setBanTarget(selectedReport)}
+        isResolving={resolveMutation.isPending}
+      />
+
+      <BanDialog
+        token={token}
+        report={banTarget}
+        onClose={() => setBanTarget(null)}
+        onBanned={() => {
+          setBanTarget(null);
+          setSelectedReport(null);
+          queryClient.invalidateQueries({ queryKey: ['/api/admin/bans'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/admin/reports'] });
+          toast({ title: 'Ban issued' });
+        }}
+        onError={handleError}
+      />
+    </div>
+  );
+}
+
+interface ReportSheetProps {
+  token: string;
+  report: ModerationReport | null;
+  onClose: () => void;
+  onResolve: (status: 'resolved' | 'dismissed') => void;
+  onBan: () => void;
+  isResolving: boolean;
+}
+
+function ReportSheet({ token, report, onClose, onResolve, onBan, isResolving }: ReportSheetProps) {
+  const transcriptQuery = useQuery({
+    queryKey: ['/api/admin/sessions', report?.sessionId],
+    queryFn: () => adminFetch<{ messages: TranscriptMessage[] }>(token, `/api/admin/sessions/${report!.sessionId}`),
+    enabled: !!report,
+    retry: false,
+  });
+
+  // Fall back to the evidence snapshot if the session has since been purged
+  const transcript = transcriptQuery.data?.messages || report?.evidence || [];
+
+  return (
+    <Sheet open={!!report} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {report && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{report.reason}</SheetTitle>
+              <SheetDescription>
+                Filed {formatDate(report.createdAt)} · session <span className="font-mono">{report.sessionId}</span>
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-4 py-4">
+              <div className="flex items-center gap-2">
+                <StatusBadge status={report.status} />
+                {report.resolution && <span className="text-sm text-muted-foreground">{report.resolution}</span>}
+              </div>
+
+              {report.description && (
+                <div>
+                  <Label className="text-xs uppercase text-muted-foreground">Reporter's description</Label>
+                  <p className="text-sm mt-1 whitespace-pre-wrap">{report.description}</p>
+                </div>
+              )}
+
+              <div>
+                <Label className="text-xs uppercase text-muted-foreground">Transcript</Label>
+                <div className="mt-2 space-y-2 max-h-96 overflow-y-auto rounded-lg border p-3">
+                  {transcript.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No messages in this session</p>
+                  ) : transcript.map((message) => (
+                    <div key={message.id} className="text-sm">
+                      <span className={`font-mono text-xs ${message.senderId === report.reportedUserId ? 'text-red-500' : 'text-muted-foreground'}`}>
+                        {message.senderId === report.reportedUserId ? 'Reported' : 'Reporter'}
+                      </span>
+                      <span className="text-xs text-muted-foreground ml-2">
+                        {new Date(message.timestamp).toLocaleTimeString()}
+                      </span>
+                      {message.encrypted ? (
+                        <p className="italic text-muted-foreground">End-to-end encrypted</p>
+                      ) : (
+                        <p className="whitespace-pre-wrap">{message.content}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {report.status === 'pending' && (
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="outline" onClick={() => onResolve('dismissed')} disabled={isResolving}>
+                  Dismiss
+                </Button>
+                <Button variant="outline" onClick={() => onResolve('resolved')} disabled={isResolving}>
+                  Mark resolved
+                </Button>
+                <Button variant="destructive" onClick={onBan} disabled={!report.reportedUserId}>
+                  <Ban className="h-4 w-4 mr-2" />
+                  Ban user
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface BanDialogProps {
+  token: string;
+  report: ModerationReport | null;
+  onClose: () => void;
+  onBanned: () => void;
+  onError: (error: Error) => void;
+}
+
+function BanDialog({ token, report, onClose, onBanned, onError }: BanDialogProps) {
+  const [reason, setReason] = useState('');
+  const [duration, setDuration] = useState('1440');
+  const [scope, setScope] = useState<'ip' | 'device'>('ip');
+
+  const banMutation = useMutation({
+    mutationFn: () => adminFetch(token, '/api/admin/bans', {
+      method: 'POST',
+      body: JSON.stringify({
+        userId: report?.reportedUserId,
+        scope,
+        reportId: report?.id,
+        reason: reason.trim() || report?.reason,
+        durationMinutes: Number(duration),
+      }),
+    }),
+    onSuccess: () => {
+      setReason('');
+      onBanned();
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={!!report} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5 text-red-500" />
+            Ban reported user
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ban-reason">Reason</Label>
+            <Textarea
+              id="ban-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={report?.reason}
+              className="min-h-[80px] resize-none"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Ban by</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as 'ip' | 'device')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ip">IP address</SelectItem>
+                <SelectItem value="device">Device fingerprint</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Duration</Label>
+            <Select value={duration} onValueChange={setDuration}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {banDurations.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={banMutation.isPending}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={() => banMutation.mutate()} disabled={banMutation.isPending}>
+            {banMutation.isPending ? 'Banning...' : 'Issue ban'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
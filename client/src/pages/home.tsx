@@ -36,6 +36,8 @@ import {
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import type { OnlineStats } from '@/types/chat';
+import type { PartnerPreferences, UserProfile } from '@shared/protocol';
+import { loadPartnerPreferences, loadUserProfile, savePartnerPreferences, saveUserProfile } from '@/lib/partner-preferences';
 
 // Register GSAP plugins
 gsap.registerPlugin(ScrollTrigger);
@@ -102,6 +104,8 @@ export default function Home() {
   const [selectedGender, setSelectedGender] = useState<'male' | 'female' | 'other' | null>(() => {
     return localStorage.getItem('gender') as 'male' | 'female' | 'other' | null || null;
   });
+  const [selectedPreferences, setSelectedPreferences] = useState<PartnerPreferences>(loadPartnerPreferences);
+  const [selectedProfile, setSelectedProfile] = useState<UserProfile>(loadUserProfile);
   const [isSetupModalOpen, setIsSetupModalOpen] = useState(false);
   const [showScrollCTA, setShowScrollCTA] = useState(false);
   
@@ -207,11 +211,15 @@ export default function Home() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  const handleSaveSetup = (interests: string[], gender: 'male' | 'female' | 'other') => {
+  const handleSaveSetup = (interests: string[], gender: 'male' | 'female' | 'other', preferences: PartnerPreferences, profile: UserProfile) => {
     setSelectedInterests(interests);
     setSelectedGender(gender);
+    setSelectedPreferences(preferences);
+    setSelectedProfile(profile);
     localStorage.setItem('interests', JSON.stringify(interests));
     localStorage.setItem('gender', gender);
+    savePartnerPreferences(preferences);
+    saveUserProfile(profile);
   };
 
   const removeInterest = (interestToRemove: string) => {
@@ -734,6 +742,8 @@ export default function Home() {
         onClose={() => setIsSetupModalOpen(false)}
         selectedInterests={selectedInterests}
         selectedGender={selectedGender}
+        selectedPreferences={selectedPreferences}
+        selectedProfile={selectedProfile}
         onSaveSetup={handleSaveSetup}
       />
     </div>
@@ -3,11 +3,15 @@ import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useWebSocket } from '@/hooks/use-websocket';
-import { Square, SkipForward, User } from 'lucide-react';
+import { Square, SkipForward, User, Lock, LockOpen } from 'lucide-react';
 import { QuickGenderSelector } from '@/components/quick-gender-selector';
 import EnhancedMessageInput from '@/components/enhanced-message-input';
 import EnhancedMessage from '@/components/enhanced-message';
+import { BannedNotice } from '@/components/banned-notice';
+import { loadPartnerPreferences, loadUserProfile } from '@/lib/partner-preferences';
+import { ChatEncryption } from '@/lib/chat-encryption';
 import type { Message, ChatSession, Attachment } from '@/types/chat';
+import type { ChatMessagePayload } from '@shared/protocol';
 
 export default function TextChat() {
   const [, setLocation] = useLocation();
@@ -19,15 +23,24 @@ export default function TextChat() {
   const [connectionStatus, setConnectionStatus] = useState<'waiting' | 'connected' | 'ended'>('waiting');
   const [queuePosition, setQueuePosition] = useState<number | null>(null);
   const [estimatedWaitTime, setEstimatedWaitTime] = useState<number | null>(null);
-  const [matchQuality, setMatchQuality] = useState<'high' | 'random' | null>(null);
+  const [matchQuality, setMatchQuality] = useState<'high' | 'medium' | 'random' | null>(null);
   const [sharedInterests, setSharedInterests] = useState<string[]>([]);
   const [userGender, setUserGender] = useState<'male' | 'female' | 'other' | null>(() => {
     return localStorage.getItem('gender') as 'male' | 'female' | 'other' | null || null;
   });
   const [showFeedback, setShowFeedback] = useState(false);
+  // Opt-in end-to-end encryption; the choice carries over to later chats
+  const [encryptionEnabled, setEncryptionEnabled] = useState(() => localStorage.getItem('e2eEnabled') === 'true');
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
+  // Newest chat message on screen, so a recovery only replays what we missed
+  const lastMessageIdRef = useRef<string | null>(null);
+  const encryptionRef = useRef<ChatEncryption | null>(null);
+  // Chat frames are handled one at a time so decrypting doesn't reorder them
+  const messageQueueRef = useRef<Promise<void>>(Promise.resolve());
   
   const { 
     isConnected, 
@@ -35,12 +48,42 @@ export default function TextChat() {
     reconnectAttempts, 
     connectionQuality,
     lastHeartbeat,
+    banInfo,
     sendMessage, 
     onMessage, 
     offMessage,
     getQueueStatus 
   } = useWebSocket();
 
+  // This chat's encryption; a new chat starts with a fresh key pair
+  const encryptionFor = (sessionId: string) => {
+    if (encryptionRef.current?.sessionId !== sessionId) {
+      encryptionRef.current = new ChatEncryption(sessionId);
+      setFingerprint(null);
+    }
+    return encryptionRef.current;
+  };
+
+  const sendPublicKey = async (sessionId: string) => {
+    const publicKey = await encryptionFor(sessionId).getPublicKey();
+    sendMessage({ type: 'key_exchange', sessionId, publicKey });
+  };
+
+  const readableContent = async (message: ChatMessagePayload): Promise<string> => {
+    if (!message.encrypted) return message.content;
+    const encryption = encryptionRef.current;
+    const plaintext = encryption?.sessionId === message.sessionId
+      ? await encryption.decrypt(message.content, message.senderId)
+      : null;
+    return plaintext ?? "🔒 Encrypted message that can't be read on this device";
+  };
+
+  const inOrder = (task: () => Promise<void>) => {
+    messageQueueRef.current = messageQueueRef.current
+      .then(task)
+      .catch(error => console.error('Error handling chat message:', error));
+  };
+
   useEffect(() => {
     if (!isConnected || !userId) return;
 
@@ -53,6 +96,7 @@ export default function TextChat() {
       sendMessage({
         type: 'get_session_recovery',
         sessionId: savedSessionId,
+        lastMessageId: lastMessageIdRef.current ?? undefined,
       });
     } else {
       // Find a match when component mounts
@@ -63,6 +107,8 @@ export default function TextChat() {
         chatType: 'text',
         interests,
         gender,
+        preferences: loadPartnerPreferences(),
+        profile: loadUserProfile(),
       });
     }
 
@@ -82,6 +128,9 @@ export default function TextChat() {
       };
       setSession(newSession);
       setConnectionStatus('connected');
+      encryptionRef.current = null;
+      setFingerprint(null);
+      setReplyingTo(null);
       setMatchQuality(data.matchQuality || 'random');
       setSharedInterests(data.sharedInterests || []);
       setQueuePosition(null);
@@ -118,9 +167,37 @@ export default function TextChat() {
         timestamp: new Date(),
         isOwn: false,
       };
-      setMessages([recoveryMessage]);
+      setMessages(prev => [...prev, recoveryMessage]);
     });
 
+    // Messages sent while we were away, in pages after the last one we had
+    onMessage('message_history', (data) => inOrder(async () => {
+      const replayed: Message[] = await Promise.all(data.messages.map(async message => ({
+        id: message.id,
+        content: await readableContent(message),
+        senderId: message.senderId,
+        timestamp: new Date(message.timestamp || Date.now()),
+        isOwn: message.senderId === userId,
+        attachments: message.attachments || [],
+        hasEmoji: message.hasEmoji || false,
+        replyTo: message.replyTo,
+        reactions: message.reactions || [],
+      })));
+      setMessages(prev => {
+        const known = new Set(prev.map(message => message.id));
+        return [...prev, ...replayed.filter(message => !known.has(message.id))]
+          .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      });
+
+      if (data.hasMore && replayed.length > 0) {
+        sendMessage({
+          type: 'get_message_history',
+          sessionId: data.sessionId,
+          after: replayed[replayed.length - 1].id,
+        });
+      }
+    }));
+
     onMessage('session_recovery_failed', () => {
       // Clear saved session
       sessionStorage.removeItem('currentSessionId');
@@ -134,10 +211,30 @@ export default function TextChat() {
         chatType: 'text',
         interests,
         gender,
+        preferences: loadPartnerPreferences(),
+        profile: loadUserProfile(),
       });
     });
 
+    onMessage('partner_disconnected', (data) => {
+      // The partner's connection dropped; the chat stays open while they may come back
+      const disconnectMessage: Message = {
+        id: `disconnect-${Date.now()}`,
+        content: `⚠️ Your partner lost their connection. Waiting up to ${data.graceSeconds}s for them to come back...`,
+        senderId: 'system',
+        timestamp: new Date(),
+        isOwn: false,
+      };
+      setMessages(prev => [...prev, disconnectMessage]);
+    });
+
     onMessage('partner_reconnected', () => {
+      // A partner who reloaded lost our key; offering it again lets them back into the encrypted chat
+      const encryption = encryptionRef.current;
+      if (encryption?.isReady) {
+        sendPublicKey(encryption.sessionId).catch(error => console.error('Error resending encryption key:', error));
+      }
+
       // Show reconnection notification
       const reconnectMessage: Message = {
         id: `reconnect-${Date.now()}`,
@@ -149,6 +246,26 @@ export default function TextChat() {
       setMessages(prev => [...prev, reconnectMessage]);
     });
 
+    onMessage('key_exchange', (data) => inOrder(async () => {
+      const encryption = encryptionFor(data.sessionId);
+      const hadKey = encryption.isReady;
+      if (!(await encryption.acceptPartnerKey(data.publicKey))) return;
+
+      // Answer with ours so the partner derives the same key
+      await sendPublicKey(data.sessionId);
+      setFingerprint(encryption.fingerprint);
+      const encryptionMessage: Message = {
+        id: `encryption-${Date.now()}`,
+        content: hadKey
+          ? `⚠️ Your partner's encryption key changed. Compare the new code ${encryption.fingerprint} with them.`
+          : `🔒 Messages are now end-to-end encrypted. Compare the code ${encryption.fingerprint} with your partner to make sure nobody is in between.`,
+        senderId: 'system',
+        timestamp: new Date(),
+        isOwn: false,
+      };
+      setMessages(prev => [...prev, encryptionMessage]);
+    }));
+
     onMessage('gender_updated', (data) => {
       // Gender was successfully updated
       console.log('Gender updated:', data.gender);
@@ -159,36 +276,46 @@ export default function TextChat() {
       setEstimatedWaitTime(data.estimatedWaitTime);
     });
 
-    onMessage('message_received', (data) => {
+    onMessage('message_received', (data) => inOrder(async () => {
       // Only add message if it's from another user
       if (data.message.senderId !== userId) {
         const message: Message = {
           id: data.message.id || Date.now().toString(),
-          content: data.message.content,
+          content: await readableContent(data.message),
           senderId: data.message.senderId || 'unknown',
           timestamp: new Date(data.message.timestamp || Date.now()),
           isOwn: false, // Always false for received messages
           attachments: data.message.attachments || [],
           hasEmoji: data.message.hasEmoji || false,
+          replyTo: data.message.replyTo,
+          reactions: data.message.reactions || [],
         };
         setMessages(prev => [...prev, message]);
       }
-    });
+    }));
 
-    onMessage('message_sent', (data) => {
+    onMessage('message_sent', (data) => inOrder(async () => {
       // Only add message if it's from the current user
       if (data.message.senderId === userId) {
         const message: Message = {
           id: data.message.id || Date.now().toString(),
-          content: data.message.content,
+          content: await readableContent(data.message),
           senderId: data.message.senderId || userId || 'self',
           timestamp: new Date(data.message.timestamp || Date.now()),
           isOwn: true, // Always true for sent messages
           attachments: data.message.attachments || [],
           hasEmoji: data.message.hasEmoji || false,
+          replyTo: data.message.replyTo,
+          reactions: data.message.reactions || [],
         };
         setMessages(prev => [...prev, message]);
       }
+    }));
+
+    onMessage('message_reaction', (data) => {
+      setMessages(prev => prev.map(message =>
+        message.id === data.messageId ? { ...message, reactions: data.reactions } : message
+      ));
     });
 
     onMessage('message_delivered', (data) => {
@@ -204,6 +331,9 @@ export default function TextChat() {
     onMessage('chat_ended', () => {
       setConnectionStatus('ended');
       setSession(null);
+      encryptionRef.current = null;
+      setFingerprint(null);
+      setReplyingTo(null);
       // Clear session storage
       sessionStorage.removeItem('currentSessionId');
       sessionStorage.removeItem('currentSessionType');
@@ -216,38 +346,80 @@ export default function TextChat() {
       offMessage('match_found');
       offMessage('message_received');
       offMessage('message_sent');
+      offMessage('message_reaction');
       offMessage('message_delivered');
       offMessage('partner_typing');
       offMessage('chat_ended');
       offMessage('session_recovered');
       offMessage('session_recovery_failed');
+      offMessage('message_history');
+      offMessage('partner_disconnected');
       offMessage('partner_reconnected');
+      offMessage('key_exchange');
       offMessage('gender_updated');
     };
   }, [isConnected, userId, sendMessage, onMessage, offMessage]);
 
+  // With encryption on, offer our key as soon as a chat starts; the partner's client answers with theirs
+  useEffect(() => {
+    if (!encryptionEnabled || !session || connectionStatus !== 'connected' || !isConnected) return;
+    if (encryptionRef.current?.sessionId === session.id) return; // already offered or answered
+    sendPublicKey(session.id).catch(error => console.error('Error starting encryption:', error));
+  }, [encryptionEnabled, session?.id, connectionStatus, isConnected]);
+
+  // Until the partner's key arrives, sending would have to fall back to plaintext
+  const isEncryptionPending = encryptionEnabled && connectionStatus === 'connected' && !fingerprint;
+
+  const toggleEncryption = () => {
+    const enabled = !encryptionEnabled;
+    setEncryptionEnabled(enabled);
+    localStorage.setItem('e2eEnabled', String(enabled));
+  };
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isStrangerTyping]);
 
-  const handleSendMessage = (content: string, attachments?: Attachment[]) => {
+  useEffect(() => {
+    const lastChatMessage = messages.filter(message => message.senderId !== 'system').pop();
+    lastMessageIdRef.current = lastChatMessage?.id ?? null;
+  }, [messages]);
+
+  const handleSendMessage = async (content: string, attachments?: Attachment[]) => {
     if ((!content.trim() && !attachments?.length) || !session) return;
 
     // Check if message contains emojis
     const hasEmoji = /[\u2600-\u27BF]|[\uD83C][\uDF00-\uDFFF]|[\uD83D][\uDC00-\uDE4F]|[\uD83D][\uDE80-\uDEFF]|[\uD83E][\uDD00-\uDDFF]/g.test(content);
 
+    // Once a key is agreed the text is encrypted here; attachments still go as server URLs
+    const encryption = encryptionRef.current;
+    const encrypted = !!content.trim() && encryption?.sessionId === session.id && encryption.isReady;
+    const replyTo = replyingTo?.id;
+    setReplyingTo(null);
+
     sendMessage({
       type: 'send_message',
       sessionId: session.id,
-      content: content.trim(),
+      content: encrypted ? await encryption!.encrypt(content.trim(), userId!) : content.trim(),
       attachments: attachments || [],
       hasEmoji,
+      encrypted,
+      replyTo,
     });
 
     setMessageInput('');
     handleStopTyping();
   };
 
+  const handleReact = (message: Message, emoji: string | null) => {
+    if (!session) return;
+    sendMessage({ type: 'message_reaction', sessionId: session.id, messageId: message.id, emoji });
+  };
+
+  // Replies quote a parent by id; it's shown only if this client still has it
+  const messagesById = new Map(messages.map(message => [message.id, message]));
+  const canInteract = (message: Message) => connectionStatus === 'connected' && message.senderId !== 'system';
+
 
 
   const handleInputChange = (value: string) => {
@@ -333,6 +505,8 @@ export default function TextChat() {
         chatType: 'text',
         interests,
         gender,
+        preferences: loadPartnerPreferences(),
+        profile: loadUserProfile(),
       });
     } else {
       // If no active session, just start looking for a new match
@@ -341,6 +515,8 @@ export default function TextChat() {
         chatType: 'text',
         interests,
         gender,
+        preferences: loadPartnerPreferences(),
+        profile: loadUserProfile(),
       });
     }
     
@@ -356,7 +532,8 @@ export default function TextChat() {
   };
 
   return (
-    <div className="w-full h-full flex flex-col animate-slide-in">
+    <div className="relative w-full h-full flex flex-col animate-slide-in">
+      {banInfo && <BannedNotice ban={banInfo} onLeave={() => setLocation('/')} />}
       <div className="flex-1 flex flex-col bg-gradient-to-br from-card to-card/50 backdrop-blur-sm border-0 overflow-hidden">
         {/* Chat Header - Modern Design */}
         <div className="flex-shrink-0 border-b border-border/50 p-4 sm:p-6 bg-gradient-to-r from-primary/5 via-secondary/5 to-accent/5 backdrop-blur-sm">
@@ -413,6 +590,27 @@ export default function TextChat() {
                 onGenderChange={handleGenderChange}
                 disabled={connectionStatus === 'ended'}
               />
+              {fingerprint ? (
+                <div
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-green-500/10 text-green-600 dark:text-green-400 border border-green-500/20 rounded-xl text-xs font-mono"
+                  title="End-to-end encrypted. Your partner should see the same code."
+                  data-testid="encryption-fingerprint"
+                >
+                  <Lock className="h-3.5 w-3.5" />
+                  {fingerprint}
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={toggleEncryption}
+                  className={`rounded-xl ${encryptionEnabled ? 'border-green-500/40 text-green-600 dark:text-green-400' : ''}`}
+                  title={encryptionEnabled ? 'Encryption on: waiting for your partner\'s key' : 'Encrypt your chats end to end'}
+                  data-testid="button-toggle-encryption"
+                >
+                  {encryptionEnabled ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -514,7 +712,13 @@ export default function TextChat() {
               )}
               
               <div className={`flex-1 max-w-[85%] sm:max-w-[75%] ${message.isOwn ? 'flex flex-col items-end' : ''}`}>
-                <EnhancedMessage message={message} />
+                <EnhancedMessage
+                  message={message}
+                  currentUserId={userId}
+                  replyToMessage={message.replyTo ? messagesById.get(message.replyTo) : undefined}
+                  onReact={canInteract(message) ? emoji => handleReact(message, emoji) : undefined}
+                  onReply={canInteract(message) ? () => setReplyingTo(message) : undefined}
+                />
                 <p className="text-xs text-muted-foreground mt-1.5 mx-2 font-medium" data-testid="message-time">
                   {formatTime(message.timestamp)}
                 </p>
@@ -555,8 +759,11 @@ export default function TextChat() {
             value={messageInput}
             onChange={setMessageInput}
             onSend={handleSendMessage}
-            disabled={connectionStatus !== 'connected'}
-            placeholder="Type your message..."
+            sessionId={session?.id}
+            replyingTo={replyingTo}
+            onCancelReply={() => setReplyingTo(null)}
+            disabled={connectionStatus !== 'connected' || isEncryptionPending}
+            placeholder={isEncryptionPending ? 'Setting up encryption...' : 'Type your message...'}
           />
         </div>
       </div>
@@ -13,7 +13,12 @@ import { QuickGenderSelector } from '@/components/quick-gender-selector';
 import EnhancedMessageInput from '@/components/enhanced-message-input';
 import EnhancedMessage from '@/components/enhanced-message';
 import StableCamera from '@/components/stable-camera';
-import type { ChatSession, Message, Attachment } from '@/types/chat';
+import { BannedNotice } from '@/components/banned-notice';
+import { loadPartnerPreferences, loadUserProfile } from '@/lib/partner-preferences';
+import type { FileTransfer } from '@/lib/peer-channel';
+import type { ChatSession, Message, Attachment, WebSocketMessage } from '@/types/chat';
+import { attachmentKind, type MessageReaction } from '@shared/protocol';
+import type { ConnectionType } from '@/lib/websocket-fallback';
 
 // Enhanced error types for video chat
 interface VideoChatError {
@@ -25,11 +30,45 @@ interface VideoChatError {
   retryCount?: number;
 }
 
+// Chat entry for a file going to or from the partner over the data channel;
+// `url` is the received (or sent) file once the transfer has completed
+function transferMessage(transfer: FileTransfer, senderId: string, timestamp: Date, url?: string): Message {
+  return {
+    id: `transfer-${transfer.id}`,
+    content: '',
+    senderId,
+    timestamp,
+    isOwn: transfer.direction === 'outgoing',
+    viaPeer: true,
+    transfer: {
+      id: transfer.id,
+      filename: transfer.filename,
+      size: transfer.size,
+      transferred: transfer.transferred,
+      status: transfer.status,
+    },
+    attachments: url ? [{
+      id: transfer.id,
+      type: attachmentKind(transfer.file?.type || transfer.mimeType),
+      url,
+      filename: transfer.filename,
+      size: transfer.size,
+      mimeType: transfer.mimeType,
+    }] : [],
+  };
+}
+
+// Reactions on peer-to-peer messages are kept here the way the server keeps them: one per user
+function withReaction(reactions: MessageReaction[] | undefined, userId: string, emoji: string | null): MessageReaction[] {
+  const others = (reactions ?? []).filter(reaction => reaction.userId !== userId);
+  return emoji ? [...others, { userId, emoji }] : others;
+}
+
 interface ConnectionDiagnostics {
   websocket: {
     connected: boolean;
     quality: 'good' | 'poor' | 'unknown';
-    type: 'websocket' | 'polling';
+    type: ConnectionType;
     reconnectAttempts: number;
     lastHeartbeat: Date | null;
   };
@@ -56,6 +95,8 @@ export default function VideoChat() {
   const [connectionStatus, setConnectionStatus] = useState<'waiting' | 'connected' | 'ended'>('waiting');
   const [textMessage, setTextMessage] = useState('');
   const [textMessages, setTextMessages] = useState<Message[]>([]);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [isStrangerTyping, setIsStrangerTyping] = useState(false);
   const [sharedInterests, setSharedInterests] = useState<string[]>([]);
   const [userGender, setUserGender] = useState<'male' | 'female' | 'other' | null>(() => {
     return localStorage.getItem('gender') as 'male' | 'female' | 'other' | null || null;
@@ -106,6 +147,9 @@ export default function VideoChat() {
   const localVideoDesktopRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const typingTimeoutRef = useRef<NodeJS.Timeout>();
+  const isTypingRef = useRef(false);
+  const transferUrlsRef = useRef<string[]>([]); // blob: URLs of files sent peer to peer
   
   // Enhanced error tracking and recovery refs
   const errorRecoveryTimeoutRef = useRef<NodeJS.Timeout>();
@@ -126,6 +170,7 @@ export default function VideoChat() {
     connectionError: wsConnectionError,
     isConnecting: wsIsConnecting,
     connectionMetrics,
+    banInfo,
     sendMessage, 
     onMessage, 
     offMessage,
@@ -193,7 +238,9 @@ export default function VideoChat() {
     sendIceCandidate,
     checkPermissions,
     requestPermissions,
-    peerConnection
+    peerConnection,
+    peerChannel,
+    isPeerChannelOpen
   } = useWebRTC(useCallback((stream: MediaStream) => {
     // Remote stream callback - now handled by StableCamera component
     logger.videoChatInfo('webrtc', 'Remote stream received');
@@ -608,11 +655,13 @@ export default function VideoChat() {
       // Start finding match immediately (before camera initialization)
       const interests = JSON.parse(localStorage.getItem('interests') || '[]');
       const gender = userGender || localStorage.getItem('gender') as 'male' | 'female' | 'other' | null;
-      const findMatchMessage = {
+      const findMatchMessage: WebSocketMessage = {
         type: 'find_match',
         chatType: 'video',
         interests,
         gender,
+        preferences: loadPartnerPreferences(),
+        profile: loadUserProfile(),
       };
       
       // Looking for video chat match
@@ -1212,9 +1261,22 @@ export default function VideoChat() {
         chatType: 'video',
         interests,
         gender,
+        preferences: loadPartnerPreferences(),
+        profile: loadUserProfile(),
       });
       });
 
+      onMessage('partner_disconnected', (data: any) => {
+      const disconnectMsg: Message = {
+        id: `disconnect-${Date.now()}`,
+        content: `⚠️ Your partner lost their connection. Waiting up to ${data.graceSeconds}s for them to come back...`,
+        senderId: 'system',
+        timestamp: new Date(),
+        isOwn: false,
+      };
+      setTextMessages(prev => [...prev, disconnectMsg]);
+      });
+
       onMessage('partner_reconnected', () => {
       const reconnectMsg: Message = {
         id: `reconnect-${Date.now()}`,
@@ -1238,7 +1300,10 @@ export default function VideoChat() {
           isOwn: false, // Always false for received messages
           attachments: data.message.attachments || [],
           hasEmoji: data.message.hasEmoji || false,
+          replyTo: data.message.replyTo,
+          reactions: data.message.reactions || [],
         };
+        setIsStrangerTyping(false);
         setTextMessages(prev => [...prev, message]);
       } else {
       }
@@ -1256,20 +1321,26 @@ export default function VideoChat() {
           isOwn: true, // Always true for sent messages
           attachments: data.message.attachments || [],
           hasEmoji: data.message.hasEmoji || false,
+          replyTo: data.message.replyTo,
+          reactions: data.message.reactions || [],
         };
         setTextMessages(prev => [...prev, message]);
       } else {
       }
       });
       
+      onMessage('message_reaction', (data) => {
+        setTextMessages(prev => prev.map(message =>
+          message.id === data.messageId ? { ...message, reactions: data.reactions } : message
+        ));
+      });
+
       onMessage('message_delivered', (data: any) => {
         // Handle message delivery confirmation silently
       });
 
       onMessage('partner_typing', (data: any) => {
-        // Handle typing indicator for video chat text messages
-        // This could be used to show typing indicator in text chat area
-        console.log('Partner typing:', data.isTyping);
+        setIsStrangerTyping(data.isTyping);
       });
       
       onMessage('gender_updated', (data: any) => {
@@ -1289,9 +1360,11 @@ export default function VideoChat() {
       offMessage('chat_ended');
       offMessage('session_recovered');
       offMessage('session_recovery_failed');
+      offMessage('partner_disconnected');
       offMessage('partner_reconnected');
         offMessage('message_received');
         offMessage('message_sent');
+        offMessage('message_reaction');
         offMessage('message_delivered');
         offMessage('partner_typing');
       offMessage('gender_updated');
@@ -1314,10 +1387,79 @@ export default function VideoChat() {
 
   // ICE candidate handler removed - using the one above with sendIceCandidate function
 
+  // Chat, typing and files that come straight from the partner over the data channel
+  useEffect(() => {
+    if (!peerChannel) return;
+    const partnerId = session?.partnerId || 'partner';
+
+    const unsubscribeMessages = peerChannel.onMessage(message => {
+      if (message.type === 'typing') {
+        setIsStrangerTyping(message.isTyping);
+        return;
+      }
+      if (message.type === 'reaction') {
+        // Only on messages that went peer to peer; the server owns reactions on the rest
+        setTextMessages(prev => prev.map(existing =>
+          existing.id === message.messageId && existing.viaPeer
+            ? { ...existing, reactions: withReaction(existing.reactions, partnerId, message.emoji) }
+            : existing
+        ));
+        return;
+      }
+      setIsStrangerTyping(false);
+      setTextMessages(prev => [...prev, {
+        id: message.id,
+        content: message.content,
+        senderId: partnerId,
+        timestamp: new Date(), // the partner's clock isn't ours to trust
+        isOwn: false,
+        hasEmoji: message.hasEmoji || false,
+        replyTo: message.replyTo,
+        viaPeer: true,
+      }]);
+    });
+
+    const unsubscribeTransfers = peerChannel.onTransfer(transfer => {
+      let url: string | undefined;
+      if (transfer.status === 'complete' && transfer.file) {
+        url = URL.createObjectURL(transfer.file);
+        transferUrlsRef.current.push(url);
+      }
+      const senderId = transfer.direction === 'outgoing' ? (userId || 'self') : partnerId;
+      setTextMessages(prev => {
+        const index = prev.findIndex(message => message.id === `transfer-${transfer.id}`);
+        if (index === -1) {
+          return [...prev, transferMessage(transfer, senderId, new Date(), url)];
+        }
+        const next = [...prev];
+        next[index] = transferMessage(transfer, senderId, prev[index].timestamp, url);
+        return next;
+      });
+    });
+
+    return () => {
+      unsubscribeMessages();
+      unsubscribeTransfers();
+    };
+  }, [peerChannel, session?.partnerId, userId]);
+
+  // A reply in progress belongs to the chat it was started in
+  useEffect(() => {
+    setReplyingTo(null);
+  }, [session?.id]);
+
+  // Files sent peer to peer only stay around for the chat they were sent in
+  useEffect(() => {
+    const urls = transferUrlsRef.current;
+    return () => {
+      urls.splice(0).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [session?.id]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [textMessages]);
+  }, [textMessages, isStrangerTyping]);
 
   // Auto-hide control bar functionality
   useEffect(() => {
@@ -1517,6 +1659,8 @@ export default function VideoChat() {
         chatType: 'video',
         gender,
         interests,
+        preferences: loadPartnerPreferences(),
+        profile: loadUserProfile(),
       });
       
       // Also send find_match after a delay
@@ -1526,15 +1670,19 @@ export default function VideoChat() {
           chatType: 'video',
           interests,
           gender,
+          preferences: loadPartnerPreferences(),
+          profile: loadUserProfile(),
         });
       }, 1000);
     } else {
       // If no active session, just start looking for a new match
-      const findMatchMessage = {
+      const findMatchMessage: WebSocketMessage = {
         type: 'find_match',
         chatType: 'video',
         interests,
         gender,
+        preferences: loadPartnerPreferences(),
+        profile: loadUserProfile(),
       };
       
       // Add a longer delay to ensure proper cleanup
@@ -1550,16 +1698,94 @@ export default function VideoChat() {
     // Check if message contains emojis
     const hasEmoji = /[\u2600-\u27BF]|[\uD83C][\uDF00-\uDFFF]|[\uD83D][\uDC00-\uDE4F]|[\uD83D][\uDE80-\uDEFF]|[\uD83E][\uDD00-\uDDFF]/g.test(content);
 
-    // Send message to server - the server will send back a message_sent event
+    handleStopTyping();
+    const parent = replyingTo;
+    setReplyingTo(null);
+
+    // Straight to the partner while the call's data channel is open. Files
+    // uploaded before it opened are server URLs and still go through the server
+    if (peerChannel && isPeerChannelOpen && !attachments?.length) {
+      const message: Message = {
+        id: crypto.randomUUID(),
+        content: content.trim(),
+        senderId: userId || 'self',
+        timestamp: new Date(),
+        isOwn: true,
+        hasEmoji,
+        replyTo: parent?.id,
+        viaPeer: true,
+      };
+      if (peerChannel.send({ type: 'chat', id: message.id, content: message.content, timestamp: message.timestamp.getTime(), hasEmoji, replyTo: parent?.id })) {
+        setTextMessages(prev => [...prev, message]);
+        return;
+      }
+    }
+
+    // Send message to server - the server will send back a message_sent event.
+    // It only knows messages it relayed, so a quote of a peer-to-peer one is dropped
     sendMessage({
       type: 'send_message',
       sessionId: session.id,
       content: content.trim(),
       attachments: attachments || [],
       hasEmoji,
+      replyTo: parent?.viaPeer ? undefined : parent?.id,
     });
   };
 
+  const canReply = (message: Message) => connectionStatus === 'connected' && message.senderId !== 'system';
+  const canReact = (message: Message) => canReply(message) && (!message.viaPeer || isPeerChannelOpen);
+
+  // Reactions travel the way their message did
+  const handleReact = (message: Message, emoji: string | null) => {
+    if (!session) return;
+    if (!message.viaPeer) {
+      sendMessage({ type: 'message_reaction', sessionId: session.id, messageId: message.id, emoji });
+      return;
+    }
+    if (peerChannel && isPeerChannelOpen && peerChannel.send({ type: 'reaction', messageId: message.id, emoji })) {
+      setTextMessages(prev => prev.map(existing =>
+        existing.id === message.id ? { ...existing, reactions: withReaction(existing.reactions, userId || 'self', emoji) } : existing
+      ));
+    }
+  };
+
+  const sendTyping = (isTyping: boolean) => {
+    if (!session) return;
+    if (peerChannel && isPeerChannelOpen && peerChannel.send({ type: 'typing', isTyping })) return;
+    sendMessage({ type: 'typing', sessionId: session.id, isTyping });
+  };
+
+  const handleTextChange = (value: string) => {
+    setTextMessage(value);
+    if (!session) return;
+
+    if (!isTypingRef.current) {
+      isTypingRef.current = true;
+      sendTyping(true);
+    }
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    typingTimeoutRef.current = setTimeout(handleStopTyping, 1000);
+  };
+
+  const handleStopTyping = () => {
+    if (isTypingRef.current) {
+      isTypingRef.current = false;
+      sendTyping(false);
+    }
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+  };
+
+  // While the data channel is open files go to the partner directly instead of being uploaded
+  const handleFileSelect = (file: File): boolean => {
+    if (!peerChannel || !isPeerChannelOpen) return false;
+    return peerChannel.sendFile(file) !== null;
+  };
+
 
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
@@ -1617,7 +1843,8 @@ export default function VideoChat() {
   };
 
   return (
-    <div className="h-full bg-gradient-to-br from-background via-background to-primary/5 flex flex-col animate-fade-in">
+    <div className="relative h-full bg-gradient-to-br from-background via-background to-primary/5 flex flex-col animate-fade-in">
+      {banInfo && <BannedNotice ban={banInfo} onLeave={() => setLocation('/')} />}
       {/* Main Content */}
       <div className="flex flex-col lg:flex-row h-full min-h-0">
         {/* Remote Video Section */}
@@ -1935,9 +2162,23 @@ export default function VideoChat() {
                     <div key={message.id} className="animate-slide-in" style={{ animationDelay: `${index * 50}ms` }}>
                       <EnhancedMessage
                         message={message}
+                        onCancelTransfer={transferId => peerChannel?.cancel(transferId)}
+                        currentUserId={userId || 'self'}
+                        replyToMessage={message.replyTo ? textMessages.find(parent => parent.id === message.replyTo) : undefined}
+                        onReact={canReact(message) ? emoji => handleReact(message, emoji) : undefined}
+                        onReply={canReply(message) ? () => setReplyingTo(message) : undefined}
                       />
                     </div>
                   ))}
+                  {isStrangerTyping && (
+                    <div className="flex justify-start" data-testid="typing-indicator">
+                      <div className="bg-card/80 backdrop-blur-sm border border-border/50 rounded-2xl rounded-tl-sm px-4 py-2.5 flex items-center gap-1.5 shadow-md">
+                        <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                        <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                        <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                      </div>
+                    </div>
+                  )}
                   <div ref={messagesEndRef} />
                 </div>
               )}
@@ -1947,8 +2188,12 @@ export default function VideoChat() {
             <div className="flex-shrink-0">
               <EnhancedMessageInput
                 value={textMessage}
-                onChange={setTextMessage}
+                onChange={handleTextChange}
                 onSend={handleSendTextMessage}
+                sessionId={session?.id}
+                onFileSelect={handleFileSelect}
+                replyingTo={replyingTo}
+                onCancelReply={() => setReplyingTo(null)}
                 disabled={connectionStatus !== 'connected'}
                 placeholder={connectionStatus === 'connected' ? "Type a message..." : "Connect to chat..."}
               />
@@ -1,7 +1,10 @@
+import type { ClientMessage, MessageReaction } from '@shared/protocol';
+
 export interface Attachment {
   id: string;
   type: 'image' | 'video' | 'audio' | 'file';
-  url: string;
+  url: string; // /api/attachments/<id>; render through AttachmentImage/AttachmentVideo or attachmentSrc()
+  thumbnailUrl?: string; // small JPEG preview, for images when the server could make one
   filename: string;
   size: number;
   mimeType: string;
@@ -15,6 +18,20 @@ export interface Message {
   isOwn?: boolean;
   attachments?: Attachment[];
   hasEmoji?: boolean;
+  replyTo?: string | null; // id of the quoted message
+  reactions?: MessageReaction[];
+  viaPeer?: boolean; // sent over the video call's data channel, so unknown to the server
+  transfer?: PeerFileTransfer; // file sent over the video call's data channel
+}
+
+// Progress of a file going to or from the partner peer to peer; once complete
+// the file shows up in `attachments` as a blob: URL
+export interface PeerFileTransfer {
+  id: string;
+  filename: string;
+  size: number;
+  transferred: number;
+  status: 'active' | 'complete' | 'cancelled';
 }
 
 export interface ChatSession {
@@ -61,13 +78,62 @@ export interface ChatFeedback {
 
 export interface UserReport {
   sessionId: string;
+  reporterId?: string | null;
   reason: string;
   description: string;
 }
 
-export type ChatView = 'landing' | 'text-chat' | 'video-chat';
+export interface ModerationReport {
+  id: string;
+  sessionId: string;
+  reporterId: string | null;
+  reportedUserId: string | null;
+  reason: string;
+  description: string | null;
+  evidence: Array<{ id: string; senderId: string; content: string; encrypted?: boolean | null; timestamp: string }>;
+  status: 'pending' | 'resolved' | 'dismissed';
+  resolution: string | null;
+  resolvedBy: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
 
-export interface WebSocketMessage {
-  type: string;
-  [key: string]: any;
+export interface BanRecord {
+  id: string;
+  scope: 'ip' | 'ip_prefix' | 'device';
+  value: string;
+  reason: string;
+  reportId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
+export type TrustLevel = 'none' | 'warning' | 'low_trust' | 'banned';
+
+export interface StrikeRecord {
+  id: string;
+  subjectType: 'user' | 'ip';
+  subjectValue: string;
+  source: 'moderation' | 'validation' | 'report';
+  detail: string | null;
+  strikeCount: number;
+  previousLevel: TrustLevel;
+  level: TrustLevel;
+  banId: string | null;
+  createdAt: string;
 }
+
+export interface BanNotice {
+  banId: string;
+  reason: string;
+  scope: string;
+  expiresAt: string | null;
+  remainingSeconds: number | null;
+}
+
+export type ChatView = 'landing' | 'text-chat' | 'video-chat';
+
+// Frames sent to the server; the protocol itself lives in shared/protocol.ts
+export type WebSocketMessage = ClientMessage;
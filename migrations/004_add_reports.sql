@@ -0,0 +1,23 @@
+-- Add reports table for the moderation queue
+-- Migration 004: Persist user reports
+
+CREATE TABLE IF NOT EXISTS reports (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id VARCHAR NOT NULL,
+    reporter_id VARCHAR,
+    reported_user_id VARCHAR,
+    reason TEXT NOT NULL,
+    description TEXT DEFAULT '',
+    evidence JSON DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'pending',
+    resolution TEXT,
+    resolved_by VARCHAR,
+    created_at TIMESTAMP DEFAULT NOW(),
+    resolved_at TIMESTAMP
+);
+
+COMMENT ON COLUMN reports.evidence IS 'Snapshot of the last messages of the session at report time';
+
+-- Moderators work the queue oldest-first, filtered by status
+CREATE INDEX IF NOT EXISTS idx_reports_status_created_at ON reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_reports_reported_user_id ON reports(reported_user_id);
@@ -0,0 +1,20 @@
+-- Add bans table for moderator-issued bans
+-- Migration 005: Ban records
+
+CREATE TABLE IF NOT EXISTS bans (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    scope TEXT NOT NULL,
+    value TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    report_id VARCHAR,
+    created_by VARCHAR,
+    created_at TIMESTAMP DEFAULT NOW(),
+    expires_at TIMESTAMP,
+    revoked_at TIMESTAMP
+);
+
+COMMENT ON COLUMN bans.scope IS 'What the ban matches on: ip, ip_prefix or device';
+COMMENT ON COLUMN bans.expires_at IS 'NULL for permanent bans';
+
+CREATE INDEX IF NOT EXISTS idx_bans_scope_value ON bans(scope, value);
+CREATE INDEX IF NOT EXISTS idx_bans_expires_at ON bans(expires_at);
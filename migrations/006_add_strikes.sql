@@ -0,0 +1,21 @@
+-- Add strikes table for automatic escalation of repeat offenders
+-- Migration 006: Strike history
+
+CREATE TABLE IF NOT EXISTS strikes (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    subject_type TEXT NOT NULL,
+    subject_value TEXT NOT NULL,
+    source TEXT NOT NULL,
+    detail TEXT,
+    strike_count INTEGER NOT NULL,
+    previous_level TEXT NOT NULL,
+    level TEXT NOT NULL,
+    ban_id VARCHAR,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+COMMENT ON COLUMN strikes.subject_type IS 'What the strike counts against: user (device or user id) or ip';
+COMMENT ON COLUMN strikes.level IS 'Escalation level after this strike: none, warning, low_trust or banned';
+
+CREATE INDEX IF NOT EXISTS idx_strikes_subject ON strikes(subject_type, subject_value);
+CREATE INDEX IF NOT EXISTS idx_strikes_created_at ON strikes(created_at);
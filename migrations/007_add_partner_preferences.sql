@@ -0,0 +1,8 @@
+-- Add partner preferences and queue entry time to online_users
+-- Migration 007: Partner preference filters
+
+ALTER TABLE online_users ADD COLUMN IF NOT EXISTS preferences JSON DEFAULT '{}';
+ALTER TABLE online_users ADD COLUMN IF NOT EXISTS waiting_since TIMESTAMP;
+
+COMMENT ON COLUMN online_users.preferences IS 'Partner filters: desired genders, languages and region';
+COMMENT ON COLUMN online_users.waiting_since IS 'When the user last entered the matchmaking queue; preferences relax after waiting long enough';
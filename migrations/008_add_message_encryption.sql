@@ -0,0 +1,6 @@
+-- Mark end-to-end encrypted messages
+-- Migration 008: E2E encrypted text chat
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS encrypted BOOLEAN DEFAULT FALSE;
+
+COMMENT ON COLUMN messages.encrypted IS 'Content is AES-GCM ciphertext encrypted by the clients; the server cannot read or moderate it';
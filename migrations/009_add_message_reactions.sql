@@ -0,0 +1,8 @@
+-- Add replies and emoji reactions to messages
+-- Migration 009: Message reactions and replies
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reply_to VARCHAR;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reactions JSON DEFAULT '[]';
+
+COMMENT ON COLUMN messages.reply_to IS 'Id of the message this one quotes, from the same session';
+COMMENT ON COLUMN messages.reactions IS 'Emoji reactions as [{userId, emoji}], at most one per user';
@@ -0,0 +1,5 @@
+-- Index reports by session and reporter
+-- Migration 010: Duplicate report lookup
+
+-- POST /api/report checks whether the reporter already reported the session
+CREATE INDEX IF NOT EXISTS idx_reports_session_reporter ON reports(session_id, reporter_id);
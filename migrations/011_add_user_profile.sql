@@ -0,0 +1,6 @@
+-- Add the user's own languages and region to online_users
+-- Migration 011: Profile matched against partner preferences
+
+ALTER TABLE online_users ADD COLUMN IF NOT EXISTS profile JSON DEFAULT '{}';
+
+COMMENT ON COLUMN online_users.profile IS 'Languages the user speaks and their region, checked against partners'' preferences';
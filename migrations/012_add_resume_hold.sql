@@ -0,0 +1,6 @@
+-- Add the resume window end to online_users
+-- Migration 012: Resume holds that outlive the instance that set them
+
+ALTER TABLE online_users ADD COLUMN IF NOT EXISTS held_until TIMESTAMP;
+
+COMMENT ON COLUMN online_users.held_until IS 'When a disconnected user''s resume window ends; any instance removes them after that';
@@ -0,0 +1,6 @@
+-- Add the client's device id to online_users
+-- Migration 013: Trust pool checks for users connected to other instances
+
+ALTER TABLE online_users ADD COLUMN IF NOT EXISTS device_id VARCHAR;
+
+COMMENT ON COLUMN online_users.device_id IS 'Device id sent on join; strikes are counted against it before the user id';
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { processAttachment } from './attachment-processing';
+
+// An ftyp box with the given brands, followed by some box data
+function isoMedia(majorBrand: string, compatibleBrands: string[]): Buffer {
+  const ftyp = Buffer.alloc(16 + compatibleBrands.length * 4);
+  ftyp.writeUInt32BE(ftyp.length, 0);
+  ftyp.write('ftyp', 4, 'latin1');
+  ftyp.write(majorBrand, 8, 'latin1');
+  compatibleBrands.forEach((brand, i) => ftyp.write(brand, 16 + i * 4, 'latin1'));
+  const meta = Buffer.from('\0\0\0\x18metaExif\0\0GPS 51.5N 0.1W', 'latin1');
+  return Buffer.concat([ftyp, meta]);
+}
+
+// A JPEG marker segment: marker, length, payload
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xff00 | marker, 0);
+  header.writeUInt16BE(2 + payload.length, 2);
+  return Buffer.concat([header, payload]);
+}
+
+const EXIF_WITH_GPS = Buffer.from('Exif\0\0MM\0\x2a\0\0\0\x08\0\0GPS 51.5N 0.1W', 'latin1');
+
+describe('processAttachment', () => {
+  it('drops JPEG metadata, including what follows the end of the image', async () => {
+    const scan = Buffer.from([0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56]); // a stuffed byte and a restart marker
+    const image = Buffer.concat([
+      Buffer.from([0xff, 0xd8]),
+      jpegSegment(0xe0, Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'latin1')),
+      jpegSegment(0xe1, EXIF_WITH_GPS),
+      jpegSegment(0xda, Buffer.from([0x01, 0x01, 0x00, 0x00, 0x3f, 0x00])),
+      scan,
+      Buffer.from([0xff, 0xd9]),
+    ]);
+    // An MPF preview after EOI, with its own EXIF block
+    const preview = Buffer.concat([Buffer.from([0xff, 0xd8]), jpegSegment(0xe1, EXIF_WITH_GPS), Buffer.from([0xff, 0xd9])]);
+
+    const processed = await processAttachment(Buffer.concat([image, preview]), 'image/jpeg');
+
+    assert.ok(processed.accepted);
+    assert.equal(processed.data.includes('GPS'), false);
+    assert.ok(processed.data.includes(scan));
+    assert.ok(processed.data.subarray(-2).equals(Buffer.from([0xff, 0xd9])));
+  });
+
+  it('does not take a HEIC photo for an MP4 video', async () => {
+    const heic = isoMedia('heic', ['mif1', 'heic']);
+
+    const processed = await processAttachment(heic, 'application/octet-stream');
+
+    // Not a decodable image, so it can't be re-encoded without its metadata
+    assert.equal(processed.accepted, false);
+  });
+
+  it('refuses a HEIC photo claimed to be a video', async () => {
+    const processed = await processAttachment(isoMedia('heic', ['mif1']), 'video/mp4');
+
+    assert.deepEqual(processed, { accepted: false, reason: 'File content is image/heic, not video/mp4' });
+  });
+
+  it('accepts MP4 videos by their brand', async () => {
+    const processed = await processAttachment(isoMedia('isom', ['isom', 'iso2', 'mp41']), 'application/octet-stream');
+
+    assert.equal(processed.accepted && processed.mimeType, 'video/mp4');
+  });
+
+  it('refuses ISO media with an unknown brand', async () => {
+    const processed = await processAttachment(isoMedia('crx ', ['crx ']), 'application/octet-stream');
+
+    assert.equal(processed.accepted, false);
+  });
+});
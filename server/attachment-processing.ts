@@ -0,0 +1,393 @@
+import type Sharp from 'sharp';
+import { log } from './vite';
+
+// Longest edge of generated thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+
+export interface ProcessedAttachment {
+  accepted: true;
+  data: Buffer; // what gets stored: the upload with its metadata stripped
+  mimeType: string; // the type the content actually is, not what the browser said
+  thumbnail?: Buffer; // JPEG preview for images, when sharp is installed
+}
+
+export interface RejectedAttachment {
+  accepted: false;
+  reason: string;
+}
+
+interface Signature {
+  mimeType: string;
+  matches(data: Buffer): boolean;
+}
+
+function hasBytes(data: Buffer, offset: number, bytes: number[]): boolean {
+  return data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+function hasAscii(data: Buffer, offset: number, text: string): boolean {
+  return data.length >= offset + text.length && data.toString('latin1', offset, offset + text.length) === text;
+}
+
+// Major and compatible brands from the ftyp box that opens an ISO media file
+function isoBrands(data: Buffer): string[] {
+  if (!hasAscii(data, 4, 'ftyp') || data.length < 16) return [];
+  const end = Math.min(data.readUInt32BE(0), data.length);
+  const brands = [data.toString('latin1', 8, 12)];
+  for (let at = 16; at + 4 <= end; at += 4) brands.push(data.toString('latin1', at, at + 4));
+  return brands;
+}
+
+function hasIsoBrand(data: Buffer, brands: Set<string>): boolean {
+  return isoBrands(data).some(brand => brands.has(brand));
+}
+
+// HEIF photos share MP4's container; AVIF lists mif1 too, so it is checked first
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+const HEIC_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1']);
+const MP4_BRANDS = new Set(['isom', 'iso2', 'iso3', 'iso4', 'iso5', 'iso6', 'mp41', 'mp42', 'avc1', 'dash', 'M4V ', 'M4VP', 'mmp4']);
+
+// Magic bytes of every type we accept; the first match wins
+const SIGNATURES: Signature[] = [
+  { mimeType: 'image/jpeg', matches: data => hasBytes(data, 0, [0xff, 0xd8, 0xff]) },
+  { mimeType: 'image/png', matches: data => hasBytes(data, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { mimeType: 'image/gif', matches: data => hasAscii(data, 0, 'GIF87a') || hasAscii(data, 0, 'GIF89a') },
+  { mimeType: 'image/webp', matches: data => hasAscii(data, 0, 'RIFF') && hasAscii(data, 8, 'WEBP') },
+  { mimeType: 'audio/wav', matches: data => hasAscii(data, 0, 'RIFF') && hasAscii(data, 8, 'WAVE') },
+  { mimeType: 'image/avif', matches: data => hasIsoBrand(data, AVIF_BRANDS) },
+  { mimeType: 'image/heic', matches: data => hasIsoBrand(data, HEIC_BRANDS) },
+  { mimeType: 'video/quicktime', matches: data => hasAscii(data, 4, 'ftypqt  ') },
+  { mimeType: 'audio/mp4', matches: data => hasAscii(data, 4, 'ftypM4A ') || hasAscii(data, 4, 'ftypM4B ') },
+  { mimeType: 'video/mp4', matches: data => hasIsoBrand(data, MP4_BRANDS) },
+  { mimeType: 'video/webm', matches: data => hasBytes(data, 0, [0x1a, 0x45, 0xdf, 0xa3]) },
+  { mimeType: 'audio/ogg', matches: data => hasAscii(data, 0, 'OggS') },
+  { mimeType: 'audio/flac', matches: data => hasAscii(data, 0, 'fLaC') },
+  { mimeType: 'audio/mpeg', matches: data => hasAscii(data, 0, 'ID3') || (data.length > 1 && data[0] === 0xff && (data[1] & 0xe0) === 0xe0) },
+  { mimeType: 'application/pdf', matches: data => hasAscii(data, 0, '%PDF-') },
+];
+
+// Programs and scripts are refused whatever they claim to be
+const EXECUTABLE_SIGNATURES: Signature[] = [
+  { mimeType: 'application/x-msdownload', matches: data => hasAscii(data, 0, 'MZ') },
+  { mimeType: 'application/x-elf', matches: data => hasBytes(data, 0, [0x7f, 0x45, 0x4c, 0x46]) },
+  {
+    mimeType: 'application/x-mach-binary',
+    matches: data => [
+      [0xfe, 0xed, 0xfa, 0xce], [0xfe, 0xed, 0xfa, 0xcf],
+      [0xce, 0xfa, 0xed, 0xfe], [0xcf, 0xfa, 0xed, 0xfe],
+      [0xca, 0xfe, 0xba, 0xbe],
+    ].some(magic => hasBytes(data, 0, magic)),
+  },
+  { mimeType: 'application/x-dex', matches: data => hasAscii(data, 0, 'dex\n') },
+  { mimeType: 'text/x-shellscript', matches: data => hasAscii(data, 0, '#!') },
+];
+
+// Names browsers use for the same format
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/heif': 'image/heic',
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/vnd.wave': 'audio/wav',
+  'audio/x-flac': 'audio/flac',
+  'audio/x-m4a': 'audio/mp4',
+  'video/x-m4v': 'video/mp4',
+};
+
+// Images whose metadata lives in boxes we don't walk; they are stored re-encoded as JPEG
+const REENCODED_IMAGE_TYPES = new Set(['image/heic', 'image/avif']);
+
+// Containers whose magic bytes can't tell audio from video; the claimed type decides
+const CONTAINER_FAMILIES = [
+  ['video/mp4', 'audio/mp4', 'video/quicktime'],
+  ['video/webm', 'audio/webm'],
+  ['audio/ogg', 'video/ogg', 'application/ogg'],
+];
+
+function normalizeMimeType(mimeType: string): string {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] ?? base;
+}
+
+function sniffMimeType(data: Buffer): string | undefined {
+  return SIGNATURES.find(signature => signature.matches(data))?.mimeType;
+}
+
+// Valid UTF-8 with no NUL bytes in the first few KB
+function looksLikeText(data: Buffer): boolean {
+  const head = data.subarray(0, 8192);
+  if (head.includes(0)) return false;
+  try {
+    // Cutting at 8KB can split a character; only the whole file has to decode
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks an upload's bytes against the type the browser claimed and strips
+ * identifying metadata (EXIF, GPS, text chunks) from images. Returns the
+ * type to store it under, which comes from the content, not the claim.
+ */
+export async function processAttachment(data: Buffer, claimedMimeType: string): Promise<ProcessedAttachment | RejectedAttachment> {
+  const executable = EXECUTABLE_SIGNATURES.find(signature => signature.matches(data));
+  if (executable) {
+    return { accepted: false, reason: 'Executable files are not allowed' };
+  }
+
+  const claimed = normalizeMimeType(claimedMimeType);
+  const sniffed = sniffMimeType(data);
+
+  let mimeType: string;
+  if (sniffed) {
+    const family = CONTAINER_FAMILIES.find(types => types.includes(sniffed));
+    if (claimed === sniffed || claimed === 'application/octet-stream') {
+      mimeType = sniffed;
+    } else if (family?.includes(claimed)) {
+      mimeType = claimed;
+    } else {
+      return { accepted: false, reason: `File content is ${sniffed}, not ${claimed}` };
+    }
+  } else if (claimed.startsWith('text/') && looksLikeText(data)) {
+    // Always plain text, so an uploaded .html or .svg is never rendered as markup
+    mimeType = 'text/plain';
+  } else {
+    return { accepted: false, reason: 'Unsupported file type' };
+  }
+
+  if (REENCODED_IMAGE_TYPES.has(mimeType)) {
+    const reencoded = await reencodeAsJpeg(data);
+    if (!reencoded) {
+      return { accepted: false, reason: `Could not convert the ${mimeType} image to remove its metadata` };
+    }
+    data = reencoded;
+    mimeType = 'image/jpeg';
+  }
+
+  const stripped = stripImageMetadata(data, mimeType);
+  if (!stripped) {
+    return { accepted: false, reason: `Could not read the ${mimeType} image to remove its metadata` };
+  }
+  const thumbnail = mimeType.startsWith('image/') ? await createThumbnail(stripped) : undefined;
+  return { accepted: true, data: stripped, mimeType, thumbnail };
+}
+
+// Null when the image is too malformed to walk: stored as is, it could keep its location
+function stripImageMetadata(data: Buffer, mimeType: string): Buffer | null {
+  try {
+    switch (mimeType) {
+      case 'image/jpeg':
+        return stripJpegMetadata(data);
+      case 'image/png':
+        return stripPngMetadata(data);
+      case 'image/webp':
+        return stripWebpMetadata(data);
+      default:
+        return data;
+    }
+  } catch (error) {
+    log(`Could not strip ${mimeType} metadata, rejecting the upload: ${error}`, 'attachments');
+    return null;
+  }
+}
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+
+/**
+ * Drops EXIF, XMP, IPTC and comment segments from a JPEG, and everything
+ * after its end-of-image marker: MPF previews carry EXIF blocks of their own,
+ * and anything else appended there is never shown. The orientation tag is the
+ * one piece of EXIF worth keeping (without it, phone photos show up
+ * sideways), so it is written back in an EXIF block of its own.
+ */
+function stripJpegMetadata(data: Buffer): Buffer {
+  const kept: Buffer[] = [data.subarray(0, 2)]; // SOI
+  let orientation: number | undefined;
+  let offset = 2;
+
+  while (offset + 2 <= data.length) {
+    if (data[offset] !== 0xff) throw new Error(`Expected a marker at byte ${offset}`);
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    if (marker === 0xd9) {
+      kept.push(data.subarray(offset, offset + 2)); // EOI
+      break;
+    }
+    if (offset + 4 > data.length) throw new Error(`Truncated segment at byte ${offset}`);
+
+    const length = data.readUInt16BE(offset + 2);
+    const segment = data.subarray(offset, offset + 2 + length);
+    const payload = segment.subarray(4);
+    offset += 2 + length;
+
+    // Start of scan: image data follows the header, up to the next marker
+    if (marker === 0xda) {
+      const scanEnd = findScanEnd(data, offset);
+      kept.push(segment, data.subarray(offset, scanEnd));
+      offset = scanEnd;
+      continue;
+    }
+
+    const isExif = marker === 0xe1 && payload.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER);
+    const isXmp = marker === 0xe1 && payload.subarray(0, XMP_HEADER.length).equals(XMP_HEADER);
+    if (isExif) {
+      orientation ??= readExifOrientation(payload.subarray(EXIF_HEADER.length));
+      continue;
+    }
+    if (isXmp || marker === 0xed /* APP13: IPTC */ || marker === 0xfe /* comment */) continue;
+    kept.push(segment);
+  }
+
+  if (orientation && orientation !== 1) {
+    // After SOI and JFIF (APP0), where readers look for it
+    const at = kept.length > 1 && kept[1][1] === 0xe0 ? 2 : 1;
+    kept.splice(at, 0, orientationSegment(orientation));
+  }
+  return Buffer.concat(kept);
+}
+
+// In entropy-coded data 0xFF is followed by a stuffed zero or a restart marker;
+// any other marker ends the scan
+function findScanEnd(data: Buffer, offset: number): number {
+  let at = data.indexOf(0xff, offset);
+  while (at !== -1 && at + 1 < data.length) {
+    const next = data[at + 1];
+    const isRestart = next >= 0xd0 && next <= 0xd7;
+    if (next !== 0x00 && next !== 0xff && !isRestart) return at;
+    at = data.indexOf(0xff, at + 1);
+  }
+  return data.length;
+}
+
+// The Orientation tag (0x0112) from IFD0 of a TIFF-structured EXIF block
+function readExifOrientation(tiff: Buffer): number | undefined {
+  if (tiff.length < 8) return undefined;
+  const littleEndian = tiff.toString('latin1', 0, 2) === 'II';
+  const read16 = (at: number) => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const read32 = (at: number) => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+
+  const ifd = read32(4);
+  if (ifd + 2 > tiff.length) return undefined;
+  const entries = read16(ifd);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) return undefined;
+    if (read16(entry) === 0x0112) return read16(entry + 8);
+  }
+  return undefined;
+}
+
+// An APP1 EXIF segment holding only the Orientation tag
+function orientationSegment(orientation: number): Buffer {
+  const tiff = Buffer.alloc(26);
+  tiff.write('MM', 0, 'latin1');
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4); // IFD0 follows the header
+  tiff.writeUInt16BE(1, 8); // one entry
+  tiff.writeUInt16BE(0x0112, 10); // Orientation
+  tiff.writeUInt16BE(3, 12); // SHORT
+  tiff.writeUInt32BE(1, 14); // count
+  tiff.writeUInt16BE(orientation, 18);
+  // Bytes 20-25: value padding and a zero next-IFD offset
+
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xffe1, 0);
+  header.writeUInt16BE(2 + EXIF_HEADER.length + tiff.length, 2);
+  return Buffer.concat([header, EXIF_HEADER, tiff]);
+}
+
+// Text chunks carry authoring tools, comments and sometimes locations
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+function stripPngMetadata(data: Buffer): Buffer {
+  const kept: Buffer[] = [data.subarray(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const end = offset + 12 + length; // length, type, data, CRC
+    if (end > data.length) throw new Error(`Truncated ${type} chunk`);
+    if (!PNG_METADATA_CHUNKS.has(type)) kept.push(data.subarray(offset, end));
+    offset = end;
+  }
+  return Buffer.concat(kept);
+}
+
+// VP8X feature flags announcing the chunks we remove
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+function stripWebpMetadata(data: Buffer): Buffer {
+  const kept: Buffer[] = [];
+  let offset = 12; // RIFF header
+  while (offset + 8 <= data.length) {
+    const type = data.toString('latin1', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const end = Math.min(offset + 8 + size + (size % 2), data.length); // chunks are padded to even sizes
+    if (type === 'VP8X') {
+      const chunk = Buffer.from(data.subarray(offset, end));
+      chunk[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+      kept.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      kept.push(data.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const header = Buffer.from(data.subarray(0, 12));
+  const body = Buffer.concat(kept);
+  header.writeUInt32LE(4 + body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+let sharpLoader: Promise<typeof Sharp | null> | undefined;
+
+// sharp is an optional dependency; without it images are stored without thumbnails
+// and HEIC or AVIF uploads are refused
+function loadSharp(): Promise<typeof Sharp | null> {
+  if (!sharpLoader) {
+    sharpLoader = import('sharp').then(
+      module => module.default,
+      () => {
+        log('sharp is not installed; attachments will be stored without thumbnails', 'attachments');
+        return null;
+      }
+    );
+  }
+  return sharpLoader;
+}
+
+// A fresh JPEG carries none of the source's metadata; sharp drops it unless asked to keep it
+async function reencodeAsJpeg(image: Buffer): Promise<Buffer | undefined> {
+  const sharp = await loadSharp();
+  if (!sharp) return undefined;
+  try {
+    return await sharp(image).rotate().jpeg({ quality: 90 }).toBuffer();
+  } catch (error) {
+    log(`Could not re-encode image: ${error}`, 'attachments');
+    return undefined;
+  }
+}
+
+async function createThumbnail(image: Buffer): Promise<Buffer | undefined> {
+  const sharp = await loadSharp();
+  if (!sharp) return undefined;
+  try {
+    return await sharp(image)
+      .rotate() // apply the EXIF orientation kept by stripJpegMetadata
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+  } catch (error) {
+    log(`Could not create thumbnail: ${error}`, 'attachments');
+    return undefined;
+  }
+}
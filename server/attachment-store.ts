@@ -0,0 +1,192 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Readable } from 'stream';
+import { attachmentKind, type Attachment } from '@shared/protocol';
+import type { ChatSession } from '@shared/schema';
+
+// Largest file accepted by POST /api/attachments
+export const MAX_ATTACHMENT_BYTES = parseInt(process.env.MAX_ATTACHMENT_BYTES || String(10 * 1024 * 1024), 10);
+
+// How long files stay downloadable once their chat has ended
+const ATTACHMENT_RETENTION_MINUTES = parseInt(process.env.ATTACHMENT_RETENTION_MINUTES || '60', 10);
+// Upper bound for chats that never recorded an end
+const ATTACHMENT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredAttachment {
+  id: string;
+  sessionId: string;
+  uploaderId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  sha256: string; // content hash; files with the same content share one blob
+  createdAt: number;
+  thumbnail?: { sha256: string; size: number }; // JPEG preview of images, stored as a blob too
+}
+
+export type NewAttachment = Pick<StoredAttachment, 'sessionId' | 'uploaderId' | 'filename' | 'mimeType'>;
+
+// Inclusive byte range, as in a Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where uploaded chat attachments live. Files are addressed by content hash,
+ * so the same image sent twice is stored once; each upload still gets its
+ * own id tied to the session it was sent in.
+ */
+export interface AttachmentStore {
+  save(attachment: NewAttachment, data: Buffer, thumbnail?: Buffer): Promise<StoredAttachment>;
+  get(id: string): Promise<StoredAttachment | undefined>;
+  read(attachment: StoredAttachment, range?: ByteRange): Readable;
+  readThumbnail(attachment: StoredAttachment): Readable | undefined;
+  remove(id: string): Promise<void>;
+  list(): Promise<StoredAttachment[]>;
+}
+
+// Blobs under `blobs/<sha256>`, metadata under `meta/<id>.json`
+export class LocalDiskAttachmentStore implements AttachmentStore {
+  private ready?: Promise<void>;
+
+  constructor(private dir: string) {}
+
+  private ensureDirs(): Promise<void> {
+    if (!this.ready) {
+      this.ready = Promise.all([
+        mkdir(path.join(this.dir, 'blobs'), { recursive: true }),
+        mkdir(path.join(this.dir, 'meta'), { recursive: true }),
+      ]).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  private blobPath(sha256: string): string {
+    return path.join(this.dir, 'blobs', sha256);
+  }
+
+  private metaPath(id: string): string {
+    return path.join(this.dir, 'meta', `${id}.json`);
+  }
+
+  // Writes a blob unless one with the same content is already there; returns its hash
+  private async writeBlob(data: Buffer): Promise<string> {
+    const sha256 = createHash('sha256').update(data).digest('hex');
+    const blobPath = this.blobPath(sha256);
+    const exists = await stat(blobPath).then(() => true, () => false);
+    if (!exists) {
+      await writeFile(blobPath, data);
+    }
+    return sha256;
+  }
+
+  async save(attachment: NewAttachment, data: Buffer, thumbnail?: Buffer): Promise<StoredAttachment> {
+    await this.ensureDirs();
+    const stored: StoredAttachment = {
+      ...attachment,
+      id: randomUUID(),
+      size: data.length,
+      sha256: await this.writeBlob(data),
+      createdAt: Date.now(),
+    };
+    if (thumbnail) {
+      stored.thumbnail = { sha256: await this.writeBlob(thumbnail), size: thumbnail.length };
+    }
+
+    await writeFile(this.metaPath(stored.id), JSON.stringify(stored));
+    return stored;
+  }
+
+  async get(id: string): Promise<StoredAttachment | undefined> {
+    // Ids are UUIDs; anything else could walk out of the directory
+    if (!/^[0-9a-f-]{36}$/.test(id)) return undefined;
+    try {
+      return JSON.parse(await readFile(this.metaPath(id), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  read(attachment: StoredAttachment, range?: ByteRange): Readable {
+    return createReadStream(this.blobPath(attachment.sha256), range);
+  }
+
+  readThumbnail(attachment: StoredAttachment): Readable | undefined {
+    return attachment.thumbnail && createReadStream(this.blobPath(attachment.thumbnail.sha256));
+  }
+
+  async remove(id: string): Promise<void> {
+    const attachment = await this.get(id);
+    if (!attachment) return;
+
+    await rm(this.metaPath(id), { force: true });
+    const others = await this.list();
+    const blobs = [attachment.sha256, attachment.thumbnail?.sha256].filter((sha256): sha256 is string => !!sha256);
+    for (const sha256 of blobs) {
+      const stillUsed = others.some(other => other.sha256 === sha256 || other.thumbnail?.sha256 === sha256);
+      if (!stillUsed) {
+        await rm(this.blobPath(sha256), { force: true });
+      }
+    }
+  }
+
+  async list(): Promise<StoredAttachment[]> {
+    await this.ensureDirs();
+    const files = await readdir(path.join(this.dir, 'meta'));
+    const attachments = await Promise.all(
+      files.filter(file => file.endsWith('.json')).map(file => this.get(file.slice(0, -'.json'.length)))
+    );
+    return attachments.filter((attachment): attachment is StoredAttachment => !!attachment);
+  }
+}
+
+// Files outlive their chat by ATTACHMENT_RETENTION_MINUTES, and nothing lives past a day
+export function isAttachmentExpired(attachment: StoredAttachment, session: ChatSession | undefined, now = Date.now()): boolean {
+  if (!session || now - attachment.createdAt > ATTACHMENT_MAX_AGE_MS) return true;
+  if (session.status !== 'ended') return false;
+  const endedAt = session.endedAt?.getTime() ?? attachment.createdAt;
+  return now - endedAt > ATTACHMENT_RETENTION_MINUTES * 60 * 1000;
+}
+
+// What clients see in `send_message` frames and message history
+export function toAttachment(attachment: StoredAttachment): Attachment {
+  return {
+    id: attachment.id,
+    type: attachmentKind(attachment.mimeType),
+    url: `/api/attachments/${attachment.id}`,
+    thumbnailUrl: attachment.thumbnail && `/api/attachments/${attachment.id}/thumbnail`,
+    filename: attachment.filename,
+    size: attachment.size,
+    mimeType: attachment.mimeType,
+  };
+}
+
+/**
+ * Parses a single-range `Range` header against a file of `size` bytes.
+ * Returns undefined when there is no usable header (serve the whole file)
+ * and null when the range can't be satisfied.
+ */
+export function parseByteRange(header: string | undefined, size: number): ByteRange | null | undefined {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return undefined;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+  return start <= end && start < size ? { start, end } : null;
+}
+
+export const attachmentStore: AttachmentStore = new LocalDiskAttachmentStore(
+  process.env.ATTACHMENTS_DIR || path.join(os.tmpdir(), 'lakhari-attachments')
+);
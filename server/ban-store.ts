@@ -0,0 +1,145 @@
+import { BlockList, isIP } from 'net';
+import type { Ban } from '@shared/schema';
+import type { ServerMessageOf } from '@shared/protocol';
+import { storage } from './storage';
+import { log } from './vite';
+
+export interface BanCheck {
+  ip?: string;
+  deviceId?: string;
+}
+
+export type BannedMessage = ServerMessageOf<'banned'>;
+
+// Close code sent to banned sockets so clients know not to reconnect
+export const BANNED_CLOSE_CODE = 4003;
+
+export function normalizeIp(ip: string): string {
+  // Node reports IPv4 clients on dual-stack sockets as IPv4-mapped IPv6
+  return ip.startsWith('::ffff:') ? ip.slice(7) : ip;
+}
+
+/**
+ * `ip_prefix` bans hold a CIDR range ("192.168.1.0/24", "2001:db8::/32").
+ * Older bans hold a textual prefix ("192.168.1"), which only matches up to
+ * a dot or colon so that it can't also cover 192.168.10.x.
+ */
+function ipPrefixMatches(prefix: string, ip: string): boolean {
+  if (!prefix.includes('/')) {
+    const separator = prefix.includes(':') ? ':' : '.';
+    return ip === prefix || ip.startsWith(prefix.endsWith(separator) ? prefix : prefix + separator);
+  }
+
+  const range = parseCidr(prefix);
+  const family = isIP(ip);
+  if (!range || !family) return false;
+  const blockList = new BlockList();
+  blockList.addSubnet(range.network, range.bits, range.family);
+  return blockList.check(ip, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function parseCidr(value: string): { network: string; bits: number; family: 'ipv4' | 'ipv6' } | null {
+  const [network, bitsText] = value.split('/');
+  const version = isIP(network);
+  const bits = Number(bitsText);
+  const maxBits = version === 6 ? 128 : 32;
+  if (!version || !/^\d+$/.test(bitsText ?? '') || bits > maxBits) return null;
+  return { network, bits, family: version === 6 ? 'ipv6' : 'ipv4' };
+}
+
+// What POST /api/admin/bans accepts for an `ip_prefix` ban
+export function isValidIpPrefix(value: string): boolean {
+  if (value.includes('/')) return parseCidr(value) !== null;
+  return /^[0-9a-f:.]+$/i.test(value) && /[0-9a-f]/i.test(value);
+}
+
+/**
+ * In-memory view of active bans, refreshed from storage so that
+ * connection and join checks don't hit the database on every frame.
+ */
+export class BanStore {
+  private bans = new Map<string, Ban>();
+  private refreshInterval = parseInt(process.env.BAN_REFRESH_INTERVAL || '60000', 10);
+  private listeners: ((banId: string, revoked: boolean) => void)[] = [];
+
+  constructor() {
+    this.refresh();
+    setInterval(() => this.refresh(), this.refreshInterval);
+  }
+
+  async refresh(): Promise<void> {
+    try {
+      const activeBans = await storage.getActiveBans();
+      this.bans = new Map(activeBans.map(ban => [ban.id, ban]));
+    } catch (error) {
+      log(`Error refreshing bans: ${error}`);
+    }
+  }
+
+  // Told about bans issued or revoked on this instance, e.g. to pass them on to other instances
+  onChange(listener: (banId: string, revoked: boolean) => void): void {
+    this.listeners.push(listener);
+  }
+
+  add(ban: Ban): void {
+    this.bans.set(ban.id, ban);
+    this.listeners.forEach(listener => listener(ban.id, false));
+  }
+
+  remove(banId: string): void {
+    this.bans.delete(banId);
+    this.listeners.forEach(listener => listener(banId, true));
+  }
+
+  get(banId: string): Ban | undefined {
+    return this.bans.get(banId);
+  }
+
+  findBan({ ip, deviceId }: BanCheck): Ban | undefined {
+    const now = Date.now();
+    const normalizedIp = ip ? normalizeIp(ip) : undefined;
+
+    for (const ban of Array.from(this.bans.values())) {
+      if (ban.revokedAt || (ban.expiresAt && ban.expiresAt.getTime() <= now)) {
+        this.bans.delete(ban.id);
+        continue;
+      }
+
+      if (this.matches(ban, normalizedIp, deviceId)) {
+        return ban;
+      }
+    }
+    return undefined;
+  }
+
+  matches(ban: Ban, ip?: string, deviceId?: string): boolean {
+    switch (ban.scope) {
+      case 'ip':
+        return !!ip && normalizeIp(ip) === ban.value;
+      case 'ip_prefix':
+        return !!ip && ipPrefixMatches(ban.value, normalizeIp(ip));
+      case 'device':
+        return !!deviceId && deviceId === ban.value;
+      default:
+        return false;
+    }
+  }
+
+  toMessage(ban: Ban): BannedMessage {
+    const remainingSeconds = ban.expiresAt
+      ? Math.max(0, Math.ceil((ban.expiresAt.getTime() - Date.now()) / 1000))
+      : null;
+
+    return {
+      type: 'banned',
+      banId: ban.id,
+      reason: ban.reason,
+      scope: ban.scope,
+      expiresAt: ban.expiresAt ? ban.expiresAt.toISOString() : null,
+      remainingSeconds,
+    };
+  }
+}
+
+// Global ban store instance
+export const banStore = new BanStore();
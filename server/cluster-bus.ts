@@ -0,0 +1,207 @@
+import { randomUUID } from 'crypto';
+import cluster from 'cluster';
+import { WebSocket } from 'ws';
+import type { ClientConnection } from './transport';
+import type { RedisStore } from './redis-store';
+import { clusterIpcEnabled, fetchPresence, onPrimaryMessage, sendToPrimary } from './cluster-ipc';
+import { log } from './vite';
+
+// What one instance asks another to do with a connection it owns
+export type BusEnvelope =
+  | { kind: 'frame'; userId: string; data: string }
+  | { kind: 'close'; userId: string; code?: number; reason?: string };
+
+// Sent to every other instance when a ban is issued or revoked, so each one
+// refreshes its ban list and closes the connections the ban covers
+export type BanEnvelope = { kind: 'ban'; banId: string; revoked: boolean };
+
+/**
+ * Relays frames to users connected to another server instance. Each instance
+ * announces which users it holds; a frame for someone elsewhere is sent to
+ * the owning instance, which delivers it to the local connection.
+ */
+export interface ClusterBus {
+  readonly instanceId: string;
+  start(deliver: (envelope: BusEnvelope | BanEnvelope) => void): Promise<void>;
+  register(userId: string): void; // a local connection has joined
+  unregister(userId: string): void; // a local connection has gone
+  ownerOf(userId: string): string | undefined; // instance holding the user, if not this one
+  send(instanceId: string, envelope: BusEnvelope): void;
+  broadcast(envelope: BanEnvelope): void; // to every other instance
+  stop(): Promise<void>;
+}
+
+/**
+ * Stand-in for a user connected to another instance, so handlers can keep
+ * calling `send` on whatever the connection lookup returns.
+ */
+export class RemoteConnection implements ClientConnection {
+  readonly readyState = WebSocket.OPEN;
+
+  constructor(
+    readonly userId: string,
+    private instanceId: string,
+    private bus: ClusterBus
+  ) {}
+
+  send(data: string): void {
+    this.bus.send(this.instanceId, { kind: 'frame', userId: this.userId, data });
+  }
+
+  close(code?: number, reason?: string): void {
+    this.bus.send(this.instanceId, { kind: 'close', userId: this.userId, code, reason });
+  }
+}
+
+interface PresenceEvent {
+  userId: string;
+  instanceId: string;
+  online: boolean;
+}
+
+const PRESENCE_CHANNEL = 'presence';
+const BROADCAST_CHANNEL = 'broadcast';
+
+// Cluster bus over Redis pub/sub; ownership is kept in the shared `presence` hash
+export class RedisClusterBus implements ClusterBus {
+  readonly instanceId = randomUUID();
+  private owners = new Map<string, string>(); // userId -> instanceId, remote users only
+  private localUsers = new Set<string>();
+
+  constructor(private redis: RedisStore) {}
+
+  async start(deliver: (envelope: BusEnvelope | BanEnvelope) => void): Promise<void> {
+    await this.redis.connect();
+
+    await this.redis.subscribe(`frames:${this.instanceId}`, message => {
+      try {
+        deliver(JSON.parse(message));
+      } catch (error) {
+        console.error('Cluster bus: invalid frame envelope:', error);
+      }
+    });
+    await this.redis.subscribe(BROADCAST_CHANNEL, message => {
+      const { instanceId, envelope }: { instanceId: string; envelope: BanEnvelope } = JSON.parse(message);
+      if (instanceId !== this.instanceId) deliver(envelope);
+    });
+    await this.redis.subscribe(PRESENCE_CHANNEL, message => {
+      const event: PresenceEvent = JSON.parse(message);
+      if (event.instanceId === this.instanceId) return;
+      if (event.online) {
+        this.owners.set(event.userId, event.instanceId);
+      } else if (this.owners.get(event.userId) === event.instanceId) {
+        this.owners.delete(event.userId);
+      }
+    });
+
+    // Users that joined elsewhere before this instance started
+    const presence = await this.redis.getPresence();
+    for (const [userId, instanceId] of Object.entries(presence)) {
+      if (instanceId !== this.instanceId) this.owners.set(userId, instanceId);
+    }
+    log(`Cluster bus started as instance ${this.instanceId} (${this.owners.size} remote users)`, 'cluster');
+  }
+
+  register(userId: string): void {
+    this.localUsers.add(userId);
+    this.owners.delete(userId);
+    this.redis.setPresence(userId, this.instanceId)
+      .then(() => this.announce({ userId, instanceId: this.instanceId, online: true }))
+      .catch(error => console.error('Cluster bus: failed to register user:', error));
+  }
+
+  unregister(userId: string): void {
+    if (!this.localUsers.delete(userId)) return;
+    this.redis.clearPresence(userId, this.instanceId)
+      .then(() => this.announce({ userId, instanceId: this.instanceId, online: false }))
+      .catch(error => console.error('Cluster bus: failed to unregister user:', error));
+  }
+
+  ownerOf(userId: string): string | undefined {
+    return this.owners.get(userId);
+  }
+
+  send(instanceId: string, envelope: BusEnvelope): void {
+    this.redis.publish(`frames:${instanceId}`, JSON.stringify(envelope))
+      .catch(error => console.error(`Cluster bus: failed to relay ${envelope.kind} for ${envelope.userId}:`, error));
+  }
+
+  broadcast(envelope: BanEnvelope): void {
+    this.redis.publish(BROADCAST_CHANNEL, JSON.stringify({ instanceId: this.instanceId, envelope }))
+      .catch(error => console.error(`Cluster bus: failed to broadcast ${envelope.kind}:`, error));
+  }
+
+  async stop(): Promise<void> {
+    for (const userId of Array.from(this.localUsers)) {
+      await this.redis.clearPresence(userId, this.instanceId).catch(() => {});
+      await this.announce({ userId, instanceId: this.instanceId, online: false }).catch(() => {});
+    }
+    this.localUsers.clear();
+  }
+
+  private announce(event: PresenceEvent): Promise<void> {
+    return this.redis.publish(PRESENCE_CHANNEL, JSON.stringify(event));
+  }
+}
+
+// Cluster bus between workers on one machine, relayed by the cluster primary
+export class IpcClusterBus implements ClusterBus {
+  readonly instanceId = String(cluster.worker!.id);
+  private owners = new Map<string, string>(); // userId -> worker id, other workers only
+
+  async start(deliver: (envelope: BusEnvelope | BanEnvelope) => void): Promise<void> {
+    onPrimaryMessage(message => {
+      if (message.kind === 'deliver') {
+        deliver(message.envelope);
+      } else if (message.kind === 'presence' && message.instanceId !== this.instanceId) {
+        if (message.online) {
+          this.owners.set(message.userId, message.instanceId);
+        } else if (this.owners.get(message.userId) === message.instanceId) {
+          this.owners.delete(message.userId);
+        }
+      }
+    });
+
+    const presence = await fetchPresence();
+    for (const [userId, instanceId] of Object.entries(presence)) {
+      if (instanceId !== this.instanceId) this.owners.set(userId, instanceId);
+    }
+    log(`Cluster bus started on worker ${this.instanceId} (${this.owners.size} remote users)`, 'cluster');
+  }
+
+  register(userId: string): void {
+    this.owners.delete(userId);
+    sendToPrimary({ channel: 'cluster', kind: 'register', userId });
+  }
+
+  unregister(userId: string): void {
+    sendToPrimary({ channel: 'cluster', kind: 'unregister', userId });
+  }
+
+  ownerOf(userId: string): string | undefined {
+    return this.owners.get(userId);
+  }
+
+  send(instanceId: string, envelope: BusEnvelope): void {
+    sendToPrimary({ channel: 'cluster', kind: 'relay', instanceId, envelope });
+  }
+
+  broadcast(envelope: BanEnvelope): void {
+    sendToPrimary({ channel: 'cluster', kind: 'broadcast', envelope });
+  }
+
+  // The primary forgets this worker's users once it exits
+  async stop(): Promise<void> {}
+}
+
+// The bus for this deployment, or null when running as a single instance
+export async function createClusterBus(): Promise<ClusterBus | null> {
+  if (process.env.REDIS_URL) {
+    const { redisStore } = await import('./redis-store');
+    return new RedisClusterBus(redisStore);
+  }
+  if (clusterIpcEnabled) {
+    return new IpcClusterBus();
+  }
+  return null;
+}
@@ -0,0 +1,134 @@
+import cluster from 'cluster';
+import type { IStorage } from './storage';
+import type { BanEnvelope, BusEnvelope } from './cluster-bus';
+
+/**
+ * Messages between the workers forked by startCluster() and the cluster
+ * primary. Without Redis, the primary serves storage for every worker (the
+ * online-user registry and queues in memory, everything else from its own
+ * durable storage), and relays frames to the worker that owns a user.
+ * Workers are forked with `serialization: 'advanced'`, so Dates survive the
+ * trip.
+ */
+
+// Set on workers forked by startCluster(); other cluster managers (e.g. pm2) don't answer these calls
+export const clusterIpcEnabled = cluster.isWorker && process.env.CLUSTER_IPC === 'true';
+
+// How long a worker waits for the primary to answer a storage call
+const CLUSTER_IPC_TIMEOUT_MS = parseInt(process.env.CLUSTER_IPC_TIMEOUT_MS || '5000', 10);
+
+// Storage methods the primary keeps in its in-memory registry of online users
+export const REGISTRY_METHODS = [
+  'addOnlineUser',
+  'removeOnlineUser',
+  'getOnlineUser',
+  'getOnlineUserBySocket',
+  'updateOnlineUser',
+  'getWaitingUsers',
+  'claimPartner',
+  'getAllOnlineUsers',
+] as const satisfies readonly (keyof IStorage)[];
+
+// Served by the primary from its durable storage, so sessions, messages and
+// moderation records are the same on every worker
+export const DURABLE_METHODS = [
+  'createChatSession',
+  'getChatSession',
+  'updateChatSession',
+  'deleteChatSession',
+  'getActiveChatSession',
+  'createMessage',
+  'getMessagesBySession',
+  'getMessage',
+  'setMessageReaction',
+  'createReport',
+  'getReport',
+  'getReportBySessionAndReporter',
+  'getReports',
+  'resolveReport',
+  'createBan',
+  'getBans',
+  'getActiveBans',
+  'revokeBan',
+  'createStrike',
+  'getStrikes',
+] as const satisfies readonly (keyof IStorage)[];
+
+export type SharedStorageMethod = typeof REGISTRY_METHODS[number] | typeof DURABLE_METHODS[number];
+
+export type WorkerMessage =
+  | { channel: 'cluster'; kind: 'call'; id: number; method: SharedStorageMethod | 'getPresence'; args: unknown[] }
+  | { channel: 'cluster'; kind: 'register' | 'unregister'; userId: string }
+  | { channel: 'cluster'; kind: 'relay'; instanceId: string; envelope: BusEnvelope }
+  | { channel: 'cluster'; kind: 'broadcast'; envelope: BanEnvelope }; // to every other worker
+
+export type PrimaryMessage =
+  | { channel: 'cluster'; kind: 'result'; id: number; result?: unknown; error?: string }
+  | { channel: 'cluster'; kind: 'presence'; userId: string; instanceId: string; online: boolean }
+  | { channel: 'cluster'; kind: 'deliver'; envelope: BusEnvelope | BanEnvelope };
+
+export function isClusterMessage(message: unknown): boolean {
+  return (message as { channel?: unknown } | null)?.channel === 'cluster';
+}
+
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }>();
+const listeners: ((message: PrimaryMessage) => void)[] = [];
+let nextCallId = 1;
+let listening = false;
+
+function listen() {
+  if (listening) return;
+  listening = true;
+
+  process.on('message', (message: PrimaryMessage) => {
+    if (!isClusterMessage(message)) return;
+
+    if (message.kind === 'result') {
+      const call = pending.get(message.id);
+      if (!call) return;
+      pending.delete(message.id);
+      clearTimeout(call.timer);
+      if (message.error) {
+        call.reject(new Error(message.error));
+      } else {
+        call.resolve(message.result);
+      }
+      return;
+    }
+    listeners.forEach(listener => listener(message));
+  });
+}
+
+export function sendToPrimary(message: WorkerMessage): void {
+  process.send!(message);
+}
+
+// Frames and presence changes pushed by the primary
+export function onPrimaryMessage(listener: (message: PrimaryMessage) => void): void {
+  listen();
+  listeners.push(listener);
+}
+
+function call<T>(method: SharedStorageMethod | 'getPresence', args: unknown[]): Promise<T> {
+  listen();
+  const id = nextCallId++;
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      reject(new Error(`Cluster primary did not answer ${method} within ${CLUSTER_IPC_TIMEOUT_MS}ms`));
+    }, CLUSTER_IPC_TIMEOUT_MS);
+    // The primary answers with what `method` resolves to, which T names
+    pending.set(id, { resolve: result => resolve(result as T), reject, timer });
+    sendToPrimary({ channel: 'cluster', kind: 'call', id, method, args });
+  });
+}
+
+// Runs a storage method against the primary's shared registry
+export function callPrimary<M extends SharedStorageMethod>(method: M, ...args: Parameters<IStorage[M]>): ReturnType<IStorage[M]> {
+  return call<Awaited<ReturnType<IStorage[M]>>>(method, args) as ReturnType<IStorage[M]>;
+}
+
+// userId -> id of the worker it is connected to
+export function fetchPresence(): Promise<Record<string, string>> {
+  return call('getPresence', []);
+}
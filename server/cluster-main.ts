@@ -0,0 +1,4 @@
+import { startCluster } from './cluster';
+
+// Entry point for running several workers on one machine (MAX_WORKERS, default min(CPUs, 4))
+startCluster();
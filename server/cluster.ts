@@ -1,18 +1,33 @@
-import cluster from 'cluster';
+import cluster, { type Worker } from 'cluster';
+import { randomBytes } from 'crypto';
 import os from 'os';
 import { log } from './vite';
+import { MemStorage, storage } from './storage';
+import { DURABLE_METHODS, isClusterMessage, REGISTRY_METHODS, type PrimaryMessage, type WorkerMessage } from './cluster-ipc';
+
+// Lets workers know their primary serves the shared registry (see cluster-ipc.ts),
+// and gives them one resume token secret so a token works on any worker
+const WORKER_ENV = {
+  CLUSTER_IPC: 'true',
+  RESUME_TOKEN_SECRET: process.env.RESUME_TOKEN_SECRET || randomBytes(32).toString('hex'),
+};
 
 export function startCluster() {
   const numCPUs = os.cpus().length;
   const maxWorkers = process.env.MAX_WORKERS ? parseInt(process.env.MAX_WORKERS) : Math.min(numCPUs, 4);
   
   if (cluster.isPrimary) {
+    let shuttingDown = false;
     log(`Master process ${process.pid} is running`);
     log(`Starting ${maxWorkers} worker processes...`);
 
+    // Dates in storage results have to survive IPC between workers and the primary
+    cluster.setupPrimary({ serialization: 'advanced' });
+    serveWorkers();
+
     // Fork workers
     for (let i = 0; i < maxWorkers; i++) {
-      const worker = cluster.fork();
+      const worker = cluster.fork(WORKER_ENV);
       log(`Worker ${worker.process.pid} started`);
     }
 
@@ -26,49 +41,127 @@ export function startCluster() {
         log(`Worker ${worker.process.pid} exited successfully`);
       }
 
+      if (shuttingDown) {
+        if (Object.keys(cluster.workers || {}).length === 0) {
+          log('All workers stopped');
+          process.exit(0);
+        }
+        return;
+      }
+
       // Restart worker if it crashed
       if (!worker.exitedAfterDisconnect) {
         log(`Restarting worker...`);
-        const newWorker = cluster.fork();
+        const newWorker = cluster.fork(WORKER_ENV);
         log(`New worker ${newWorker.process.pid} started`);
       }
     });
 
-    // Graceful shutdown
-    process.on('SIGTERM', () => {
-      log('Master received SIGTERM, shutting down workers...');
-      for (const id in cluster.workers) {
-        cluster.workers[id]?.kill();
-      }
-    });
-
-    process.on('SIGINT', () => {
-      log('Master received SIGINT, shutting down workers...');
+    // Graceful shutdown: signal workers directly so each drains its connections
+    // (worker.kill() would cut the IPC channel first, ending them on the spot)
+    const stopWorkers = (signal: NodeJS.Signals) => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      log(`Master received ${signal}, draining workers...`);
       for (const id in cluster.workers) {
-        cluster.workers[id]?.kill();
+        cluster.workers[id]?.process.kill('SIGTERM');
       }
-    });
+    };
+    process.on('SIGTERM', () => stopWorkers('SIGTERM'));
+    process.on('SIGINT', () => stopWorkers('SIGINT'));
 
   } else {
     // Worker process
     log(`Worker ${process.pid} started`);
     
-    // Import and start the server
-    require('./index');
-    
-    // Handle worker shutdown
-    process.on('SIGTERM', () => {
-      log(`Worker ${process.pid} received SIGTERM, shutting down...`);
-      process.exit(0);
-    });
-
-    process.on('SIGINT', () => {
-      log(`Worker ${process.pid} received SIGINT, shutting down...`);
-      process.exit(0);
-    });
+    // Import and start the server; it drains its own connections on SIGTERM/SIGINT
+    import('./index');
   }
 }
 
+/**
+ * Shares one online-user registry and one durable storage between all
+ * workers and relays frames to the worker a user is connected to, so workers
+ * can match users with each other without Redis. See server/cluster-ipc.ts
+ * for the worker side.
+ */
+function serveWorkers() {
+  const registry = new MemStorage();
+  const owners = new Map<string, number>(); // userId -> worker id
+
+  const reply = (worker: Worker, message: PrimaryMessage) => {
+    if (worker.isConnected()) worker.send(message);
+  };
+
+  const announce = (userId: string, workerId: number, online: boolean) => {
+    for (const worker of Object.values(cluster.workers || {})) {
+      if (worker && worker.id !== workerId) {
+        reply(worker, { channel: 'cluster', kind: 'presence', userId, instanceId: String(workerId), online });
+      }
+    }
+  };
+
+  cluster.on('message', async (worker, message: WorkerMessage) => {
+    if (!isClusterMessage(message)) return;
+
+    switch (message.kind) {
+      case 'call': {
+        const { id, method, args } = message;
+        try {
+          let result: unknown;
+          if (method === 'getPresence') {
+            result = Object.fromEntries(Array.from(owners.entries()).map(([userId, workerId]) => [userId, String(workerId)]));
+          } else if ((REGISTRY_METHODS as readonly string[]).includes(method)) {
+            result = await (registry[method] as (...args: unknown[]) => Promise<unknown>)(...args);
+          } else if ((DURABLE_METHODS as readonly string[]).includes(method)) {
+            // The primary isn't a cluster worker, so `storage` is the database or plain memory
+            result = await (storage[method] as (...args: unknown[]) => Promise<unknown>)(...args);
+          } else {
+            throw new Error(`Unknown storage method: ${method}`);
+          }
+          reply(worker, { channel: 'cluster', kind: 'result', id, result });
+        } catch (error) {
+          reply(worker, { channel: 'cluster', kind: 'result', id, error: (error as Error).message });
+        }
+        break;
+      }
+      case 'register':
+        owners.set(message.userId, worker.id);
+        announce(message.userId, worker.id, true);
+        break;
+      case 'unregister':
+        if (owners.get(message.userId) === worker.id) {
+          owners.delete(message.userId);
+          announce(message.userId, worker.id, false);
+        }
+        break;
+      case 'relay': {
+        const target = cluster.workers?.[Number(message.instanceId)];
+        if (target) reply(target, { channel: 'cluster', kind: 'deliver', envelope: message.envelope });
+        break;
+      }
+      case 'broadcast':
+        for (const target of Object.values(cluster.workers || {})) {
+          if (target && target.id !== worker.id) reply(target, { channel: 'cluster', kind: 'deliver', envelope: message.envelope });
+        }
+        break;
+    }
+  });
+
+  // A worker that dies takes its connections with it
+  cluster.on('exit', async (worker) => {
+    const orphaned = Array.from(owners.entries()).filter(([, workerId]) => workerId === worker.id);
+    for (const [userId] of orphaned) {
+      owners.delete(userId);
+      announce(userId, worker.id, false);
+      await registry.removeOnlineUser(userId);
+    }
+    if (orphaned.length > 0) {
+      log(`Removed ${orphaned.length} users of exited worker ${worker.process.pid}`);
+    }
+  });
+}
+
 // Export cluster info for monitoring
 export function getClusterInfo() {
   if (cluster.isPrimary) {
@@ -1,9 +1,14 @@
 import { WebSocket } from 'ws';
+import type { ServerMessage } from '@shared/protocol';
+import { sendFrame, type ClientConnection } from './transport';
 import { log } from './vite';
 
+export type TransportKind = 'websocket' | 'sse' | 'polling';
+
 interface ConnectionInfo {
   id: string;
-  socket: WebSocket;
+  socket: ClientConnection;
+  transport: TransportKind;
   userId?: string;
   sessionId?: string;
   chatType?: 'text' | 'video';
@@ -16,19 +21,26 @@ interface ConnectionInfo {
   userAgent?: string;
 }
 
+/**
+ * Every live client connection on this instance, whatever its transport.
+ * Lookups by userId go through here instead of scanning `wss.clients`.
+ * Dead connections are removed by their transport's close handler; the
+ * periodic cleanup only catches ones that slipped through.
+ */
 export class ConnectionManager {
   private connections = new Map<string, ConnectionInfo>();
   private userConnections = new Map<string, string>(); // userId -> connectionId
   private waitingQueue = new Map<string, Set<string>>(); // chatType -> Set<connectionId>
   private maxConnections = parseInt(process.env.MAX_CONNECTIONS || '1000');
-  private connectionTimeout = parseInt(process.env.CONNECTION_TIMEOUT || '300000'); // 5 minutes
+  private framesReceived = 0;
+  private framesRouted = 0; // frames delivered through sendToUser/broadcast
 
   constructor() {
-    // Cleanup inactive connections every minute
+    // Cleanup closed connections every minute
     setInterval(() => this.cleanupInactiveConnections(), 60000);
   }
 
-  addConnection(connectionId: string, socket: WebSocket, ip: string, userAgent?: string): ConnectionInfo {
+  addConnection(connectionId: string, socket: ClientConnection, transport: TransportKind, ip: string, userAgent?: string): ConnectionInfo {
     if (this.connections.size >= this.maxConnections) {
       throw new Error('Maximum connections reached');
     }
@@ -36,6 +48,7 @@ export class ConnectionManager {
     const connectionInfo: ConnectionInfo = {
       id: connectionId,
       socket,
+      transport,
       isWaiting: false,
       connectedAt: new Date(),
       lastActivity: new Date(),
@@ -43,9 +56,10 @@ export class ConnectionManager {
       userAgent
     };
 
+    socket.connectionId = connectionId;
     this.connections.set(connectionId, connectionInfo);
-    log(`Connection added: ${connectionId} (Total: ${this.connections.size})`);
-    
+    log(`Connection added: ${connectionId} via ${transport} (Total: ${this.connections.size})`);
+
     return connectionInfo;
   }
 
@@ -53,20 +67,14 @@ export class ConnectionManager {
     const connection = this.connections.get(connectionId);
     if (!connection) return;
 
-    // Remove from user mapping
-    if (connection.userId) {
+    // Remove from user mapping, unless the user has since moved to another connection
+    if (connection.userId && this.userConnections.get(connection.userId) === connectionId) {
       this.userConnections.delete(connection.userId);
     }
 
     // Remove from waiting queue
     if (connection.isWaiting && connection.chatType) {
-      const queue = this.waitingQueue.get(connection.chatType);
-      if (queue) {
-        queue.delete(connectionId);
-        if (queue.size === 0) {
-          this.waitingQueue.delete(connection.chatType);
-        }
-      }
+      this.removeFromWaitingQueue(connectionId, connection.chatType);
     }
 
     this.connections.delete(connectionId);
@@ -85,13 +93,15 @@ export class ConnectionManager {
       this.userConnections.set(updates.userId, connectionId);
     }
 
-    // Handle waiting status changes
-    if (updates.isWaiting !== undefined && updates.isWaiting !== connection.isWaiting) {
-      if (updates.isWaiting && updates.chatType) {
-        this.addToWaitingQueue(connectionId, updates.chatType);
-      } else if (!updates.isWaiting && connection.chatType) {
-        this.removeFromWaitingQueue(connectionId, connection.chatType);
-      }
+    // Handle waiting status and chat type changes
+    const wasQueued = connection.isWaiting && connection.chatType;
+    const isWaiting = updates.isWaiting ?? connection.isWaiting;
+    const chatType = 'chatType' in updates ? updates.chatType : connection.chatType;
+    if (wasQueued && (!isWaiting || chatType !== connection.chatType)) {
+      this.removeFromWaitingQueue(connectionId, connection.chatType!);
+    }
+    if (isWaiting && chatType) {
+      this.addToWaitingQueue(connectionId, chatType);
     }
 
     // Update connection info
@@ -99,13 +109,27 @@ export class ConnectionManager {
     connection.lastActivity = new Date();
   }
 
+  // A frame arrived from the client
+  recordActivity(connectionId: string): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    connection.lastActivity = new Date();
+    this.framesReceived++;
+  }
+
   getConnection(connectionId: string): ConnectionInfo | undefined {
     return this.connections.get(connectionId);
   }
 
   getConnectionByUserId(userId: string): ConnectionInfo | undefined {
     const connectionId = this.userConnections.get(userId);
-    return connectionId ? this.connections.get(connectionId) : undefined;
+    const connection = connectionId ? this.connections.get(connectionId) : undefined;
+    return connection && this.isConnectionActive(connection) ? connection : undefined;
+  }
+
+  getSockets(): ClientConnection[] {
+    return Array.from(this.connections.values()).map(connection => connection.socket);
   }
 
   getWaitingUsers(chatType: string, interests?: string[]): ConnectionInfo[] {
@@ -113,12 +137,12 @@ export class ConnectionManager {
     if (!queue) return [];
 
     const waitingUsers: ConnectionInfo[] = [];
-    for (const connectionId of queue) {
+    for (const connectionId of Array.from(queue)) {
       const connection = this.connections.get(connectionId);
       if (connection && this.isConnectionActive(connection)) {
         // Filter by interests if provided
         if (interests && interests.length > 0) {
-          const hasMatchingInterest = connection.interests?.some(interest => 
+          const hasMatchingInterest = connection.interests?.some(interest =>
             interests.includes(interest)
           );
           if (hasMatchingInterest) {
@@ -157,16 +181,9 @@ export class ConnectionManager {
   }
 
   private cleanupInactiveConnections(): void {
-    const now = Date.now();
-    const toRemove: string[] = [];
-
-    for (const [connectionId, connection] of this.connections) {
-      const timeSinceActivity = now - connection.lastActivity.getTime();
-      
-      if (!this.isConnectionActive(connection) || timeSinceActivity > this.connectionTimeout) {
-        toRemove.push(connectionId);
-      }
-    }
+    const toRemove = Array.from(this.connections.values())
+      .filter(connection => !this.isConnectionActive(connection))
+      .map(connection => connection.id);
 
     for (const connectionId of toRemove) {
       this.removeConnection(connectionId);
@@ -178,41 +195,52 @@ export class ConnectionManager {
   }
 
   getStats() {
-    const waitingByType: Record<string, number> = {};
-    for (const [chatType, queue] of this.waitingQueue) {
-      waitingByType[chatType] = queue.size;
+    const waiting: Record<string, number> = {};
+    for (const [chatType, queue] of Array.from(this.waitingQueue.entries())) {
+      waiting[chatType] = queue.size;
     }
 
+    const byTransport: Record<TransportKind, number> = { websocket: 0, sse: 0, polling: 0 };
+    const connections = Array.from(this.connections.values());
+    connections.forEach(connection => byTransport[connection.transport]++);
+
     return {
-      totalConnections: this.connections.size,
-      waitingByType,
+      total: this.connections.size,
+      active: connections.filter(c => this.isConnectionActive(c)).length,
+      joined: this.userConnections.size,
+      waiting,
+      byTransport,
       maxConnections: this.maxConnections,
-      activeConnections: Array.from(this.connections.values()).filter(c => this.isConnectionActive(c)).length
+      framesReceived: this.framesReceived,
+      framesRouted: this.framesRouted
     };
   }
 
-  broadcast(message: any, filter?: (connection: ConnectionInfo) => boolean): void {
-    for (const connection of this.connections.values()) {
+  broadcast(message: ServerMessage, filter?: (connection: ConnectionInfo) => boolean): void {
+    for (const connection of Array.from(this.connections.values())) {
       if (this.isConnectionActive(connection)) {
         if (!filter || filter(connection)) {
           try {
-            connection.socket.send(JSON.stringify(message));
+            sendFrame(connection.socket, message);
+            this.framesRouted++;
           } catch (error) {
-            log(`Error broadcasting to connection ${connection.id}:`, error);
+            log(`Error broadcasting to connection ${connection.id}: ${error}`);
           }
         }
       }
     }
   }
 
-  sendToUser(userId: string, message: any): boolean {
+  // Sends a frame to a user connected to this instance; false if they aren't
+  sendToUser(userId: string, message: ServerMessage): boolean {
     const connection = this.getConnectionByUserId(userId);
-    if (connection && this.isConnectionActive(connection)) {
+    if (connection) {
       try {
-        connection.socket.send(JSON.stringify(message));
+        sendFrame(connection.socket, message);
+        this.framesRouted++;
         return true;
       } catch (error) {
-        log(`Error sending message to user ${userId}:`, error);
+        log(`Error sending message to user ${userId}: ${error}`);
         return false;
       }
     }
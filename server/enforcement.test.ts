@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { filterByTrustPool } from './enforcement';
+import { strikeTracker } from './strikes';
+import { StubConnection, StubConnections } from './test-helpers';
+
+describe('filterByTrustPool', () => {
+  it('finds the strikes of a candidate on another instance by their device id', async () => {
+    const connections = new StubConnections();
+    const seeker = connections.add(new StubConnection(`seeker-${crypto.randomUUID()}`));
+    const offender = { id: `offender-${crypto.randomUUID()}`, deviceId: `device-${crypto.randomUUID()}` };
+    const bystander = { id: `bystander-${crypto.randomUUID()}`, deviceId: null };
+    // Recorded by the instance the offender is connected to, against their device
+    for (let i = 0; i < 3; i++) {
+      await strikeTracker.recordStrike({ userId: offender.id, deviceId: offender.deviceId }, 'moderation');
+    }
+
+    const visible = filterByTrustPool(connections, seeker, [offender, bystander]);
+
+    assert.deepEqual(visible.map(candidate => candidate.id), [bystander.id]);
+  });
+});
@@ -0,0 +1,81 @@
+import { WebSocket } from 'ws';
+import type { Ban } from '@shared/schema';
+import { banStore, normalizeIp, BANNED_CLOSE_CODE } from './ban-store';
+import { strikeTracker, type StrikeOutcome, type StrikeSource } from './strikes';
+import { sendFrame, type ClientConnection, type ConnectionLookup } from './transport';
+
+// Sends a structured `banned` frame and closes the socket if a ban applies
+export function rejectIfBanned(ws: ClientConnection): boolean {
+  const ban = banStore.findBan({ ip: ws.clientIp, deviceId: ws.deviceId });
+  if (!ban) return false;
+
+  console.log(`Rejecting banned user ${ws.userId || 'unjoined'} (ban ${ban.id}, scope ${ban.scope})`);
+  if (ws.readyState === WebSocket.OPEN) {
+    sendFrame(ws, banStore.toMessage(ban));
+    ws.close(BANNED_CLOSE_CODE, 'Banned');
+  }
+  return true;
+}
+
+// Close live sockets covered by a newly issued ban
+export function disconnectBannedSockets(connections: ConnectionLookup, ban: Ban): number {
+  let disconnected = 0;
+  for (const wsClient of connections.all()) {
+    if (banStore.matches(ban, wsClient.clientIp, wsClient.deviceId)) {
+      if (wsClient.readyState === WebSocket.OPEN) {
+        sendFrame(wsClient, banStore.toMessage(ban));
+      }
+      wsClient.close(BANNED_CLOSE_CODE, 'Banned');
+      disconnected++;
+    }
+  }
+  return disconnected;
+}
+
+export function strikeSubject(ws: ClientConnection) {
+  return { userId: ws.userId, deviceId: ws.deviceId, ip: ws.clientIp };
+}
+
+// Record a strike and apply its consequences to the offender's socket, if connected
+export async function addStrike(
+  connections: ConnectionLookup,
+  ws: ClientConnection | null,
+  source: StrikeSource,
+  detail?: string,
+  fallbackSubject: { userId?: string; ip?: string } = {}
+): Promise<StrikeOutcome> {
+  const subject = ws ? strikeSubject(ws) : { ...fallbackSubject, ip: fallbackSubject.ip && normalizeIp(fallbackSubject.ip) };
+  const outcome = await strikeTracker.recordStrike(subject, source, detail);
+
+  if (outcome.ban) {
+    disconnectBannedSockets(connections, outcome.ban);
+  } else if (ws && ws.readyState === WebSocket.OPEN && outcome.level !== 'none') {
+    sendFrame(ws, {
+      type: 'moderation_warning',
+      level: outcome.level,
+      strikeCount: outcome.strikeCount,
+      message: outcome.level === 'low_trust'
+        ? 'Repeated violations have limited who you can be matched with'
+        : 'Your message broke the chat rules. Repeated violations lead to a temporary ban',
+    });
+  }
+  return outcome;
+}
+
+// Low-trust users only match each other, and everyone else never sees them
+export function filterByTrustPool<T extends { id: string; deviceId?: string | null }>(
+  connections: ConnectionLookup,
+  ws: ClientConnection,
+  candidates: T[]
+): T[] {
+  const lowTrust = strikeTracker.isLowTrust(strikeSubject(ws));
+  return candidates.filter(candidate => {
+    // Candidates on other instances have no socket here; their stored device id
+    // finds the same strikes their socket would
+    const candidateSocket = connections.findByUserId(candidate.id);
+    const candidateLowTrust = strikeTracker.isLowTrust(
+      candidateSocket ? strikeSubject(candidateSocket) : { userId: candidate.id, deviceId: candidate.deviceId ?? undefined }
+    );
+    return candidateLowTrust === lowTrust;
+  });
+}
@@ -0,0 +1,65 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatSession } from '@shared/schema';
+import { createMessageRouter } from './index';
+import type { MessageRouter } from '../message-router';
+import { storage } from '../storage';
+import { StubConnection, StubConnections } from '../test-helpers';
+
+describe('chat handlers', () => {
+  let router: MessageRouter;
+  let alice: StubConnection;
+  let bob: StubConnection;
+  let session: ChatSession;
+
+  beforeEach(async () => {
+    const connections = new StubConnections();
+    router = createMessageRouter(connections);
+    // Fresh ids per test so rate limits and flood checks don't carry over
+    alice = connections.add(new StubConnection(`alice-${crypto.randomUUID()}`));
+    bob = connections.add(new StubConnection(`bob-${crypto.randomUUID()}`));
+    session = await storage.createChatSession({
+      user1Id: alice.userId!,
+      user2Id: bob.userId!,
+      type: 'text',
+      status: 'connected',
+    });
+  });
+
+  it('delivers a message to the partner and confirms it to the sender', async () => {
+    await router.dispatch(alice, { type: 'send_message', sessionId: session.id, content: 'hello there' });
+
+    const [received] = bob.framesOf('message_received');
+    assert.equal(received?.message.content, 'hello there');
+    assert.equal(received.senderId, alice.userId);
+
+    const [sent] = alice.framesOf('message_sent');
+    assert.equal(sent?.message.id, received.message.id);
+    assert.equal(sent.status, 'delivered');
+  });
+
+  it('refuses messages for a session the sender is not part of', async () => {
+    const outsider = new StubConnection(`eve-${crypto.randomUUID()}`);
+
+    await router.dispatch(outsider, { type: 'send_message', sessionId: session.id, content: 'hi' });
+
+    assert.deepEqual(outsider.framesOf('error').map(frame => frame.code), ['not_in_session']);
+    assert.equal(bob.framesOf('message_received').length, 0);
+  });
+
+  it('refuses chat frames before join', async () => {
+    const anonymous = new StubConnection();
+
+    await router.dispatch(anonymous, { type: 'typing', sessionId: session.id, isTyping: true });
+
+    assert.deepEqual(anonymous.framesOf('error').map(frame => frame.code), ['not_joined']);
+  });
+
+  it('names the invalid field of a malformed frame', async () => {
+    await router.dispatch(alice, { type: 'message_reaction', sessionId: session.id, messageId: 'm1', emoji: 'lol' });
+
+    const [error] = alice.framesOf('error');
+    assert.equal(error?.code, 'invalid_frame');
+    assert.deepEqual(error.issues?.map(issue => issue.path), ['emoji']);
+  });
+});
@@ -0,0 +1,224 @@
+import { ENCRYPTED_CONTENT, MAX_ENCRYPTED_CONTENT_LENGTH } from '@shared/protocol';
+import { storage } from '../storage';
+import { validateMessage } from '../middleware';
+import { moderationPipeline } from '../moderation';
+import { addStrike } from '../enforcement';
+import { attachmentStore, toAttachment, type StoredAttachment } from '../attachment-store';
+import { requireSession, requireUser, type ContextOf, type MessageRouter } from '../message-router';
+import { sendFrame, type ConnectionLookup } from '../transport';
+
+// Messages, reactions, typing indicators, read receipts and ending a chat
+export function registerChatHandlers(router: MessageRouter, connections: ConnectionLookup): void {
+  router.on('send_message', requireUser, requireSession(), handleSendMessage);
+  router.on('message_reaction', requireUser, requireSession(), handleMessageReaction);
+  router.on('typing', requireUser, requireSession(), handleTyping);
+  router.on('message_read', requireUser, requireSession(), handleMessageRead);
+  router.on('end_chat', requireUser, requireSession(), handleEndChat);
+
+  async function handleSendMessage({ ws, message, partnerId }: ContextOf<'send_message'>) {
+    const { sessionId, content, attachments = [], hasEmoji = false, messageType = 'text', encrypted = false, replyTo } = message;
+    const senderId = ws.userId!;
+
+    // Validate message content - allow empty content if there are attachments
+    if ((!content || content.trim().length === 0) && (!attachments || attachments.length === 0)) {
+      sendFrame(ws, {
+        type: 'error',
+        message: 'Message cannot be empty'
+      });
+      return;
+    }
+
+    // Ciphertext can't be sanitized or moderated, only checked for shape; the
+    // partner's client decrypts it
+    if (encrypted && content) {
+      if (content.length > MAX_ENCRYPTED_CONTENT_LENGTH || !ENCRYPTED_CONTENT.test(content)) {
+        sendFrame(ws, {
+          type: 'error',
+          code: 'invalid_ciphertext',
+          message: 'Encrypted message is malformed'
+        });
+        return;
+      }
+    } else if (content) {
+      // Validate and sanitize message content
+      const validation = validateMessage(content, 5000);
+
+      if (!validation.isValid) {
+        sendFrame(ws, {
+          type: 'error',
+          message: validation.error || 'Invalid message content'
+        });
+        // Whitespace-only text alongside attachments isn't an offence
+        if (validation.sanitized) {
+          await addStrike(connections, ws, 'validation', validation.error);
+        }
+        return;
+      }
+
+      // Use sanitized content
+      message.content = validation.sanitized;
+    }
+
+    // Run text content through the moderation pipeline
+    if (message.content && !encrypted) {
+      const moderation = moderationPipeline.moderate(message.content, { senderId, sessionId });
+
+      if (moderation.action === 'reject') {
+        sendFrame(ws, {
+          type: 'error',
+          code: 'message_rejected',
+          message: moderation.reason || 'Message contains inappropriate content',
+          rule: moderation.rule
+        });
+        await addStrike(connections, ws, 'moderation', moderation.rule);
+        return;
+      }
+
+      message.content = moderation.content;
+    }
+
+    if (!partnerId) {
+      sendFrame(ws, {
+        type: 'error',
+        message: 'Partner not found'
+      });
+      return;
+    }
+
+    // Files go through /api/attachments first; the frame only names them, and
+    // the stored copy wins over whatever the client says about it
+    const storedAttachments = await Promise.all(attachments.map(attachment => attachmentStore.get(attachment.id)));
+    const ownAttachments = storedAttachments.filter((stored): stored is StoredAttachment =>
+      !!stored && stored.sessionId === sessionId && stored.uploaderId === senderId
+    );
+    if (ownAttachments.length < attachments.length) {
+      sendFrame(ws, {
+        type: 'error',
+        code: 'invalid_attachment',
+        message: 'Attachments must be uploaded for this chat before sending'
+      });
+      return;
+    }
+
+    // Replies quote a message from this chat; clients look the parent up by id
+    if (replyTo) {
+      const parent = await storage.getMessage(replyTo);
+      if (!parent || parent.sessionId !== sessionId) {
+        sendFrame(ws, {
+          type: 'error',
+          code: 'invalid_reply',
+          message: 'The message being replied to is not part of this chat'
+        });
+        return;
+      }
+    }
+
+    try {
+      // Save message
+      const savedMessage = await storage.createMessage({
+        sessionId,
+        senderId,
+        content: message.content || '',
+        attachments: ownAttachments.map(toAttachment),
+        hasEmoji: hasEmoji || false,
+        encrypted,
+        replyTo: replyTo ?? null,
+      });
+
+      // Send message to partner
+      const delivered = connections.sendToUser(partnerId, {
+        type: 'message_received',
+        message: savedMessage,
+        messageType,
+        senderId
+      });
+      if (delivered) {
+        // Send delivery receipt to sender
+        sendFrame(ws, {
+          type: 'message_delivered',
+          messageId: savedMessage.id,
+          timestamp: new Date()
+        });
+      }
+
+      // Confirm to sender
+      sendFrame(ws, {
+        type: 'message_sent',
+        message: savedMessage,
+        messageType,
+        status: delivered ? 'delivered' : 'sent'
+      });
+    } catch (error) {
+      console.error('Error sending message:', error);
+      sendFrame(ws, {
+        type: 'error',
+        message: 'Failed to send message'
+      });
+    }
+  }
+
+  async function handleMessageReaction({ ws, message, partnerId }: ContextOf<'message_reaction'>) {
+    const { sessionId, messageId, emoji } = message;
+    const target = await storage.getMessage(messageId);
+    if (!target || target.sessionId !== sessionId) {
+      sendFrame(ws, {
+        type: 'error',
+        code: 'invalid_reaction',
+        message: 'Message not found in this chat'
+      });
+      return;
+    }
+
+    const updated = await storage.setMessageReaction(messageId, ws.userId!, emoji);
+    if (!updated) return;
+
+    // Both sides get the whole list, so neither has to merge changes
+    const frame = {
+      type: 'message_reaction' as const,
+      sessionId,
+      messageId,
+      reactions: updated.reactions ?? [],
+    };
+    if (partnerId) {
+      connections.sendToUser(partnerId, frame);
+    }
+    sendFrame(ws, frame);
+  }
+
+  async function handleTyping({ message, partnerId }: ContextOf<'typing'>) {
+    if (!partnerId) return;
+    connections.sendToUser(partnerId, {
+      type: 'partner_typing',
+      isTyping: message.isTyping,
+    });
+  }
+
+  // Handle message read receipts
+  async function handleMessageRead({ message, partnerId }: ContextOf<'message_read'>) {
+    if (!partnerId) return;
+
+    connections.sendToUser(partnerId, {
+      type: 'message_read_receipt',
+      messageId: message.messageId,
+      timestamp: new Date()
+    });
+  }
+
+  async function handleEndChat({ ws, message, partnerId }: ContextOf<'end_chat'>) {
+    // Update session status
+    await storage.updateChatSession(message.sessionId, {
+      status: 'ended',
+      endedAt: new Date(),
+    });
+
+    if (partnerId) {
+      connections.sendToUser(partnerId, { type: 'chat_ended' });
+    }
+
+    // Update user status
+    await storage.updateOnlineUser(ws.userId!, { isWaiting: false, chatType: null });
+    connections.setWaiting(ws.userId!, null);
+
+    sendFrame(ws, { type: 'chat_ended' });
+  }
+}
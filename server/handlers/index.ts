@@ -0,0 +1,18 @@
+import { MessageRouter, rateLimit, trackInFlight } from '../message-router';
+import type { ConnectionLookup } from '../transport';
+import { registerSessionHandlers } from './session';
+import { registerMatchmakingHandlers } from './matchmaking';
+import { registerChatHandlers } from './chat';
+import { registerSignalingHandlers } from './signaling';
+
+// Builds the router with a handler for every client message type
+export function createMessageRouter(connections: ConnectionLookup): MessageRouter {
+  const router = new MessageRouter();
+  router.use(trackInFlight, rateLimit());
+
+  registerSessionHandlers(router, connections);
+  registerMatchmakingHandlers(router, connections);
+  registerChatHandlers(router, connections);
+  registerSignalingHandlers(router, connections);
+  return router;
+}
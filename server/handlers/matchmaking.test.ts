@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMessageRouter } from './index';
+import { storage } from '../storage';
+import { StubConnection, StubConnections } from '../test-helpers';
+
+describe('matchmaking handlers', () => {
+  it('never puts a user in two sessions when two find_match frames race', async () => {
+    const connections = new StubConnections();
+    const router = createMessageRouter(connections);
+
+    // Repeat the race a few times: which interleaving happens depends on timing
+    for (let round = 0; round < 10; round++) {
+      const [waiting, first, second] = [new StubConnection(), new StubConnection(), new StubConnection()];
+      for (const connection of [waiting, first, second]) {
+        await router.dispatch(connection, { type: 'join' });
+      }
+      await router.dispatch(waiting, { type: 'find_match', chatType: 'video' });
+      assert.equal(waiting.framesOf('waiting_for_match').length, 1);
+
+      await Promise.all([
+        router.dispatch(first, { type: 'find_match', chatType: 'video' }),
+        router.dispatch(second, { type: 'find_match', chatType: 'video' }),
+      ]);
+
+      const users = [waiting, first, second];
+      const sessionIds = new Set(users.flatMap(user => user.framesOf('match_found').map(frame => frame.sessionId)));
+      // Three users make at most one pair, and someone must have taken the waiting user
+      assert.equal(sessionIds.size, 1);
+      const [session] = await Promise.all(Array.from(sessionIds, id => storage.getChatSession(id)));
+      for (const user of users) {
+        const matches = user.framesOf('match_found');
+        assert.ok(matches.length <= 1, `${user.userId} matched ${matches.length} times`);
+        const inSession = session?.user1Id === user.userId || session?.user2Id === user.userId;
+        assert.equal(inSession, matches.length === 1);
+      }
+
+      // Take the one left over out of the queue so the next round starts clean
+      const leftover = users.find(user => user.framesOf('match_found').length === 0)!;
+      assert.equal((await storage.getOnlineUser(leftover.userId!))?.isWaiting, true);
+      await storage.updateOnlineUser(leftover.userId!, { isWaiting: false });
+    }
+  });
+});
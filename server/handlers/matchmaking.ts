@@ -0,0 +1,322 @@
+import { WebSocket } from 'ws';
+import type { OnlineUser } from '@shared/schema';
+import type { ChatType, ServerMessageOf } from '@shared/protocol';
+import { storage } from '../storage';
+import { filterByTrustPool, rejectIfBanned } from '../enforcement';
+import { arePreferencesCompatible, PREFERENCE_RELAX_SECONDS } from '../match-preferences';
+import { matchScorer, type MatchScorer, type ScoredMatch } from '../match-scorer';
+import { rejectWhileDraining, requireSession, requireUser, type ContextOf, type MessageRouter } from '../message-router';
+import { shutdown } from '../shutdown';
+import { sendFrame, type ClientConnection, type ConnectionLookup } from '../transport';
+
+// Finding partners, skipping to the next stranger and queue position updates
+export function registerMatchmakingHandlers(
+  router: MessageRouter,
+  connections: ConnectionLookup,
+  scorer: MatchScorer = matchScorer
+): void {
+  router.on('find_match', requireUser, rejectWhileDraining, handleFindMatch);
+  router.on('next_stranger', requireUser, rejectWhileDraining, requireSession({ optional: true }), handleNextStranger);
+  router.on('get_queue_status', requireUser, handleGetQueueStatus);
+
+  async function handleFindMatch({ ws, message }: ContextOf<'find_match'>) {
+    const userId = ws.userId!;
+
+    // Bans issued mid-session keep the user out of matchmaking
+    if (rejectIfBanned(ws)) return;
+
+    const { chatType, interests, gender, preferences, profile } = message;
+    console.log(`🔍 User ${userId} looking for ${chatType} match with interests:`, interests, 'gender:', gender, 'preferences:', preferences);
+    
+    // Update user status with timestamp
+    const user = await storage.updateOnlineUser(userId, {
+      isWaiting: true,
+      chatType,
+      interests,
+      gender,
+      preferences: preferences ?? {},
+      profile: profile ?? {},
+      waitingSince: new Date(),
+    });
+    if (!user) return;
+    connections.setWaiting(userId, chatType);
+
+    // Enhanced matching algorithm with improved scoring and faster matching
+    // CRITICAL FIX: Pass userId to storage layer to prevent self-matching at source
+    const waitingUsers = filterByTrustPool(connections, ws, await storage.getWaitingUsers(chatType, interests, userId));
+    console.log(`📊 Found ${waitingUsers.length} waiting users for ${chatType} chat (excluding self):`, waitingUsers.map(u => ({ id: u.id, gender: u.gender, interests: u.interests })));
+    
+    if (waitingUsers.length === 0) {
+      console.log(`⏳ No other users waiting for ${chatType} chat. User ${userId} added to queue.`);
+      sendFrame(ws, { type: 'waiting_for_match' });
+      return;
+    }
+    
+    // Preferences on either side rule candidates out until they relax
+    const compatibleUsers = waitingUsers.filter(candidate => arePreferencesCompatible(user, candidate));
+    const bestMatch = await claimBestMatch(user, chatType, compatibleUsers);
+    if (bestMatch === null) return; // we were paired by someone else meanwhile
+
+    if (bestMatch) {
+      console.log(`🎉 Found match for user ${userId}: ${bestMatch.user.id} with score ${bestMatch.score}`);
+      await startSession(ws, chatType, interests, bestMatch);
+
+      // Broadcast updated queue status to remaining users
+      broadcastQueueUpdates(chatType, interests);
+    } else {
+      // Nobody left to pair with: preferences ruled every candidate out,
+      // or the compatible ones were claimed by someone else first
+      const totalWaiting = waitingUsers.length + 1;
+      // Calculate dynamic wait time based on current queue
+      const estimatedWait = totalWaiting < 5 ? 5 : Math.min(30, totalWaiting * 5);
+      
+      console.log(`⏳ No match found for user ${userId}, waiting in queue. Position: ${totalWaiting}, Wait time: ${estimatedWait}s`);
+      
+      sendFrame(ws, { 
+        type: 'waiting_for_match',
+        estimatedWaitTime: estimatedWait,
+        queuePosition: totalWaiting,
+        totalInQueue: totalWaiting
+      });
+      
+      // Send periodic queue updates
+      startQueueUpdates(ws, chatType, interests);
+
+      if (compatibleUsers.length < waitingUsers.length) {
+        retryAfterRelaxing(ws, chatType);
+      }
+    }
+  }
+
+  async function handleNextStranger({ ws, message, session, partnerId }: ContextOf<'next_stranger'>) {
+    const userId = ws.userId!;
+    if (rejectIfBanned(ws)) return;
+
+    const { chatType, interests } = message;
+    
+    // End the current session, if it still exists, and notify the partner
+    if (session) {
+      await storage.updateChatSession(session.id, {
+        status: 'ended',
+        endedAt: new Date(),
+      });
+
+      if (partnerId) {
+        connections.sendToUser(partnerId, { type: 'chat_ended' });
+      }
+    }
+
+    // Update user status and find new match (don't send chat_ended to initiating user)
+    const user = await storage.updateOnlineUser(userId, {
+      isWaiting: true,
+      chatType,
+      interests,
+      ...(message.gender !== undefined && { gender: message.gender }),
+      ...(message.preferences && { preferences: message.preferences }),
+      ...(message.profile && { profile: message.profile }),
+      waitingSince: new Date(),
+    });
+    if (!user) return;
+    connections.setWaiting(userId, chatType);
+
+    // Find a new match, filtered and ranked the same way as find_match
+    const waitingUsers = filterByTrustPool(connections, ws, await storage.getWaitingUsers(chatType, interests, userId));
+    const compatibleUsers = waitingUsers.filter(candidate => arePreferencesCompatible(user, candidate));
+    const potentialMatch = await claimBestMatch(user, chatType, compatibleUsers);
+    if (potentialMatch === null) return;
+
+    if (potentialMatch) {
+      await startSession(ws, chatType, interests, potentialMatch);
+    } else {
+      sendFrame(ws, { type: 'waiting_for_match' });
+      if (compatibleUsers.length < waitingUsers.length) {
+        retryAfterRelaxing(ws, chatType);
+      }
+    }
+  }
+
+  // Ranks the candidates for a user and claims the best one still waiting
+  async function claimBestMatch(user: OnlineUser, chatType: ChatType, candidates: OnlineUser[]) {
+    const matches = scorer.rank({
+      userId: user.id,
+      interests: user.interests ?? undefined,
+      preferences: user.preferences,
+    }, candidates);
+    return claimFirstAvailable(user.id, chatType, matches);
+  }
+
+  /**
+   * Matching only runs when someone joins the queue, so two users kept apart
+   * by preferences would otherwise wait forever. Once the relax window has
+   * passed for the later of the two, try again for the user still waiting.
+   */
+  function retryAfterRelaxing(ws: ClientConnection, chatType: ChatType) {
+    if (PREFERENCE_RELAX_SECONDS <= 0) return;
+
+    setTimeout(async () => {
+      if (ws.readyState !== WebSocket.OPEN || !ws.userId || shutdown.isDraining) return;
+      try {
+        const user = await storage.getOnlineUser(ws.userId);
+        if (!user?.isWaiting || user.chatType !== chatType) return;
+
+        const waitingUsers = filterByTrustPool(connections, ws, await storage.getWaitingUsers(chatType, user.interests ?? [], user.id));
+        const compatibleUsers = waitingUsers.filter(candidate => arePreferencesCompatible(user, candidate));
+        const match = await claimBestMatch(user, chatType, compatibleUsers);
+        if (match) {
+          console.log(`🎉 Matched ${user.id} with ${match.user.id} after relaxing preferences`);
+          await startSession(ws, chatType, user.interests ?? undefined, match);
+          broadcastQueueUpdates(chatType, user.interests ?? []);
+        }
+      } catch (error) {
+        console.error('Error retrying match after relaxing preferences:', error);
+      }
+    }, PREFERENCE_RELAX_SECONDS * 1000 + 100);
+  }
+
+  // Opens a session with a claimed partner and sends both sides match_found
+  async function startSession(ws: ClientConnection, chatType: ChatType, interests: string[] | undefined, match: ScoredMatch) {
+    const userId = ws.userId!;
+    const session = await storage.createChatSession({
+      user1Id: userId,
+      user2Id: match.user.id,
+      type: chatType,
+      interests: interests || [],
+      status: 'connected',
+    });
+    connections.setWaiting(userId, null);
+    connections.setWaiting(match.user.id, null);
+
+    const matchMessage1: ServerMessageOf<'match_found'> = {
+      type: 'match_found',
+      sessionId: session.id,
+      partnerId: match.user.id,
+      sharedInterests: match.sharedInterests,
+      matchQuality: match.quality,
+      matchScore: Math.round(match.score),
+      connectionQuality: Math.round(match.connectionQuality),
+      partnerGender: match.user.gender,
+      partnerInterests: match.user.interests || []
+    };
+    console.log(`Sending match_found to user ${userId}:`, matchMessage1);
+    sendFrame(ws, matchMessage1);
+
+    // Notify the partner
+    const matchMessage2: ServerMessageOf<'match_found'> = {
+      ...matchMessage1,
+      partnerId: userId,
+      partnerGender: (await storage.getOnlineUser(userId))?.gender,
+      partnerInterests: interests || []
+    };
+    console.log(`Sending match_found to partner ${match.user.id}:`, matchMessage2);
+    if (!connections.sendToUser(match.user.id, matchMessage2)) {
+      console.log(`Warning: Could not find partner socket for user ${match.user.id}`);
+    }
+  }
+
+  /**
+   * Claims the best-ranked candidate that is still waiting. Returns
+   * undefined if all of them were taken, or null if the requester was itself
+   * paired by a concurrent match in the meantime and should stop looking.
+   */
+  async function claimFirstAvailable(
+    userId: string,
+    chatType: ChatType,
+    matches: ScoredMatch[]
+  ): Promise<ScoredMatch | undefined | null> {
+    for (const match of matches) {
+      if (await storage.claimPartner(userId, match.user.id, chatType)) {
+        return match;
+      }
+      const self = await storage.getOnlineUser(userId);
+      if (!self?.isWaiting) {
+        return null;
+      }
+    }
+    return undefined;
+  }
+
+  async function handleGetQueueStatus({ ws, message }: ContextOf<'get_queue_status'>) {
+    const userId = ws.userId!;
+    const { chatType, interests } = message;
+    
+    try {
+      // Get all waiting users including self for position calculation
+      const allWaitingUsers = await storage.getWaitingUsers(chatType, interests);
+      const position = allWaitingUsers.findIndex(user => user.id === userId) + 1;
+      const estimatedWait = Math.max(10, position * 15); // 15 seconds per position
+      
+      sendFrame(ws, {
+        type: 'queue_status',
+        position: position || 0,
+        totalWaiting: allWaitingUsers.length,
+        estimatedWaitTime: estimatedWait,
+        chatType
+      });
+    } catch (error) {
+      console.error('Error getting queue status:', error);
+      sendFrame(ws, { 
+        type: 'error', 
+        message: 'Failed to get queue status' 
+      });
+    }
+  }
+
+  // Broadcast queue updates to all waiting users
+  async function broadcastQueueUpdates(chatType: ChatType, interests: string[] = []) {
+    try {
+      const waitingUsers = await storage.getWaitingUsers(chatType, interests, undefined); // No userId needed for broadcast
+      
+      for (let i = 0; i < waitingUsers.length; i++) {
+        const user = waitingUsers[i];
+        const estimatedWait = Math.max(10, (i + 1) * 15);
+        connections.sendToUser(user.id, {
+          type: 'queue_status',
+          position: i + 1,
+          totalWaiting: waitingUsers.length,
+          estimatedWaitTime: estimatedWait,
+          chatType
+        });
+      }
+    } catch (error) {
+      console.error('Error broadcasting queue updates:', error);
+    }
+  }
+
+  // Start periodic queue updates for a user
+  function startQueueUpdates(ws: ClientConnection, chatType: ChatType, interests: string[] = []) {
+    // Send updates every 10 seconds
+    const intervalId = setInterval(async () => {
+      if (ws.readyState !== WebSocket.OPEN || !ws.userId) {
+        clearInterval(intervalId);
+        return;
+      }
+      
+      try {
+        const user = await storage.getOnlineUser(ws.userId);
+        if (!user || !user.isWaiting) {
+          clearInterval(intervalId);
+          return;
+        }
+        
+        const waitingUsers = await storage.getWaitingUsers(chatType, interests, undefined); // No userId needed for position calculation
+        const position = waitingUsers.findIndex(u => u.id === ws.userId) + 1;
+        
+        if (position === 0) {
+          clearInterval(intervalId);
+          return;
+        }
+        
+        sendFrame(ws, {
+          type: 'queue_status',
+          position,
+          totalWaiting: waitingUsers.length,
+          estimatedWaitTime: Math.max(10, position * 15),
+          chatType
+        });
+      } catch (error) {
+        console.error('Error sending queue update:', error);
+        clearInterval(intervalId);
+      }
+    }, 10000); // Update every 10 seconds
+  }
+}
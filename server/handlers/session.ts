@@ -0,0 +1,221 @@
+import { randomUUID } from 'crypto';
+import { PROTOCOL_VERSION, MIN_PROTOCOL_VERSION } from '@shared/protocol';
+import type { OnlineUser } from '@shared/schema';
+import { storage } from '../storage';
+import { rejectIfBanned } from '../enforcement';
+import { issueResumeToken, releaseHold, verifyResumeToken, RESUME_GRACE_SECONDS, RESUMED_ELSEWHERE_CLOSE_CODE } from '../resume';
+import { requireSession, requireUser, type ContextOf, type MessageRouter } from '../message-router';
+import { sendFrame, type ClientConnection, type ConnectionLookup } from '../transport';
+
+// Messages per message_history frame
+const HISTORY_PAGE_SIZE = 50;
+
+// Joining, keep-alives, session recovery and profile updates
+export function registerSessionHandlers(router: MessageRouter, connections: ConnectionLookup): void {
+  router.on('join', handleUserJoin);
+  router.on('heartbeat', handleHeartbeat);
+  router.on('ping', ({ ws }) => sendFrame(ws, { type: 'pong' }));
+  router.on('get_session_recovery', requireUser, handleSessionRecovery);
+  router.on('get_message_history', requireUser, requireSession(), handleMessageHistory);
+  router.on('update_gender', requireUser, requireSession({ optional: true }), handleUpdateGender);
+
+  async function handleUserJoin({ ws, message }: ContextOf<'join'>) {
+    // Clients from before versioning don't send one and speak version 1
+    const clientVersion = message.protocolVersion ?? 1;
+    if (clientVersion < MIN_PROTOCOL_VERSION) {
+      sendFrame(ws, {
+        type: 'error',
+        code: 'unsupported_protocol',
+        message: `Protocol version ${clientVersion} is no longer supported (minimum ${MIN_PROTOCOL_VERSION})`
+      });
+      ws.close(1002, 'Unsupported protocol version');
+      return;
+    }
+    ws.protocolVersion = Math.min(clientVersion, PROTOCOL_VERSION);
+
+    if (message.deviceId) {
+      ws.deviceId = message.deviceId;
+    }
+    if (rejectIfBanned(ws)) return;
+
+    // A valid token for a user still online or within the resume window gets them back
+    const resumableId = message.resumeToken ? verifyResumeToken(message.resumeToken) : null;
+    const resumable = resumableId ? await storage.getOnlineUser(resumableId) : undefined;
+    if (resumable) {
+      await resumeUser(ws, resumable);
+      return;
+    }
+
+    const userId = randomUUID();
+    ws.userId = userId;
+    connections.register(ws);
+
+    console.log(`User ${userId} joined with interests:`, message.interests || []);
+
+    await storage.addOnlineUser({
+      id: userId,
+      socketId: userId, // Using userId as socketId for simplicity
+      deviceId: ws.deviceId,
+      interests: message.interests || [],
+      isWaiting: false,
+      chatType: null,
+    });
+
+    sendFrame(ws, {
+      type: 'user_joined',
+      userId,
+      protocolVersion: ws.protocolVersion,
+      resumeToken: issueResumeToken(userId),
+      resumed: false
+    });
+  }
+
+  // Reattaches a returning user; the client recovers its chat with get_session_recovery
+  async function resumeUser(ws: ClientConnection, user: OnlineUser) {
+    const previous = connections.findByUserId(user.id);
+    ws.userId = user.id;
+    connections.register(ws);
+    releaseHold(user.id);
+
+    // The old connection may not have noticed it's dead yet, or belongs to a duplicated tab
+    if (previous && previous !== ws) {
+      sendFrame(previous, { type: 'error', code: 'resumed_elsewhere', message: 'This chat was resumed in another connection' });
+      previous.close(RESUMED_ELSEWHERE_CLOSE_CODE, 'Resumed elsewhere');
+    }
+
+    console.log(`User ${user.id} resumed`);
+    await storage.updateOnlineUser(user.id, { lastSeen: new Date(), heldUntil: null });
+
+    sendFrame(ws, {
+      type: 'user_joined',
+      userId: user.id,
+      protocolVersion: ws.protocolVersion!,
+      resumeToken: issueResumeToken(user.id),
+      resumed: true
+    });
+
+    const session = await storage.getActiveChatSession(user.id);
+    const partnerId = session && (session.user1Id === user.id ? session.user2Id : session.user1Id);
+    if (partnerId) {
+      connections.sendToUser(partnerId, { type: 'partner_reconnected', partnerId: user.id });
+    }
+  }
+
+  async function handleHeartbeat({ ws, message }: ContextOf<'heartbeat'>) {
+    // Update last seen timestamp
+    if (ws.userId) {
+      await storage.updateOnlineUser(ws.userId, { lastSeen: new Date() });
+    }
+    // Send back the timestamp for latency calculation
+    sendFrame(ws, {
+      type: 'heartbeat_ack',
+      timestamp: message.timestamp || Date.now()
+    });
+  }
+
+  // Handle session recovery
+  async function handleSessionRecovery({ ws, message }: ContextOf<'get_session_recovery'>) {
+    const { sessionId, lastMessageId } = message;
+
+    try {
+      const session = await storage.getChatSession(sessionId);
+
+      // Only a participant can recover a session; a client that lost its
+      // resume token comes back under a new user id and starts over
+      const isParticipant = session && (session.user1Id === ws.userId || session.user2Id === ws.userId);
+
+      if (session && isParticipant && session.status === 'connected') {
+        // Check if partner is still online
+        const partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
+        if (!partnerId) return;
+
+        const partnerSocket = connections.findByUserId(partnerId);
+        // Disconnected but within their resume window
+        const partnerAway = !partnerSocket && !!(await storage.getOnlineUser(partnerId));
+
+        if (partnerSocket || partnerAway) {
+          // Session can be recovered; the partner heard partner_reconnected when we rejoined
+          sendFrame(ws, {
+            type: 'session_recovered',
+            sessionId: session.id,
+            partnerId,
+            chatType: session.type
+          });
+          if (partnerAway) {
+            sendFrame(ws, { type: 'partner_disconnected', partnerId, graceSeconds: RESUME_GRACE_SECONDS });
+          }
+          // What was said since the client last saw the chat
+          await sendHistoryPage(ws, session.id, lastMessageId);
+        } else {
+          // Partner is offline, end session
+          await storage.updateChatSession(sessionId, {
+            status: 'ended',
+            endedAt: new Date()
+          });
+
+          sendFrame(ws, {
+            type: 'session_recovery_failed',
+            reason: 'Partner is offline'
+          });
+        }
+      } else {
+        sendFrame(ws, {
+          type: 'session_recovery_failed',
+          reason: 'Session not found or already ended'
+        });
+      }
+    } catch (error) {
+      console.error('Session recovery error:', error);
+      sendFrame(ws, {
+        type: 'session_recovery_failed',
+        reason: 'Recovery failed'
+      });
+    }
+  }
+
+  async function handleMessageHistory({ ws, message }: ContextOf<'get_message_history'>) {
+    await sendHistoryPage(ws, message.sessionId, message.after);
+  }
+
+  // One page of a session's messages after `after`; the client asks for the next while hasMore
+  async function sendHistoryPage(ws: ClientConnection, sessionId: string, after?: string) {
+    const page = await storage.getMessagesBySession(sessionId, { after, limit: HISTORY_PAGE_SIZE + 1 });
+    sendFrame(ws, {
+      type: 'message_history',
+      sessionId,
+      messages: page.slice(0, HISTORY_PAGE_SIZE),
+      hasMore: page.length > HISTORY_PAGE_SIZE
+    });
+  }
+
+  // Handle gender update during chat
+  async function handleUpdateGender({ ws, message, session, partnerId }: ContextOf<'update_gender'>) {
+    const { gender } = message;
+
+    try {
+      // Update user's gender in storage
+      await storage.updateOnlineUser(ws.userId!, { gender });
+
+      // Send confirmation to user
+      sendFrame(ws, {
+        type: 'gender_updated',
+        gender,
+        message: 'Gender preference updated successfully'
+      });
+
+      // If user is in an active session, notify partner about the change
+      if (session && session.status === 'connected' && partnerId) {
+        connections.sendToUser(partnerId, {
+          type: 'partner_gender_updated',
+          message: 'Partner updated their gender preference'
+        });
+      }
+    } catch (error) {
+      console.error('Gender update error:', error);
+      sendFrame(ws, {
+        type: 'error',
+        message: 'Failed to update gender preference'
+      });
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import type { WebRTCSignal } from '@shared/protocol';
+import { requireSession, requireUser, type ContextOf, type MessageContext, type MessageRouter } from '../message-router';
+import { sendFrame, type ConnectionLookup } from '../transport';
+
+// WebRTC offers, answers and ICE candidates, and E2E chat keys, relayed between session partners
+export function registerSignalingHandlers(router: MessageRouter, connections: ConnectionLookup): void {
+  router.on(
+    ['webrtc_offer', 'webrtc_answer', 'webrtc_ice_candidate', 'webrtc_recovery'],
+    requireUser,
+    requireSession(),
+    handleWebRTCSignaling
+  );
+  router.on('key_exchange', requireUser, requireSession(), handleKeyExchange);
+
+  async function handleWebRTCSignaling({ ws, message, partnerId }: MessageContext<WebRTCSignal>) {
+    const { sessionId, type } = message;
+    console.log(`WebRTC signaling: ${type} from user ${ws.userId} for session ${sessionId}`);
+
+    if (!partnerId) {
+      console.warn(`WebRTC signaling: No partner found for session ${sessionId}`);
+      return;
+    }
+
+    const forwarded = connections.sendToUser(partnerId, {
+      ...message,
+      fromUserId: ws.userId!,
+      timestamp: Date.now()
+    });
+    if (!forwarded) {
+      console.warn(`WebRTC signaling: Partner ${partnerId} not connected`);
+      sendFrame(ws, { type: 'error', message: 'Partner not connected' });
+      return;
+    }
+    console.log(`WebRTC signaling: Forwarded ${type} to partner ${partnerId}`);
+  }
+
+  // Public keys only; the shared secret is derived on the clients
+  async function handleKeyExchange({ ws, message, partnerId }: ContextOf<'key_exchange'>) {
+    if (!partnerId) return;
+
+    const forwarded = connections.sendToUser(partnerId, {
+      type: 'key_exchange',
+      sessionId: message.sessionId,
+      publicKey: message.publicKey,
+      fromUserId: ws.userId!,
+    });
+    if (!forwarded) {
+      sendFrame(ws, { type: 'error', message: 'Partner not connected' });
+    }
+  }
+}
@@ -4,6 +4,7 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { rateLimiter, securityHeaders, logError } from "./middleware";
 import { railwayOptimizer } from "./railway-optimizer";
+import { shutdown } from "./shutdown";
 // import compression from "compression";
 // import helmet from "helmet";
 
@@ -161,4 +162,15 @@ app.use((req, res, next) => {
       log(`Access from mobile: http://<your-ip>:${port}`);
     }
   });
+
+  // Deploys send SIGTERM: drain connections instead of dropping them, then
+  // give polling and SSE clients a moment to collect their last frames
+  const exitGraceMs = parseInt(process.env.SHUTDOWN_GRACE_MS || '2000', 10);
+  const stop = async (signal: string) => {
+    await shutdown.drain(signal);
+    server.close(() => process.exit(0));
+    setTimeout(() => process.exit(0), exitGraceMs);
+  };
+  process.once('SIGTERM', () => stop('SIGTERM'));
+  process.once('SIGINT', () => stop('SIGINT'));
 })();
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { OnlineUser } from '@shared/schema';
+import { arePreferencesCompatible } from './match-preferences';
+
+function waitingUser(id: string, fields: Partial<OnlineUser>): OnlineUser {
+  return {
+    id,
+    socketId: id,
+    deviceId: null,
+    interests: [],
+    isWaiting: true,
+    chatType: 'text',
+    gender: null,
+    preferences: {},
+    profile: {},
+    waitingSince: new Date(),
+    heldUntil: null,
+    lastSeen: new Date(),
+    ...fields,
+  };
+}
+
+describe('arePreferencesCompatible', () => {
+  it("checks each side's preferences against the other's profile", () => {
+    const wantsFrench = waitingUser('a', { preferences: { languages: ['fr'] }, profile: { languages: ['en'] } });
+    const speaksFrench = waitingUser('b', { profile: { languages: ['fr'] } });
+    const alsoWantsFrench = waitingUser('c', { preferences: { languages: ['fr'] }, profile: { languages: ['de'] } });
+
+    assert.equal(arePreferencesCompatible(wantsFrench, speaksFrench), true);
+    assert.equal(arePreferencesCompatible(speaksFrench, wantsFrench), true);
+    // Same preference, but neither speaks French
+    assert.equal(arePreferencesCompatible(wantsFrench, alsoWantsFrench), false);
+  });
+
+  it('applies region preferences in both directions', () => {
+    const inEurope = waitingUser('a', { profile: { region: 'europe' } });
+    const wantsAsia = waitingUser('b', { preferences: { region: 'asia' }, profile: { region: 'europe' } });
+    const wantsEurope = waitingUser('c', { preferences: { region: 'europe' }, profile: { region: 'asia' } });
+
+    assert.equal(arePreferencesCompatible(inEurope, wantsAsia), false);
+    assert.equal(arePreferencesCompatible(wantsAsia, inEurope), false);
+    assert.equal(arePreferencesCompatible(inEurope, wantsEurope), true);
+    assert.equal(arePreferencesCompatible(wantsAsia, wantsEurope), true);
+  });
+});
@@ -0,0 +1,41 @@
+import type { OnlineUser } from '@shared/schema';
+import type { Gender, PartnerPreferences } from '@shared/protocol';
+
+// Seconds in the queue after which a user's own preferences stop being
+// enforced, so nobody waits forever for a rare combination; 0 never relaxes
+export const PREFERENCE_RELAX_SECONDS = parseInt(process.env.MATCH_PREFERENCE_RELAX_SECONDS || '30', 10);
+
+export function hasPreferences(preferences: PartnerPreferences | null | undefined): boolean {
+  return !!(preferences?.genders?.length || preferences?.languages?.length || preferences?.region);
+}
+
+// Whether the user's preferences still act as hard filters
+export function preferencesEnforced(user: OnlineUser, now = Date.now()): boolean {
+  if (!hasPreferences(user.preferences)) return false;
+  if (PREFERENCE_RELAX_SECONDS <= 0 || !user.waitingSince) return true;
+  return now - user.waitingSince.getTime() < PREFERENCE_RELAX_SECONDS * 1000;
+}
+
+function accepts(preferences: PartnerPreferences, candidate: OnlineUser): boolean {
+  const { genders, languages, region } = preferences;
+  if (genders?.length && !genders.includes(candidate.gender as Gender)) {
+    return false;
+  }
+  if (languages?.length && !candidate.profile?.languages?.some(language => languages.includes(language))) {
+    return false;
+  }
+  if (region && candidate.profile?.region !== region) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether two waiting users may be paired: each one's gender and profile has
+ * to satisfy the other's preferences, except where that side has waited past
+ * the relax window.
+ */
+export function arePreferencesCompatible(a: OnlineUser, b: OnlineUser, now = Date.now()): boolean {
+  return (!preferencesEnforced(a, now) || accepts(a.preferences!, b)) &&
+    (!preferencesEnforced(b, now) || accepts(b.preferences!, a));
+}
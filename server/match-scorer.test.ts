@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { OnlineUser } from '@shared/schema';
+import { DEFAULT_MATCH_WEIGHTS, loadMatchWeights, seededRandom, WeightedMatchScorer } from './match-scorer';
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+function waitingUser(id: string, fields: Partial<OnlineUser> = {}): OnlineUser {
+  return {
+    id,
+    socketId: id,
+    deviceId: null,
+    interests: [],
+    isWaiting: true,
+    chatType: 'text',
+    gender: null,
+    preferences: {},
+    profile: {},
+    waitingSince: new Date(NOW),
+    heldUntil: null,
+    lastSeen: new Date(NOW),
+    ...fields,
+  };
+}
+
+describe('WeightedMatchScorer', () => {
+  it('ranks the candidate with shared interests and the preferred gender first', () => {
+    const scorer = new WeightedMatchScorer({ ...DEFAULT_MATCH_WEIGHTS, waitTime: 0 }, seededRandom(1));
+    const candidates = [
+      waitingUser('cook', { interests: ['cooking'], gender: 'female' }),
+      waitingUser('coder', { interests: ['programming'], gender: 'male' }),
+      waitingUser('gamer', { interests: ['gaming'], gender: 'female' }),
+    ];
+
+    const ranked = scorer.rank(
+      { userId: 'me', interests: ['gaming', 'coding'], preferences: { genders: ['female'] } },
+      candidates,
+      NOW
+    );
+
+    assert.deepEqual(ranked.map(match => match.user.id), ['gamer', 'cook', 'coder']);
+    assert.deepEqual(ranked[0].sharedInterests, ['gaming']);
+    assert.equal(ranked[0].genderMatch, true);
+    assert.equal(ranked[0].quality, 'high');
+  });
+
+  it('repeats the same scores for the same seed', () => {
+    // Only the random factor tells these candidates apart
+    const weights = { ...DEFAULT_MATCH_WEIGHTS, random: 50 };
+    const candidates = ['a', 'b', 'c', 'd'].map(id => waitingUser(id));
+    const rank = (seed: number) =>
+      new WeightedMatchScorer(weights, seededRandom(seed))
+        .rank({ userId: 'me' }, candidates, NOW)
+        .map(({ user, score }) => [user.id, score]);
+
+    assert.deepEqual(rank(42), rank(42));
+    assert.notDeepEqual(rank(42), rank(7));
+  });
+});
+
+describe('loadMatchWeights', () => {
+  it('layers partial overrides over the defaults', () => {
+    const weights = loadMatchWeights({ MATCH_WEIGHTS: '{"interests": 50, "random": 0}' });
+
+    assert.deepEqual(weights, { ...DEFAULT_MATCH_WEIGHTS, interests: 50, random: 0 });
+  });
+
+  for (const [name, json] of [
+    ['malformed JSON', '{"interests": '],
+    ['an unknown weight', '{"intrests": 50}'],
+    ['a negative weight', '{"interests": -1}'],
+    ['a related interest worth more than a shared one', '{"relatedInterest": 2}'],
+  ]) {
+    it(`falls back to the defaults on ${name}`, () => {
+      assert.equal(loadMatchWeights({ MATCH_WEIGHTS: json }), DEFAULT_MATCH_WEIGHTS);
+    });
+  }
+
+  it('falls back to the defaults when the weights file is missing', () => {
+    assert.equal(loadMatchWeights({ MATCH_WEIGHTS_FILE: '/nonexistent/match-weights.json' }), DEFAULT_MATCH_WEIGHTS);
+  });
+});
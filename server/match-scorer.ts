@@ -0,0 +1,174 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import type { OnlineUser } from '@shared/schema';
+import { compareInterests, normalizeInterests } from '@shared/interests';
+import type { Gender, PartnerPreferences } from '@shared/protocol';
+
+const matchWeightsSchema = z.object({
+  interests: z.number().nonnegative(), // scaled by the share of the requester's interests in common
+  noInterests: z.number().nonnegative(), // flat score when the requester gave no interests
+  relatedInterest: z.number().min(0).max(1), // how much of a shared interest a same-category one is worth
+  preferredGender: z.number().nonnegative(), // partner has a gender the requester asked for
+  noGenderPreference: z.number().nonnegative(), // requester accepts any gender
+  waitTime: z.number().nonnegative(), // cap on the wait time bonus
+  waitTimePerMinute: z.number().nonnegative(),
+  connectionQuality: z.number().nonnegative(),
+  random: z.number().nonnegative(), // upper bound of the random tie-breaker
+  // Scores at which a match is reported as "high" or "medium" quality
+  highQualityScore: z.number(),
+  highQualityGenderMatchScore: z.number(),
+  mediumQualityScore: z.number(),
+});
+
+export type MatchWeights = z.infer<typeof matchWeightsSchema>;
+
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  interests: 35,
+  noInterests: 15,
+  relatedInterest: 0.5,
+  preferredGender: 35,
+  noGenderPreference: 20,
+  waitTime: 20,
+  waitTimePerMinute: 4,
+  connectionQuality: 10,
+  random: 5,
+  highQualityScore: 60,
+  highQualityGenderMatchScore: 45,
+  mediumQualityScore: 30,
+};
+
+export interface MatchRequest {
+  userId: string;
+  interests?: string[];
+  preferences?: PartnerPreferences | null;
+}
+
+export interface ScoredMatch {
+  user: OnlineUser;
+  score: number;
+  sharedInterests: string[];
+  waitTime: number; // milliseconds the candidate has been waiting
+  genderMatch: boolean; // partner's gender is one the requester asked for
+  connectionQuality: number; // 0-100
+  quality: 'high' | 'medium' | 'random';
+}
+
+// Ranks waiting users for a match request, best candidate first
+export interface MatchScorer {
+  rank(request: MatchRequest, candidates: OnlineUser[], now?: number): ScoredMatch[];
+}
+
+/**
+ * The default scorer: points for shared interests, a partner gender the
+ * requester asked for, time spent waiting and expected connection quality,
+ * plus a small random factor for variety. Candidates within 5 points of
+ * each other are ordered by who has waited longest.
+ */
+export class WeightedMatchScorer implements MatchScorer {
+  constructor(
+    private weights: MatchWeights = DEFAULT_MATCH_WEIGHTS,
+    private random: () => number = Math.random
+  ) {}
+
+  rank(request: MatchRequest, candidates: OnlineUser[], now = Date.now()): ScoredMatch[] {
+    const matches: ScoredMatch[] = [];
+
+    for (const user of candidates) {
+      // Storage already leaves the requester out; this is a safety net
+      if (user.id === request.userId) {
+        console.error(`🚨 CRITICAL: Found self in filtered users! User ID: ${request.userId}`);
+        continue;
+      }
+      matches.push(this.score(request, user, now));
+    }
+
+    return matches.sort((a, b) => {
+      if (Math.abs(a.score - b.score) < 5) {
+        return b.waitTime - a.waitTime; // If scores are close, prioritize longer waiting
+      }
+      return b.score - a.score;
+    });
+  }
+
+  private score({ interests, preferences }: MatchRequest, user: OnlineUser, now: number): ScoredMatch {
+    const w = this.weights;
+    let score = 0;
+
+    // Synonyms and spelling variants count as shared; "anime" and "manga" as related
+    const requested = normalizeInterests(interests);
+    const { shared: sharedInterests, related } = compareInterests(requested, user.interests);
+    if (requested.length > 0) {
+      score += ((sharedInterests.length + related.length * w.relatedInterest) / requested.length) * w.interests;
+    } else {
+      score += w.noInterests;
+    }
+
+    // Preferences are filtered on before ranking, so a partner outside the
+    // requested genders only gets here once the requester's filters relaxed
+    let genderMatch = false;
+    let connectionQuality: number;
+    if (preferences?.genders?.length) {
+      genderMatch = preferences.genders.includes(user.gender as Gender);
+      score += genderMatch ? w.preferredGender : 0;
+      connectionQuality = genderMatch ? 100 : 60;
+    } else {
+      score += w.noGenderPreference;
+      connectionQuality = 70;
+    }
+
+    const waitingSince = user.waitingSince ?? user.lastSeen;
+    const waitTime = now - (waitingSince?.getTime() || now);
+    score += Math.min(w.waitTime, (waitTime / 60000) * w.waitTimePerMinute);
+    score += (connectionQuality / 100) * w.connectionQuality;
+    score += this.random() * w.random;
+
+    let quality: ScoredMatch['quality'] = 'random';
+    if (score > w.highQualityScore || (score > w.highQualityGenderMatchScore && genderMatch)) {
+      quality = 'high';
+    } else if (score > w.mediumQualityScore || genderMatch) {
+      quality = 'medium';
+    }
+
+    return { user, score, sharedInterests, waitTime, genderMatch, connectionQuality, quality };
+  }
+}
+
+/**
+ * Weights from MATCH_WEIGHTS (inline JSON) or MATCH_WEIGHTS_FILE (path to a
+ * JSON file), layered over the defaults. Either may set only some weights.
+ * Invalid configuration is logged and the defaults are used.
+ */
+export function loadMatchWeights(env: NodeJS.ProcessEnv = process.env): MatchWeights {
+  const source = env.MATCH_WEIGHTS ? 'MATCH_WEIGHTS' : env.MATCH_WEIGHTS_FILE;
+  if (!source) return DEFAULT_MATCH_WEIGHTS;
+
+  try {
+    const json = env.MATCH_WEIGHTS ?? readFileSync(env.MATCH_WEIGHTS_FILE!, 'utf8');
+    const overrides = matchWeightsSchema.partial().strict().parse(JSON.parse(json));
+    console.log(`Match weights loaded from ${source}:`, overrides);
+    return { ...DEFAULT_MATCH_WEIGHTS, ...overrides };
+  } catch (error) {
+    console.error(`Ignoring invalid match weights from ${source}, using defaults:`, error);
+    return DEFAULT_MATCH_WEIGHTS;
+  }
+}
+
+// Deterministic replacement for Math.random (mulberry32), so match outcomes can be reproduced
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const seed = process.env.MATCH_RANDOM_SEED;
+
+// Global match scorer instance
+export const matchScorer: MatchScorer = new WeightedMatchScorer(
+  loadMatchWeights(),
+  seed ? seededRandom(parseInt(seed, 10)) : Math.random
+);
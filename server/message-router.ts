@@ -0,0 +1,175 @@
+import type { ChatSession } from '@shared/schema';
+import {
+  parseClientMessage,
+  type ClientMessage,
+  type ClientMessageOf,
+  type ClientMessageType
+} from '@shared/protocol';
+import { storage } from './storage';
+import { recordViolation } from './middleware';
+import { frameRateLimiter, type FrameRateLimiter } from './rate-limit';
+import { shutdown } from './shutdown';
+import { sendFrame, type ClientConnection } from './transport';
+
+export interface MessageContext<M extends ClientMessage = ClientMessage> {
+  ws: ClientConnection;
+  message: M;
+  session?: ChatSession; // set by requireSession
+  partnerId?: string | null; // the other participant, set by requireSession
+}
+
+export type ContextOf<T extends ClientMessageType> = MessageContext<ClientMessageOf<T>>;
+
+// Middleware calls next() to continue the chain, or replies and returns to stop it
+export type Middleware = (ctx: MessageContext, next: () => Promise<void>) => Promise<void>;
+export type MessageHandler<M extends ClientMessage> = (ctx: MessageContext<M>) => Promise<void> | void;
+
+interface Route<T extends ClientMessageType> {
+  middleware: Middleware[];
+  handler: MessageHandler<ClientMessageOf<T>>;
+}
+
+type RouteTable = { [K in ClientMessageType]?: Route<K> };
+
+/**
+ * Routes validated client frames to the handler registered for their type.
+ * Frames are checked against the shared protocol schema first, then run
+ * through global middleware, the route's own middleware and the handler,
+ * in the order given:
+ *
+ *   router.on('typing', requireUser, requireSession(), handleTyping);
+ */
+export class MessageRouter {
+  private routes: RouteTable = {};
+  private middleware: Middleware[] = [];
+
+  // Middleware that runs for every message type, before route middleware
+  use(...middleware: Middleware[]): this {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  on<T extends ClientMessageType>(
+    type: T | T[],
+    ...chain: [...Middleware[], MessageHandler<ClientMessageOf<T>>]
+  ): this {
+    const middleware = chain.slice(0, -1) as Middleware[];
+    const handler = chain[chain.length - 1] as MessageHandler<ClientMessageOf<T>>;
+
+    for (const messageType of Array.isArray(type) ? type : [type]) {
+      if (this.routes[messageType]) {
+        throw new Error(`A handler for "${messageType}" is already registered`);
+      }
+      this.setRoute(messageType, { middleware, handler });
+    }
+    return this;
+  }
+
+  has(type: ClientMessageType): boolean {
+    return !!this.routes[type];
+  }
+
+  // Narrowed to T for the write: TypeScript can't tie the key and the value together on its own
+  private setRoute<T extends ClientMessageType>(type: T, route: Route<T>): void {
+    (this.routes as { [K in T]?: Route<K> })[type] = route;
+  }
+
+  private getRoute<T extends ClientMessageType>(type: T): Route<T> | undefined {
+    return this.routes[type];
+  }
+
+  async dispatch(ws: ClientConnection, frame: unknown): Promise<void> {
+    const parsed = parseClientMessage(frame);
+    if (!parsed.success) {
+      sendFrame(ws, { type: 'error', code: parsed.code, message: parsed.error, issues: parsed.issues });
+      return;
+    }
+
+    const route = this.getRoute(parsed.message.type);
+    if (!route) {
+      sendFrame(ws, { type: 'error', code: 'unknown_message_type', message: `No handler for "${parsed.message.type}"` });
+      return;
+    }
+
+    const ctx: MessageContext = { ws, message: parsed.message };
+    const chain = [...this.middleware, ...route.middleware];
+    const run = async (index: number): Promise<void> => {
+      if (index < chain.length) {
+        await chain[index](ctx, () => run(index + 1));
+      } else {
+        await route.handler(ctx);
+      }
+    };
+    await run(0);
+  }
+}
+
+// Rejects frames from connections that haven't sent `join` yet
+export const requireUser: Middleware = async ({ ws, message }, next) => {
+  if (!ws.userId) {
+    sendFrame(ws, { type: 'error', code: 'not_joined', message: `Join before sending ${message.type}` });
+    return;
+  }
+  await next();
+};
+
+// Refuses new matchmaking once the server has started draining for shutdown
+export const rejectWhileDraining: Middleware = async ({ ws, message }, next) => {
+  if (shutdown.isDraining) {
+    sendFrame(ws, { type: 'error', code: 'server_draining', message: `Server is restarting, reconnect to ${message.type === 'find_match' ? 'find a match' : 'continue'}` });
+    return;
+  }
+  await next();
+};
+
+// Lets a shutdown drain wait for frames that are still being handled
+export const trackInFlight: Middleware = (_ctx, next) => shutdown.track(next());
+
+/**
+ * Loads the session named by the frame's `sessionId` and checks the sender
+ * belongs to it. With `optional`, frames without a known session still go
+ * through, but a session the sender isn't part of is always refused.
+ */
+export function requireSession({ optional = false } = {}): Middleware {
+  return async (ctx, next) => {
+    const { ws, message } = ctx;
+    const sessionId = 'sessionId' in message ? message.sessionId : undefined;
+    const session = sessionId ? await storage.getChatSession(sessionId) : undefined;
+
+    if (!session) {
+      if (optional) return next();
+      sendFrame(ws, { type: 'error', code: 'session_not_found', message: 'Session not found' });
+      return;
+    }
+    if (session.user1Id !== ws.userId && session.user2Id !== ws.userId) {
+      console.warn(`User ${ws.userId} sent ${message.type} for session ${session.id} they are not part of`);
+      sendFrame(ws, { type: 'error', code: 'not_in_session', message: 'Not authorized for this session' });
+      return;
+    }
+
+    ctx.session = session;
+    ctx.partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
+    await next();
+  };
+}
+
+/**
+ * Throttles frames with per-connection and per-IP token buckets, answering
+ * `rate_limited` with how long to wait. Repeated violations block the IP
+ * and close the connection.
+ */
+export function rateLimit(limiter: FrameRateLimiter = frameRateLimiter): Middleware {
+  return async ({ ws, message }, next) => {
+    const result = limiter.check(ws, message.type);
+    if (result.allowed) {
+      await next();
+      return;
+    }
+
+    sendFrame(ws, { type: 'rate_limited', messageType: message.type, retryAfter: result.retryAfter! });
+    if (result.newViolation && ws.clientIp && recordViolation(ws.clientIp)) {
+      console.log(`Blocking ${ws.clientIp} after repeated rate limit violations`);
+      ws.close(1008, 'Rate limit exceeded');
+    }
+  };
+}
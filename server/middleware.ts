@@ -1,4 +1,6 @@
 import type { Request, Response, NextFunction } from 'express';
+import type { IncomingMessage } from 'http';
+import { timingSafeEqual } from 'crypto';
 
 // Enhanced rate limiter with multiple tiers
 interface RateLimitEntry {
@@ -26,11 +28,13 @@ const rateLimitConfigs: Record<string, RateLimitConfig> = {
     blockDuration: 30 * 60 * 1000, // 30 minutes
     maxViolations: 3
   },
+  // Frames are throttled by token buckets (see rate-limit.ts); this entry
+  // decides when repeated violations block the IP
   websocket: {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 20,
-    blockDuration: 10 * 60 * 1000, // 10 minutes
-    maxViolations: 2
+    blockDuration: parseInt(process.env.WS_RATE_LIMIT_BLOCK_MINUTES || '10', 10) * 60 * 1000,
+    maxViolations: parseInt(process.env.WS_RATE_LIMIT_MAX_VIOLATIONS || '5', 10)
   },
   api: {
     windowMs: 5 * 60 * 1000, // 5 minutes
@@ -100,6 +104,39 @@ export function rateLimiter(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Count a rate limit violation against an IP; once the config's maximum is
+// reached within its window the IP is blocked. Returns true if it now is.
+export function recordViolation(ip: string, configName: keyof typeof rateLimitConfigs = 'websocket'): boolean {
+  const config = rateLimitConfigs[configName];
+  const key = `violations:${configName}:${ip}`;
+  const now = Date.now();
+
+  let entry = rateLimitStore.get(key);
+  if (!entry || entry.resetTime < now) {
+    entry = { count: 0, resetTime: now + config.windowMs, lastRequest: now, violations: 0 };
+    rateLimitStore.set(key, entry);
+  }
+  entry.violations++;
+  entry.lastRequest = now;
+
+  if (entry.violations >= config.maxViolations) {
+    blockedIPs.set(ip, now + config.blockDuration);
+    rateLimitStore.delete(key);
+    return true;
+  }
+  return false;
+}
+
+export function isIPBlocked(ip: string): boolean {
+  const blockUntil = blockedIPs.get(ip);
+  if (!blockUntil) return false;
+  if (blockUntil <= Date.now()) {
+    blockedIPs.delete(ip);
+    return false;
+  }
+  return true;
+}
+
 // Security headers middleware
 export function securityHeaders(req: Request, res: Response, next: NextFunction) {
   // Only apply in production or if explicitly enabled
@@ -146,6 +183,30 @@ export function securityHeaders(req: Request, res: Response, next: NextFunction)
   next();
 }
 
+// Admin authentication via a shared bearer token (ADMIN_TOKEN)
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminToken = process.env.ADMIN_TOKEN;
+
+  // The admin API stays disabled until a token is configured
+  if (!adminToken) {
+    return res.status(503).json({ error: 'Admin API is not configured' });
+  }
+
+  const header = req.get('authorization') || '';
+  const provided = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+
+  const expectedBuffer = Buffer.from(adminToken);
+  const providedBuffer = Buffer.from(provided);
+  const isValid = providedBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(providedBuffer, expectedBuffer);
+
+  if (!isValid) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  next();
+}
+
 // Input sanitization helper
 export function sanitizeInput(input: string): string {
   if (typeof input !== 'string') return '';
@@ -187,6 +248,20 @@ export function validateMessage(content: string, maxLength: number = 5000): {
   return { isValid: true, sanitized };
 }
 
+// Resolve the client IP for upgrade requests, honouring the proxy header
+// the same way Express does with 'trust proxy' set to 1
+export function getClientIp(req: IncomingMessage): string {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const header = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+  if (header) {
+    const hops = header.split(',').map(hop => hop.trim()).filter(Boolean);
+    if (hops.length > 0) {
+      return hops[hops.length - 1];
+    }
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
 // WebSocket connection tracking
 const wsConnectionsByIP = new Map<string, number>();
 
@@ -0,0 +1,304 @@
+import fs from 'fs';
+import path from 'path';
+import { log } from './vite';
+
+export type ModerationAction = 'allow' | 'mask' | 'reject';
+
+export interface ModerationContext {
+  senderId: string;
+  sessionId?: string;
+}
+
+export interface FilterVerdict {
+  action: ModerationAction;
+  rule?: string; // e.g. "blocklist:scam", "contact:url", "flood:repetition"
+  reason?: string;
+  content?: string; // masked content when action is 'mask'
+}
+
+export interface ModerationFilter {
+  name: string;
+  check(content: string, context: ModerationContext): FilterVerdict;
+}
+
+export interface ModerationResult {
+  action: ModerationAction;
+  content: string;
+  rule?: string; // rule that decided the outcome
+  reason?: string;
+  firedRules: string[]; // every rule that matched, in pipeline order
+}
+
+function parseAction(value: string | undefined, fallback: ModerationAction): ModerationAction {
+  return value === 'allow' || value === 'mask' || value === 'reject' ? value : fallback;
+}
+
+function maskRange(content: string, start: number, end: number): string {
+  return content.slice(0, start) + '*'.repeat(end - start) + content.slice(end);
+}
+
+// Common character substitutions, mapped one-to-one so that offsets in the
+// normalized text line up with the original message
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't',
+  '@': 'a', '$': 's',
+};
+
+function normalizeForMatching(content: string): string {
+  let normalized = '';
+  for (const char of content.split('')) {
+    const mapped = LEET_MAP[char] ?? char.toLowerCase();
+    normalized += mapped.length === 1 ? mapped : char;
+  }
+  return normalized;
+}
+
+interface BlocklistEntry {
+  term: string;
+  action: ModerationAction;
+  pattern: RegExp;
+}
+
+/**
+ * Blocklist loaded from a plain text file with one "<action> <term>" per line.
+ * Terms match on word boundaries after leet-speak normalization, and each
+ * letter may be stretched ("scaaam"), so "robot" and "about" stay clean.
+ */
+export class BlocklistFilter implements ModerationFilter {
+  name = 'blocklist';
+  private entries: BlocklistEntry[] = [];
+
+  constructor(private filePath: string) {
+    this.load();
+  }
+
+  load(): void {
+    try {
+      const lines = fs.readFileSync(this.filePath, 'utf-8').split(/\r?\n/);
+      this.entries = lines
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => {
+          const [first, ...rest] = line.split(/\s+/);
+          const hasAction = first === 'mask' || first === 'reject';
+          const term = normalizeForMatching((hasAction ? rest.join(' ') : line).trim());
+          return {
+            term,
+            action: hasAction ? (first as ModerationAction) : 'mask',
+            pattern: this.buildPattern(term),
+          };
+        })
+        .filter(entry => entry.term.length > 0);
+      log(`Loaded ${this.entries.length} blocklist terms from ${this.filePath}`, 'moderation');
+    } catch (error) {
+      log(`Could not load blocklist ${this.filePath}: ${error}`, 'moderation');
+      this.entries = [];
+    }
+  }
+
+  private buildPattern(term: string): RegExp {
+    const body = term
+      .split(/\s+/)
+      .map(word => word
+        .split('')
+        .map(char => `${char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}+`)
+        .join(''))
+      .join('[^a-z0-9]+');
+    return new RegExp(`(?<![a-z0-9])${body}(?![a-z0-9])`, 'g');
+  }
+
+  check(content: string): FilterVerdict {
+    const normalized = normalizeForMatching(content);
+    let masked = content;
+    let maskRule: string | undefined;
+
+    for (const entry of this.entries) {
+      const matches = Array.from(normalized.matchAll(entry.pattern));
+      if (matches.length === 0) continue;
+
+      const rule = `blocklist:${entry.term}`;
+      if (entry.action === 'reject') {
+        return { action: 'reject', rule, reason: 'Message contains blocked content' };
+      }
+      if (entry.action === 'mask') {
+        for (const match of matches) {
+          masked = maskRange(masked, match.index!, match.index! + match[0].length);
+        }
+        maskRule = maskRule || rule;
+      }
+    }
+
+    return maskRule
+      ? { action: 'mask', rule: maskRule, content: masked }
+      : { action: 'allow' };
+  }
+}
+
+const CONTACT_PATTERNS: { rule: string; pattern: RegExp }[] = [
+  { rule: 'email', pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi },
+  {
+    rule: 'url',
+    pattern: /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|me|gg|co|xyz|app|ly|tv|info|biz|link)\b(?:\/\S*)?/gi,
+  },
+  { rule: 'phone', pattern: /\+?\d[\d\s().-]{5,}\d/g },
+];
+
+/**
+ * Detects links, email addresses and phone numbers so strangers can't be
+ * pushed off-platform. The action applied to a match is configurable.
+ */
+export class ContactInfoFilter implements ModerationFilter {
+  name = 'contact';
+
+  constructor(private action: ModerationAction = 'mask') {}
+
+  check(content: string): FilterVerdict {
+    let masked = content;
+    let firstRule: string | undefined;
+
+    for (const { rule, pattern } of CONTACT_PATTERNS) {
+      for (const match of Array.from(masked.matchAll(pattern))) {
+        if (rule === 'phone') {
+          const digits = match[0].replace(/\D/g, '').length;
+          if (digits < 7 || digits > 15) continue;
+        }
+
+        firstRule = firstRule || `contact:${rule}`;
+        if (this.action === 'reject') {
+          return { action: 'reject', rule: firstRule, reason: 'Sharing contact details is not allowed' };
+        }
+        if (this.action === 'mask') {
+          masked = maskRange(masked, match.index!, match.index! + match[0].length);
+        }
+      }
+    }
+
+    if (!firstRule || this.action === 'allow') {
+      return { action: 'allow', rule: firstRule };
+    }
+    return { action: 'mask', rule: firstRule, content: masked };
+  }
+}
+
+/**
+ * Rejects senders who post too many messages, or the same message too many
+ * times, within a sliding window.
+ */
+export class FloodFilter implements ModerationFilter {
+  name = 'flood';
+  private history = new Map<string, { content: string; timestamp: number }[]>();
+
+  constructor(
+    private windowMs: number,
+    private maxMessages: number,
+    private maxRepeats: number
+  ) {
+    setInterval(() => this.cleanup(), this.windowMs);
+  }
+
+  check(content: string, context: ModerationContext): FilterVerdict {
+    const now = Date.now();
+    const key = content.toLowerCase().replace(/\s+/g, ' ').trim();
+    const recent = (this.history.get(context.senderId) || [])
+      .filter(entry => now - entry.timestamp < this.windowMs);
+
+    if (recent.length >= this.maxMessages) {
+      this.history.set(context.senderId, recent);
+      return { action: 'reject', rule: 'flood:rate', reason: 'You are sending messages too quickly' };
+    }
+
+    const repeats = recent.filter(entry => entry.content === key).length;
+    if (repeats >= this.maxRepeats) {
+      this.history.set(context.senderId, recent);
+      return { action: 'reject', rule: 'flood:repetition', reason: 'Please stop repeating the same message' };
+    }
+
+    recent.push({ content: key, timestamp: now });
+    this.history.set(context.senderId, recent);
+    return { action: 'allow' };
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [senderId, entries] of Array.from(this.history.entries())) {
+      if (entries.every(entry => now - entry.timestamp >= this.windowMs)) {
+        this.history.delete(senderId);
+      }
+    }
+  }
+}
+
+/**
+ * Runs chat text through an ordered list of filters. A reject stops the
+ * pipeline; masks are applied in turn so later filters see masked text.
+ */
+export class ModerationPipeline {
+  constructor(private filters: ModerationFilter[]) {}
+
+  moderate(content: string, context: ModerationContext): ModerationResult {
+    let current = content;
+    const firedRules: string[] = [];
+    let maskRule: string | undefined;
+
+    for (const filter of this.filters) {
+      const verdict = filter.check(current, context);
+      if (verdict.rule) {
+        firedRules.push(verdict.rule);
+      }
+
+      if (verdict.action === 'reject') {
+        log(`Rejected message from ${context.senderId}: ${verdict.rule}`, 'moderation');
+        return {
+          action: 'reject',
+          content,
+          rule: verdict.rule,
+          reason: verdict.reason || 'Message contains inappropriate content',
+          firedRules,
+        };
+      }
+
+      if (verdict.action === 'mask' && verdict.content !== undefined) {
+        current = verdict.content;
+        maskRule = maskRule || verdict.rule;
+      }
+    }
+
+    if (maskRule) {
+      return { action: 'mask', content: current, rule: maskRule, firedRules };
+    }
+    return { action: 'allow', content, firedRules };
+  }
+}
+
+function createFilter(name: string): ModerationFilter | undefined {
+  switch (name) {
+    case 'blocklist':
+      return new BlocklistFilter(
+        path.resolve(process.cwd(), process.env.MODERATION_BLOCKLIST_PATH || 'server/moderation-blocklist.txt')
+      );
+    case 'contact':
+      return new ContactInfoFilter(parseAction(process.env.MODERATION_CONTACT_ACTION, 'mask'));
+    case 'flood':
+      return new FloodFilter(
+        parseInt(process.env.MODERATION_FLOOD_WINDOW_MS || '10000', 10),
+        parseInt(process.env.MODERATION_FLOOD_MAX_MESSAGES || '8', 10),
+        parseInt(process.env.MODERATION_FLOOD_MAX_REPEATS || '3', 10)
+      );
+    default:
+      log(`Unknown moderation filter: ${name}`, 'moderation');
+      return undefined;
+  }
+}
+
+// Filters run in the order listed in MODERATION_FILTERS
+const filterNames = (process.env.MODERATION_FILTERS || 'blocklist,contact,flood')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+
+// Global moderation pipeline instance
+export const moderationPipeline = new ModerationPipeline(
+  filterNames
+    .map(createFilter)
+    .filter((filter): filter is ModerationFilter => filter !== undefined)
+);
@@ -1,5 +1,5 @@
 import { log } from './vite';
-import { connectionManager } from './connection-manager';
+import { connectionManager, type ConnectionManager } from './connection-manager';
 import { redisStore } from './redis-store';
 
 interface SystemMetrics {
@@ -13,11 +13,7 @@ interface SystemMetrics {
     usage: number;
     loadAverage: number[];
   };
-  connections: {
-    total: number;
-    active: number;
-    waiting: Record<string, number>;
-  };
+  connections: ReturnType<ConnectionManager['getStats']>;
   redis: {
     connected: boolean;
     stats: Record<string, any>;
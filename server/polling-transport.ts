@@ -0,0 +1,148 @@
+import { randomBytes } from 'crypto';
+import { WebSocket } from 'ws';
+import type { ServerMessage } from '@shared/protocol';
+import type { ClientConnection } from './transport';
+import { log } from './vite';
+
+// How long a poll request is held open waiting for frames
+const POLL_HOLD_MS = parseInt(process.env.POLL_HOLD_MS || '20000', 10);
+// Clients that stop polling for this long are treated as disconnected
+const POLL_CLIENT_TIMEOUT_MS = parseInt(process.env.POLL_CLIENT_TIMEOUT_MS || '90000', 10);
+// Oldest frames are dropped once a mailbox grows past this size
+const POLL_MAILBOX_LIMIT = parseInt(process.env.POLL_MAILBOX_LIMIT || '500', 10);
+
+export interface PollResult {
+  messages: ServerMessage[];
+  cursor: number;
+  closed?: { code: number; reason: string };
+}
+
+/**
+ * Connection for a client on the HTTP long-polling fallback. Outbound frames
+ * are queued in a mailbox with increasing sequence numbers; the client acks
+ * everything up to its cursor on the next poll, so a lost response is simply
+ * redelivered.
+ */
+export class PollingClient implements ClientConnection {
+  connectionId?: string;
+  userId?: string;
+  clientIp?: string;
+  deviceId?: string;
+  readyState: number = WebSocket.OPEN;
+  readonly token = randomBytes(24).toString('hex');
+  lastPolledAt = Date.now();
+  onClose?: () => void;
+
+  private mailbox: { seq: number; frame: ServerMessage }[] = [];
+  private nextSeq = 1;
+  private closeInfo?: { code: number; reason: string };
+  private waiter: (() => void) | null = null;
+
+  constructor(clientIp: string) {
+    this.clientIp = clientIp;
+  }
+
+  send(data: string): void {
+    if (this.readyState !== WebSocket.OPEN) return;
+
+    this.mailbox.push({ seq: this.nextSeq++, frame: JSON.parse(data) });
+    if (this.mailbox.length > POLL_MAILBOX_LIMIT) {
+      this.mailbox.shift();
+      log(`Mailbox for ${this.userId || 'unjoined client'} is full, dropping oldest frame`, 'polling');
+    }
+    this.wake();
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === WebSocket.CLOSED) return;
+
+    this.readyState = WebSocket.CLOSED;
+    this.closeInfo = { code, reason };
+    this.wake();
+    this.onClose?.();
+  }
+
+  get isDrained(): boolean {
+    return this.mailbox.length === 0;
+  }
+
+  // Ack frames up to the cursor, then return what's left, waiting up to
+  // holdMs for something to arrive if the mailbox is empty
+  async poll(cursor: number, holdMs = POLL_HOLD_MS): Promise<PollResult> {
+    this.lastPolledAt = Date.now();
+    this.mailbox = this.mailbox.filter(entry => entry.seq > cursor);
+
+    if (this.mailbox.length === 0 && !this.closeInfo && holdMs > 0) {
+      // Only one poll may wait at a time; release any earlier one
+      this.wake();
+      await new Promise<void>(resolve => {
+        const timeout = setTimeout(() => {
+          if (this.waiter === release) this.waiter = null;
+          resolve();
+        }, holdMs);
+        const release = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+        this.waiter = release;
+      });
+      this.lastPolledAt = Date.now();
+    }
+
+    const last = this.mailbox[this.mailbox.length - 1];
+    return {
+      messages: this.mailbox.map(entry => entry.frame),
+      cursor: last ? last.seq : cursor,
+      closed: this.closeInfo,
+    };
+  }
+
+  private wake(): void {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+}
+
+/**
+ * Registry of long-polling clients keyed by their secret poll token. Lookups by
+ * user id go through the connection manager.
+ */
+export class PollingTransport {
+  private clients = new Map<string, PollingClient>();
+
+  constructor() {
+    setInterval(() => this.expireIdleClients(), Math.min(POLL_CLIENT_TIMEOUT_MS, 30000));
+  }
+
+  createClient(clientIp: string): PollingClient {
+    const client = new PollingClient(clientIp);
+    this.clients.set(client.token, client);
+    return client;
+  }
+
+  get(token: string): PollingClient | undefined {
+    return this.clients.get(token);
+  }
+
+  // Forget a closed client once its final frames have been collected
+  release(client: PollingClient): void {
+    if (client.readyState === WebSocket.CLOSED && client.isDrained) {
+      this.clients.delete(client.token);
+    }
+  }
+
+  private expireIdleClients(): void {
+    const cutoff = Date.now() - POLL_CLIENT_TIMEOUT_MS;
+    for (const client of Array.from(this.clients.values())) {
+      if (client.lastPolledAt < cutoff) {
+        log(`Polling client ${client.userId || 'unjoined'} timed out`, 'polling');
+        client.close(1001, 'Poll timeout');
+        this.clients.delete(client.token);
+      }
+    }
+  }
+}
+
+// Global polling transport instance
+export const pollingTransport = new PollingTransport();
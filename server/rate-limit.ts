@@ -0,0 +1,147 @@
+import type { ClientMessageType } from '@shared/protocol';
+import type { ClientConnection } from './transport';
+
+export type FrameCategory = 'chat' | 'signaling' | 'control';
+
+// Every client message type draws on the budget of one category
+const FRAME_CATEGORIES: Record<ClientMessageType, FrameCategory> = {
+  send_message: 'chat',
+  typing: 'chat',
+  message_read: 'chat',
+  message_reaction: 'chat',
+  webrtc_offer: 'signaling',
+  webrtc_answer: 'signaling',
+  webrtc_ice_candidate: 'signaling',
+  webrtc_recovery: 'signaling',
+  key_exchange: 'signaling',
+  join: 'control',
+  find_match: 'control',
+  next_stranger: 'control',
+  end_chat: 'control',
+  get_queue_status: 'control',
+  get_session_recovery: 'control',
+  get_message_history: 'control',
+  update_gender: 'control',
+  heartbeat: 'control',
+  ping: 'control',
+};
+
+interface Budget {
+  burst: number; // bucket capacity
+  perSecond: number; // refill rate
+}
+
+const BUDGETS: Record<FrameCategory, Budget> = {
+  chat: {
+    burst: parseInt(process.env.RATE_LIMIT_CHAT_BURST || '20', 10),
+    perSecond: parseFloat(process.env.RATE_LIMIT_CHAT_PER_SECOND || '2'),
+  },
+  // ICE gathering sends a burst of candidates when a call starts
+  signaling: {
+    burst: parseInt(process.env.RATE_LIMIT_SIGNALING_BURST || '100', 10),
+    perSecond: parseFloat(process.env.RATE_LIMIT_SIGNALING_PER_SECOND || '10'),
+  },
+  control: {
+    burst: parseInt(process.env.RATE_LIMIT_CONTROL_BURST || '10', 10),
+    perSecond: parseFloat(process.env.RATE_LIMIT_CONTROL_PER_SECOND || '0.5'),
+  },
+};
+
+// An IP may hold several connections, so its buckets are this many times larger
+const IP_BUDGET_MULTIPLIER = parseInt(process.env.RATE_LIMIT_IP_MULTIPLIER || '3', 10);
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  limitedUntil = 0; // set when the bucket first runs dry, to count violations once
+
+  constructor(private capacity: number, private perSecond: number) {
+    this.tokens = capacity;
+  }
+
+  // Milliseconds until a token is available; 0 means one can be taken now
+  waitTime(now: number): number {
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.perSecond);
+    this.updatedAt = now;
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.perSecond) * 1000);
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+
+  get isFull(): boolean {
+    return this.waitTime(Date.now()) === 0 && this.tokens >= this.capacity;
+  }
+}
+
+export interface LimitResult {
+  allowed: boolean;
+  retryAfter?: number; // seconds until the frame would be accepted
+  newViolation?: boolean; // first rejection since the subject was last within budget
+}
+
+/**
+ * Token-bucket limits on inbound frames, per connection and per IP, with a
+ * bucket for each message type sized by its category. A frame is accepted
+ * only if both the connection's and the IP's bucket have a token.
+ */
+export class FrameRateLimiter {
+  private connectionBuckets = new WeakMap<ClientConnection, Map<ClientMessageType, TokenBucket>>();
+  private ipBuckets = new Map<string, Map<ClientMessageType, TokenBucket>>();
+
+  constructor() {
+    setInterval(() => this.cleanup(), 5 * 60 * 1000);
+  }
+
+  check(ws: ClientConnection, type: ClientMessageType): LimitResult {
+    const now = Date.now();
+    const buckets = [this.bucketFor(this.connectionBuckets.get(ws), type, 1, map => this.connectionBuckets.set(ws, map))];
+    if (ws.clientIp) {
+      const ip = ws.clientIp;
+      buckets.push(this.bucketFor(this.ipBuckets.get(ip), type, IP_BUDGET_MULTIPLIER, map => this.ipBuckets.set(ip, map)));
+    }
+
+    const wait = Math.max(...buckets.map(bucket => bucket.waitTime(now)));
+    if (wait === 0) {
+      buckets.forEach(bucket => bucket.take());
+      return { allowed: true };
+    }
+
+    const limited = buckets.filter(bucket => bucket.waitTime(now) > 0);
+    const newViolation = limited.some(bucket => bucket.limitedUntil <= now);
+    limited.forEach(bucket => { bucket.limitedUntil = now + wait; });
+    return { allowed: false, retryAfter: Math.ceil(wait / 1000), newViolation };
+  }
+
+  private bucketFor(
+    buckets: Map<ClientMessageType, TokenBucket> | undefined,
+    type: ClientMessageType,
+    multiplier: number,
+    store: (buckets: Map<ClientMessageType, TokenBucket>) => void
+  ): TokenBucket {
+    if (!buckets) {
+      buckets = new Map();
+      store(buckets);
+    }
+    let bucket = buckets.get(type);
+    if (!bucket) {
+      const budget = BUDGETS[FRAME_CATEGORIES[type]];
+      bucket = new TokenBucket(budget.burst * multiplier, budget.perSecond * multiplier);
+      buckets.set(type, bucket);
+    }
+    return bucket;
+  }
+
+  // Forget IPs whose buckets have all refilled
+  private cleanup(): void {
+    for (const [ip, buckets] of Array.from(this.ipBuckets.entries())) {
+      if (Array.from(buckets.values()).every(bucket => bucket.isFull)) {
+        this.ipBuckets.delete(ip);
+      }
+    }
+  }
+}
+
+// Global frame rate limiter instance
+export const frameRateLimiter = new FrameRateLimiter();
@@ -1,4 +1,5 @@
 import { createClient, RedisClientType } from 'redis';
+import type { OnlineUser } from '@shared/schema';
 import { log } from './vite';
 
 interface SessionData {
@@ -23,8 +24,45 @@ interface UserData {
   ip: string;
 }
 
+// Chat types with a waiting queue; a user is in at most one of them
+const QUEUE_CHAT_TYPES = ['text', 'video'];
+
+// Takes two users out of the queue only if both still wait for the chat type
+const CLAIM_PAIR_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'waiting') ~= ARGV[1] or redis.call('HGET', KEYS[2], 'waiting') ~= ARGV[1] then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'waiting', '')
+redis.call('HSET', KEYS[2], 'waiting', '')
+redis.call('ZREM', KEYS[3], ARGV[2], ARGV[3])
+return 1
+`;
+
+// Removes a presence entry only if it still points at the given instance
+const CLEAR_PRESENCE_SCRIPT = `
+if redis.call('HGET', KEYS[1], ARGV[1]) == ARGV[2] then
+  return redis.call('HDEL', KEYS[1], ARGV[1])
+end
+return 0
+`;
+
+function reviveOnlineUser(data: Record<string, string>): OnlineUser | undefined {
+  if (!data.data) return undefined;
+  const user = JSON.parse(data.data);
+  return {
+    ...user,
+    // The queue field is authoritative; it's cleared atomically when claimed
+    isWaiting: data.waiting !== '' && data.waiting === user.chatType,
+    lastSeen: user.lastSeen ? new Date(user.lastSeen) : null,
+    waitingSince: user.waitingSince ? new Date(user.waitingSince) : null,
+    heldUntil: user.heldUntil ? new Date(user.heldUntil) : null,
+  };
+}
+
 export class RedisStore {
   private client: RedisClientType;
+  private subscriber?: RedisClientType; // pub/sub needs a dedicated connection
+  private connecting?: Promise<void>;
   private isConnected = false;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
@@ -60,21 +98,33 @@ export class RedisStore {
     });
   }
 
-  async connect(): Promise<void> {
-    try {
-      await this.client.connect();
-      this.isConnected = true;
-      log('Redis store connected successfully');
-    } catch (error) {
-      log('Failed to connect to Redis:', error);
-      throw error;
+  // Safe to call from several places; they all share the first attempt
+  connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        try {
+          await this.client.connect();
+          this.isConnected = true;
+          log('Redis store connected successfully');
+        } catch (error) {
+          this.connecting = undefined;
+          log('Failed to connect to Redis:', error);
+          throw error;
+        }
+      })();
     }
+    return this.connecting;
   }
 
   async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.disconnect();
+      this.subscriber = undefined;
+    }
     if (this.isConnected) {
       await this.client.disconnect();
       this.isConnected = false;
+      this.connecting = undefined;
     }
   }
 
@@ -288,6 +338,86 @@ export class RedisStore {
     }
   }
 
+  // Online users shared by every instance. Unlike the methods above these
+  // throw when Redis is unavailable, since matchmaking can't work without it.
+  // `updateQueue` false leaves queue membership alone, so a heartbeat can't
+  // put back a user another instance has just claimed.
+  async saveOnlineUser(user: OnlineUser, updateQueue = true): Promise<void> {
+    const key = `online:${user.id}`;
+    const multi = this.client.multi()
+      .hSet(key, 'data', JSON.stringify(user))
+      .expire(key, 3600)
+      .sAdd('online-users', user.id);
+
+    if (updateQueue) {
+      const waitingFor = user.isWaiting && user.chatType ? user.chatType : '';
+      multi.hSet(key, 'waiting', waitingFor);
+      for (const chatType of QUEUE_CHAT_TYPES) {
+        multi.zRem(`queue:${chatType}`, user.id);
+      }
+      if (waitingFor) {
+        multi.zAdd(`queue:${waitingFor}`, { score: (user.waitingSince ?? new Date()).getTime(), value: user.id });
+      }
+    }
+    await multi.exec();
+  }
+
+  async getOnlineUsers(userIds: string[]): Promise<OnlineUser[]> {
+    if (userIds.length === 0) return [];
+    const multi = this.client.multi();
+    userIds.forEach(userId => multi.hGetAll(`online:${userId}`));
+    const results = await multi.exec() as unknown as Record<string, string>[];
+    return results.map(reviveOnlineUser).filter((user): user is OnlineUser => !!user);
+  }
+
+  async getOnlineUserIds(): Promise<string[]> {
+    return this.client.sMembers('online-users');
+  }
+
+  async removeOnlineUser(userId: string): Promise<void> {
+    const multi = this.client.multi()
+      .del(`online:${userId}`)
+      .sRem('online-users', userId);
+    for (const chatType of QUEUE_CHAT_TYPES) {
+      multi.zRem(`queue:${chatType}`, userId);
+    }
+    await multi.exec();
+  }
+
+  async claimPair(userId: string, partnerId: string, chatType: string): Promise<boolean> {
+    const claimed = await this.client.eval(CLAIM_PAIR_SCRIPT, {
+      keys: [`online:${userId}`, `online:${partnerId}`, `queue:${chatType}`],
+      arguments: [chatType, userId, partnerId],
+    });
+    return claimed === 1;
+  }
+
+  // Which instance each connected user is attached to
+  async setPresence(userId: string, instanceId: string): Promise<void> {
+    await this.client.hSet('presence', userId, instanceId);
+  }
+
+  async clearPresence(userId: string, instanceId: string): Promise<void> {
+    await this.client.eval(CLEAR_PRESENCE_SCRIPT, { keys: ['presence'], arguments: [userId, instanceId] });
+  }
+
+  async getPresence(): Promise<Record<string, string>> {
+    return this.client.hGetAll('presence');
+  }
+
+  // Pub/sub between instances
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(channel, message);
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate();
+      await this.subscriber.connect();
+    }
+    await this.subscriber.subscribe(channel, listener);
+  }
+
   // Statistics
   async getStats(): Promise<Record<string, any>> {
     if (!this.isConnected) return {};
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { expireOrphanedHolds } from './resume';
+import { storage } from './storage';
+import { StubConnection, StubConnections } from './test-helpers';
+
+describe('expireOrphanedHolds', () => {
+  it('removes users whose stored hold ran out and ends their chat', async () => {
+    const connections = new StubConnections();
+    const partner = connections.add(new StubConnection(`partner-${crypto.randomUUID()}`));
+    const expiredId = `expired-${crypto.randomUUID()}`;
+    const heldId = `held-${crypto.randomUUID()}`;
+    for (const id of [partner.userId!, expiredId, heldId]) {
+      await storage.addOnlineUser({ id, socketId: id });
+    }
+    const session = await storage.createChatSession({ user1Id: expiredId, user2Id: partner.userId!, type: 'text', status: 'connected' });
+    // As left behind by an instance that drained before its hold timers fired
+    await storage.updateOnlineUser(expiredId, { heldUntil: new Date(Date.now() - 1000) });
+    await storage.updateOnlineUser(heldId, { heldUntil: new Date(Date.now() + 60_000) });
+
+    assert.equal(await expireOrphanedHolds(connections), 1);
+
+    assert.equal(await storage.getOnlineUser(expiredId), undefined);
+    assert.ok(await storage.getOnlineUser(heldId));
+    assert.equal((await storage.getChatSession(session.id))?.status, 'ended');
+    assert.equal(partner.framesOf('chat_ended').length, 1);
+  });
+});
@@ -0,0 +1,129 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { storage } from './storage';
+import type { ConnectionLookup } from './transport';
+import { log } from './vite';
+
+// How long a disconnected user keeps their id and chat before being removed
+export const RESUME_GRACE_SECONDS = parseInt(process.env.RESUME_GRACE_SECONDS || '30', 10);
+
+// Sent when a user's connection is replaced by one that resumed with their token
+export const RESUMED_ELSEWHERE_CLOSE_CODE = 4001;
+
+// Tokens are refused after this even if the user never went away
+const RESUME_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Lifetime of the tokens in attachment URLs; a file that already loaded stays shown
+export const ATTACHMENT_TOKEN_TTL_SECONDS = parseInt(process.env.ATTACHMENT_TOKEN_TTL_SECONDS || '900', 10);
+
+// Without a configured secret, tokens only verify on the process that issued them
+const secret = process.env.RESUME_TOKEN_SECRET || randomBytes(32).toString('hex');
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+// Token sent in `user_joined`; presenting it in `join` gets the same user id back
+export function issueResumeToken(userId: string): string {
+  const payload = `${userId}.${Date.now().toString(36)}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+// The user id a token was issued for, or null if it's forged or too old
+export function verifyResumeToken(token: string): string | null {
+  const [userId, issuedAt, signature, ...rest] = token.split('.');
+  if (!userId || !issuedAt || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(`${userId}.${issuedAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  const age = Date.now() - parseInt(issuedAt, 36);
+  return age >= 0 && age <= RESUME_TOKEN_MAX_AGE_MS ? userId : null;
+}
+
+// Token for the URLs of one attachment, so <img> and <video> tags, which can't
+// send headers, never carry the resume token
+export function issueAttachmentToken(userId: string, attachmentId: string): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + ATTACHMENT_TOKEN_TTL_SECONDS * 1000);
+  const payload = `${userId}.${expiresAt.getTime().toString(36)}`;
+  return { token: `${payload}.${sign(`attachment:${attachmentId}.${payload}`)}`, expiresAt };
+}
+
+// The user an attachment token was issued to, or null if it's for another attachment or expired
+export function verifyAttachmentToken(token: string, attachmentId: string): string | null {
+  const [userId, expiresAt, signature, ...rest] = token.split('.');
+  if (!userId || !expiresAt || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(`attachment:${attachmentId}.${userId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  return Date.now() < parseInt(expiresAt, 36) ? userId : null;
+}
+
+const holds = new Map<string, NodeJS.Timeout>(); // userId -> expiry timer
+
+/**
+ * Keeps a disconnected user's id, and their chat if they're in one, for
+ * RESUME_GRACE_SECONDS so a `join` with their resume token can take both
+ * back. The partner hears `partner_disconnected` now and `chat_ended` if
+ * the user doesn't return in time. The end of the window is stored too, so
+ * another instance can expire the hold if this one shuts down first.
+ */
+export async function holdForResume(userId: string, connections: ConnectionLookup): Promise<void> {
+  // Nobody should be matched with a user who isn't there
+  await storage.updateOnlineUser(userId, {
+    isWaiting: false,
+    heldUntil: new Date(Date.now() + RESUME_GRACE_SECONDS * 1000),
+  });
+
+  const session = await storage.getActiveChatSession(userId);
+  const partnerId = session && (session.user1Id === userId ? session.user2Id : session.user1Id);
+  if (partnerId) {
+    connections.sendToUser(partnerId, { type: 'partner_disconnected', partnerId: userId, graceSeconds: RESUME_GRACE_SECONDS });
+  }
+
+  releaseHold(userId);
+  const timer = setTimeout(() => {
+    holds.delete(userId);
+    expireHold(userId, connections).catch(error => console.error(`Error removing user ${userId} after resume window:`, error));
+  }, RESUME_GRACE_SECONDS * 1000);
+  timer.unref();
+  holds.set(userId, timer);
+}
+
+// The user resumed on this instance; keep them
+export function releaseHold(userId: string): void {
+  const timer = holds.get(userId);
+  if (timer) {
+    clearTimeout(timer);
+    holds.delete(userId);
+  }
+}
+
+// Expires holds whose timer went away with the instance that set it, e.g. one
+// that drained for a deploy; returns how many users were removed
+export async function expireOrphanedHolds(connections: ConnectionLookup): Promise<number> {
+  const now = Date.now();
+  const orphaned = (await storage.getAllOnlineUsers()).filter(user =>
+    user.heldUntil && user.heldUntil.getTime() <= now && !holds.has(user.id)
+  );
+  for (const user of orphaned) {
+    await expireHold(user.id, connections);
+  }
+  return orphaned.length;
+}
+
+async function expireHold(userId: string, connections: ConnectionLookup): Promise<void> {
+  // Resumed on another instance, which couldn't clear our timer
+  if (connections.findByUserId(userId)) return;
+
+  const session = await storage.getActiveChatSession(userId);
+  await storage.removeOnlineUser(userId);
+  if (session) {
+    await storage.updateChatSession(session.id, { status: 'ended', endedAt: new Date() });
+    const partnerId = session.user1Id === userId ? session.user2Id : session.user1Id;
+    if (partnerId) connections.sendToUser(partnerId, { type: 'chat_ended' });
+  }
+  log(`User ${userId} did not return within ${RESUME_GRACE_SECONDS}s and was removed`, 'resume');
+}
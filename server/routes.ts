@@ -1,18 +1,79 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { WebSocketServer, WebSocket } from "ws";
+import { countInterests, normalizeInterests } from "@shared/interests";
 import { storage } from "./storage";
-import { randomUUID } from "crypto";
 import { 
-  validateMessage, 
   trackWSConnection, 
   untrackWSConnection,
+  isIPBlocked,
+  requireAdmin,
+  getClientIp,
   logError 
 } from "./middleware";
+import { banStore, normalizeIp, isValidIpPrefix, BANNED_CLOSE_CODE } from "./ban-store";
+import { addStrike, disconnectBannedSockets } from "./enforcement";
+import { createMessageRouter } from "./handlers";
+import { pollingTransport } from "./polling-transport";
+import { sseTransport } from "./sse-transport";
+import { sendFrame, type ClientConnection, type ConnectionLookup } from "./transport";
+import { createClusterBus, RemoteConnection, type BanEnvelope, type BusEnvelope } from "./cluster-bus";
+import { connectionManager, type TransportKind } from "./connection-manager";
+import { shutdown } from "./shutdown";
+import { expireOrphanedHolds, holdForResume, issueAttachmentToken, verifyAttachmentToken, verifyResumeToken, RESUME_GRACE_SECONDS } from "./resume";
+import { attachmentStore, isAttachmentExpired, parseByteRange, toAttachment, MAX_ATTACHMENT_BYTES, type StoredAttachment } from "./attachment-store";
+import { processAttachment } from "./attachment-processing";
+
+// Number of trailing session messages attached to a report as evidence
+const REPORT_EVIDENCE_MESSAGES = parseInt(process.env.REPORT_EVIDENCE_MESSAGES || '20', 10);
+
+const BAN_SCOPES = ['ip', 'ip_prefix', 'device'] as const;
+
+// Reconnect hints in server_draining are spread over this window so clients don't return all at once
+const DRAIN_RECONNECT_JITTER_MS = parseInt(process.env.DRAIN_RECONNECT_JITTER_MS || '5000', 10);
+
+// Mime types shown inline; anything else (HTML, SVG, ...) downloads so it can't run on our origin
+const INLINE_ATTACHMENT_TYPE = /^(image\/(png|jpeg|gif|webp)|video\/[\w.+-]+|audio\/[\w.+-]+)$/;
+
+// The user an HTTP request acts for: their resume token as a bearer token.
+// It's never accepted in the URL, where it would end up in logs and history
+function requestUserId(req: Request): string | null {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  return token ? verifyResumeToken(token) : null;
+}
+
+// The attachment in `:id` if the requester is in its chat; otherwise answers
+// with the error and returns null. <img> and <video> tags can't send headers,
+// so they use a `token` query parameter from /api/attachments/:id/token instead
+async function findAttachmentForRequest(req: Request, res: Response): Promise<StoredAttachment | null> {
+  const urlToken = typeof req.query.token === 'string' ? req.query.token : undefined;
+  const userId = requestUserId(req) ?? (urlToken ? verifyAttachmentToken(urlToken, req.params.id) : null);
+  if (!userId) {
+    res.status(401).json({ error: "Missing or invalid token" });
+    return null;
+  }
+
+  const attachment = await attachmentStore.get(req.params.id);
+  const session = attachment ? await storage.getChatSession(attachment.sessionId) : undefined;
+  if (!attachment || isAttachmentExpired(attachment, session)) {
+    if (attachment) await attachmentStore.remove(attachment.id);
+    res.status(404).json({ error: "Attachment not found" });
+    return null;
+  }
+  if (session!.user1Id !== userId && session!.user2Id !== userId) {
+    res.status(403).json({ error: "Not authorized for this attachment" });
+    return null;
+  }
+  return attachment;
+}
 
 interface WebSocketWithUserId extends WebSocket {
+  connectionId?: string;
   userId?: string;
   isAlive?: boolean;
+  clientIp?: string;
+  deviceId?: string;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -64,18 +125,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const onlineUsers = await storage.getAllOnlineUsers();
       const activeUsers = onlineUsers.length;
       
-      // Calculate interest distribution
-      const interestMap = new Map<string, number>();
-      onlineUsers.forEach(user => {
-        user.interests?.forEach(interest => {
-          interestMap.set(interest, (interestMap.get(interest) || 0) + 1);
-        });
-      });
-      
-      const topInterests = Array.from(interestMap.entries())
-        .sort(([,a], [,b]) => b - a)
-        .slice(0, 10)
-        .map(([interest, count]) => ({ interest, count }));
+      // Calculate interest distribution, merging synonyms and spelling variants
+      const topInterests = countInterests(onlineUsers.map(user => user.interests))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 10);
       
       // Calculate chat type distribution
       const textUsers = onlineUsers.filter(u => u.chatType === 'text').length;
@@ -150,7 +203,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         total: memoryUsage.heapTotal / 1024 / 1024,
         percentage: (memoryMB / 512) * 100 // Railway free tier is 512MB
       },
-      connections: wss.clients.size,
+      connections: connectionManager.getStats(),
       version: process.env.npm_package_version || '1.0.0',
       railway: {
         environment: process.env.RAILWAY_ENVIRONMENT || 'development',
@@ -215,30 +268,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const onlineUsers = await storage.getAllOnlineUsers();
       
-      // Count interest frequency
-      const interestCounts = new Map<string, number>();
-      onlineUsers.forEach(user => {
-        user.interests?.forEach(interest => {
-          interestCounts.set(interest, (interestCounts.get(interest) || 0) + 1);
-        });
-      });
+      // Count interest frequency, merging synonyms and spelling variants
+      const interestCounts = countInterests(onlineUsers.map(user => user.interests));
       
       // Get trending interests (top 15)
-      const trendingInterests = Array.from(interestCounts.entries())
-        .sort(([,a], [,b]) => b - a)
+      const trendingInterests = interestCounts
+        .sort((a, b) => b.count - a.count)
         .slice(0, 15)
-        .map(([interest, count]) => ({
+        .map(({ interest, count }) => ({
           interest,
           count,
           trend: count > 5 ? 'hot' : count > 2 ? 'rising' : 'normal'
         }));
       
       // Popular interests (predefined + trending)
-      const popularInterests = [
+      const popularInterests = normalizeInterests([
         'music', 'gaming', 'movies', 'sports', 'anime', 
         'coding', 'art', 'travel', 'books', 'fitness',
         'cooking', 'photography', 'fashion', 'tech', 'memes'
-      ];
+      ]);
       
       res.json({
         trending: trendingInterests,
@@ -270,62 +318,575 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Report user endpoint
   app.post("/api/report", async (req, res) => {
     try {
+      // Reports add strikes, so the reporter has to prove who they are with their resume token
+      const reporterId = requestUserId(req);
+      if (!reporterId) {
+        return res.status(401).json({ error: "Missing or invalid token" });
+      }
+
       const { sessionId, reason, description } = req.body;
+
+      if (!sessionId || !reason) {
+        return res.status(400).json({ error: "sessionId and reason are required" });
+      }
+
+      const session = await storage.getChatSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      // Only the participants can report a chat; the other one is the reported party
+      if (reporterId !== session.user1Id && reporterId !== session.user2Id) {
+        return res.status(403).json({ error: "You were not in this chat" });
+      }
+      const reportedUserId = reporterId === session.user1Id ? session.user2Id : session.user1Id;
+
+      // Only the first report per session counts as a strike against the user
+      const alreadyReported = !!(await storage.getReportBySessionAndReporter(sessionId, reporterId));
+
+      // Keep the last N messages of the session as evidence for moderators
+      const evidence = (await storage.getMessagesBySession(sessionId)).slice(-REPORT_EVIDENCE_MESSAGES);
+
+      const report = await storage.createReport({
+        sessionId,
+        reporterId,
+        reportedUserId,
+        reason: String(reason).slice(0, 200),
+        description: typeof description === 'string' ? description.trim().slice(0, 2000) : '',
+        evidence,
+      });
+
+      console.log('User report queued for moderation:', { reportId: report.id, sessionId, reportedUserId, reason: report.reason });
+
+      if (reportedUserId && !alreadyReported) {
+        const reportedSocket = findSocketByUserId(reportedUserId);
+        await addStrike(connections, reportedSocket, 'report', report.id, { userId: reportedUserId })
+          .catch(error => console.error('Error recording report strike:', error));
+      }
       
-      // Log report for moderation (in production, store in database)
-      console.log('User report:', { sessionId, reason, description, timestamp: new Date() });
-      
-      res.json({ success: true, message: "Report submitted successfully" });
+      res.json({ success: true, reportId: report.id, message: "Report submitted successfully" });
     } catch (error) {
       console.error('Report API error:', error);
       res.status(500).json({ error: "Failed to submit report" });
     }
   });
 
-  // Polling fallback endpoints for serverless compatibility
-  app.post("/api/poll", async (req, res) => {
+  // Chat attachments: uploaded here, then sent in send_message by URL. Only
+  // the two participants of the session a file was sent in can fetch it
+  app.post("/api/attachments", express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES }), async (req, res) => {
     try {
-      const { lastMessageId, timestamp } = req.body;
-      
-      // Get new messages since lastMessageId
-      // This is a simplified implementation - in production you'd store messages in a database
-      const newMessages: any[] = [];
-      
-      // For now, return empty array - this would be implemented with proper message storage
-      res.json({ 
-        messages: newMessages,
-        timestamp: Date.now()
+      const userId = requestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Missing or invalid token" });
+      }
+
+      const { sessionId, filename, mimeType } = req.query;
+      if (typeof sessionId !== 'string' || typeof filename !== 'string' || typeof mimeType !== 'string') {
+        return res.status(400).json({ error: "sessionId, filename and mimeType are required" });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: "Send the file as an application/octet-stream body" });
+      }
+
+      const session = await storage.getChatSession(sessionId);
+      if (!session || session.status !== 'connected' || (session.user1Id !== userId && session.user2Id !== userId)) {
+        return res.status(403).json({ error: "Not in an active chat for this session" });
+      }
+
+      // The stored type comes from the file's bytes; images lose their EXIF here
+      const processed = await processAttachment(req.body, mimeType);
+      if (!processed.accepted) {
+        return res.status(415).json({ error: processed.reason });
+      }
+
+      const attachment = await attachmentStore.save({
+        sessionId,
+        uploaderId: userId,
+        filename: filename.replace(/[\\/\r\n"]/g, '_').slice(0, 255),
+        mimeType: processed.mimeType,
+      }, processed.data, processed.thumbnail);
+      res.status(201).json(toAttachment(attachment));
+    } catch (error) {
+      console.error('Attachment upload error:', error);
+      res.status(500).json({ error: "Failed to store attachment" });
+    }
+  });
+
+  app.get("/api/attachments/:id", async (req, res) => {
+    try {
+      const attachment = await findAttachmentForRequest(req, res);
+      if (!attachment) return;
+
+      const etag = `"${attachment.sha256}"`;
+      const inline = INLINE_ATTACHMENT_TYPE.test(attachment.mimeType);
+      res.set({
+        'Content-Type': attachment.mimeType,
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600',
+        'Accept-Ranges': 'bytes',
+        'ETag': etag,
+      });
+      if (req.headers['if-none-match'] === etag) {
+        return res.status(304).end();
+      }
+
+      const range = parseByteRange(req.headers.range, attachment.size);
+      if (range === null) {
+        res.set('Content-Range', `bytes */${attachment.size}`);
+        return res.status(416).end();
+      }
+      if (range) {
+        res.status(206).set({
+          'Content-Range': `bytes ${range.start}-${range.end}/${attachment.size}`,
+          'Content-Length': String(range.end - range.start + 1),
+        });
+      } else {
+        res.set('Content-Length', String(attachment.size));
+      }
+
+      attachmentStore.read(attachment, range).on('error', error => {
+        console.error('Attachment read error:', error);
+        res.destroy(error);
+      }).pipe(res);
+    } catch (error) {
+      console.error('Attachment download error:', error);
+      res.status(500).json({ error: "Failed to get attachment" });
+    }
+  });
+
+  // Short-lived token for this attachment's URLs; only the resume token can ask for one
+  app.get("/api/attachments/:id/token", async (req, res) => {
+    try {
+      const userId = requestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: "Missing or invalid token" });
+      }
+      const attachment = await findAttachmentForRequest(req, res);
+      if (!attachment) return;
+
+      const { token, expiresAt } = issueAttachmentToken(userId, attachment.id);
+      res.set('Cache-Control', 'no-store').json({ token, expiresAt: expiresAt.toISOString() });
+    } catch (error) {
+      console.error('Attachment token error:', error);
+      res.status(500).json({ error: "Failed to issue attachment token" });
+    }
+  });
+
+  // Small JPEG preview of an image, shown in the chat before the full file loads
+  app.get("/api/attachments/:id/thumbnail", async (req, res) => {
+    try {
+      const attachment = await findAttachmentForRequest(req, res);
+      if (!attachment) return;
+
+      if (!attachment.thumbnail) {
+        return res.status(404).json({ error: "Attachment has no thumbnail" });
+      }
+
+      const etag = `"${attachment.thumbnail.sha256}"`;
+      res.set({
+        'Content-Type': 'image/jpeg',
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600',
+        'ETag': etag,
+      });
+      if (req.headers['if-none-match'] === etag) {
+        return res.status(304).end();
+      }
+
+      res.set('Content-Length', String(attachment.thumbnail.size));
+      attachmentStore.readThumbnail(attachment)!.on('error', error => {
+        console.error('Thumbnail read error:', error);
+        res.destroy(error);
+      }).pipe(res);
+    } catch (error) {
+      console.error('Thumbnail download error:', error);
+      res.status(500).json({ error: "Failed to get thumbnail" });
+    }
+  });
+
+  // Admin moderation API (requires ADMIN_TOKEN)
+  app.use("/api/admin", requireAdmin);
+
+  app.get("/api/admin/reports", async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && req.query.status !== 'all'
+        ? req.query.status
+        : undefined;
+      const reportList = await storage.getReports(status);
+      res.json({ reports: reportList });
+    } catch (error) {
+      console.error('Admin reports error:', error);
+      res.status(500).json({ error: "Failed to get reports" });
+    }
+  });
+
+  app.get("/api/admin/reports/:id", async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      res.json({ report });
+    } catch (error) {
+      console.error('Admin report error:', error);
+      res.status(500).json({ error: "Failed to get report" });
+    }
+  });
+
+  app.post("/api/admin/reports/:id/resolve", async (req, res) => {
+    try {
+      const { status = 'resolved', resolution } = req.body;
+      if (status !== 'resolved' && status !== 'dismissed') {
+        return res.status(400).json({ error: "status must be 'resolved' or 'dismissed'" });
+      }
+
+      const report = await storage.resolveReport(req.params.id, {
+        status,
+        resolution: typeof resolution === 'string' ? resolution.trim() : undefined,
+        resolvedBy: 'admin',
       });
+      if (!report) {
+        return res.status(404).json({ error: "Report not found" });
+      }
+      res.json({ report });
+    } catch (error) {
+      console.error('Admin resolve report error:', error);
+      res.status(500).json({ error: "Failed to resolve report" });
+    }
+  });
+
+  // Full session transcript for reviewing a report
+  app.get("/api/admin/sessions/:sessionId", async (req, res) => {
+    try {
+      const session = await storage.getChatSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      const transcript = await storage.getMessagesBySession(session.id);
+      res.json({ session, messages: transcript });
+    } catch (error) {
+      console.error('Admin session transcript error:', error);
+      res.status(500).json({ error: "Failed to get session transcript" });
+    }
+  });
+
+  app.get("/api/admin/bans", async (_req, res) => {
+    try {
+      const banList = await storage.getBans();
+      res.json({ bans: banList });
+    } catch (error) {
+      console.error('Admin bans error:', error);
+      res.status(500).json({ error: "Failed to get bans" });
+    }
+  });
+
+  app.get("/api/admin/strikes", async (req, res) => {
+    try {
+      const hours = parseInt(String(req.query.hours || '168'), 10) || 168;
+      const strikeList = await storage.getStrikes(new Date(Date.now() - hours * 60 * 60 * 1000));
+      // ?transitions=true narrows the list to strikes that changed a level
+      const filtered = req.query.transitions === 'true'
+        ? strikeList.filter(strike => strike.level !== strike.previousLevel)
+        : strikeList;
+      res.json({ strikes: filtered.slice(0, 500) });
+    } catch (error) {
+      console.error('Admin strikes error:', error);
+      res.status(500).json({ error: "Failed to get strikes" });
+    }
+  });
+
+  app.post("/api/admin/bans", async (req, res) => {
+    try {
+      const { userId, reason, durationMinutes, reportId } = req.body;
+      let { scope, value } = req.body;
+
+      if (!reason || typeof reason !== 'string') {
+        return res.status(400).json({ error: "reason is required" });
+      }
+
+      // Banning a user id resolves to the IP (or device) of their live connection
+      if (userId) {
+        const userSocket = findSocketByUserId(userId);
+        const resolvedValue = scope === 'device' ? userSocket?.deviceId : userSocket?.clientIp;
+        if (!resolvedValue) {
+          return res.status(409).json({ error: "User is no longer connected; ban by IP instead" });
+        }
+        scope = scope === 'device' ? 'device' : 'ip';
+        value = resolvedValue;
+      }
+
+      if (!BAN_SCOPES.includes(scope) || !value || typeof value !== 'string') {
+        return res.status(400).json({ error: `scope must be one of ${BAN_SCOPES.join(', ')} with a value` });
+      }
+      if (scope === 'ip_prefix' && !isValidIpPrefix(value.trim())) {
+        return res.status(400).json({ error: "ip_prefix must be a CIDR range such as 192.168.1.0/24" });
+      }
+
+      const minutes = Number(durationMinutes);
+      const expiresAt = Number.isFinite(minutes) && minutes > 0
+        ? new Date(Date.now() + minutes * 60 * 1000)
+        : null;
+
+      const ban = await storage.createBan({
+        scope,
+        value: value.trim(),
+        reason: reason.trim(),
+        reportId: reportId || null,
+        createdBy: 'admin',
+        expiresAt,
+      });
+      banStore.add(ban);
+
+      if (reportId) {
+        await storage.resolveReport(reportId, {
+          status: 'resolved',
+          resolution: `Banned (${ban.scope}): ${ban.reason}`,
+          resolvedBy: 'admin',
+        });
+      }
+
+      const disconnected = disconnectBannedSockets(connections, ban);
+      console.log('Ban issued:', { banId: ban.id, scope: ban.scope, expiresAt: ban.expiresAt, disconnected });
+
+      res.json({ ban, disconnected });
+    } catch (error) {
+      console.error('Admin create ban error:', error);
+      res.status(500).json({ error: "Failed to create ban" });
+    }
+  });
+
+  app.delete("/api/admin/bans/:id", async (req, res) => {
+    try {
+      const ban = await storage.revokeBan(req.params.id);
+      if (!ban) {
+        return res.status(404).json({ error: "Ban not found" });
+      }
+      banStore.remove(ban.id);
+      res.json({ ban });
+    } catch (error) {
+      console.error('Admin revoke ban error:', error);
+      res.status(500).json({ error: "Failed to revoke ban" });
+    }
+  });
+
+  // Long-polling fallback for clients that can't keep a WebSocket open.
+  // Frames wait in a per-client mailbox; the cursor acks what the client
+  // has already processed.
+  app.post("/api/poll", async (req, res) => {
+    try {
+      const { token, cursor } = req.body;
+
+      // Nothing to deliver until the client has joined through /api/messages
+      if (!token) {
+        return res.json({ messages: [], cursor: 0, timestamp: Date.now() });
+      }
+
+      const client = pollingTransport.get(token);
+      if (!client) {
+        return res.status(401).json({ error: "Unknown poll token" });
+      }
+
+      const result = await client.poll(Number(cursor) || 0);
+      if (result.closed && result.messages.length === 0) {
+        pollingTransport.release(client);
+      }
+
+      res.json({ ...result, timestamp: Date.now() });
     } catch (error) {
       console.error('Poll API error:', error);
       res.status(500).json({ error: "Failed to poll messages" });
     }
   });
 
-  // Send message via polling fallback
+  // Client-to-server frames for the polling fallback, handled exactly like
+  // frames arriving on a WebSocket
   app.post("/api/messages", async (req, res) => {
     try {
-      const message = req.body;
-      
-      // Process message similar to WebSocket handler
-      // This would integrate with your existing message handling logic
-      console.log('Message received via polling:', message);
-      
-      res.json({ success: true, messageId: Date.now().toString() });
+      const { token, ...message } = req.body;
+      let client = token ? pollingTransport.get(token) : undefined;
+
+      if (!client) {
+        if (token) {
+          return res.status(401).json({ error: "Unknown poll token" });
+        }
+        if (message.type !== 'join') {
+          return res.status(401).json({ error: "Send a join message first" });
+        }
+        if (shutdown.isDraining) {
+          return res.status(503).json({ error: "Server is restarting" });
+        }
+
+        const clientIp = normalizeIp(req.ip || 'unknown');
+        const ipBan = banStore.findBan({ ip: clientIp });
+        if (ipBan) {
+          console.log(`Rejected polling client from banned IP: ${clientIp} (ban ${ipBan.id})`);
+          return res.status(403).json(banStore.toMessage(ipBan));
+        }
+        if (isIPBlocked(clientIp)) {
+          return res.status(429).json({ error: "Too many requests" });
+        }
+        if (!trackWSConnection(clientIp)) {
+          console.log(`Polling connection limit exceeded for IP: ${clientIp}`);
+          return res.status(429).json({ error: "Connection limit exceeded" });
+        }
+
+        const newClient = pollingTransport.createClient(clientIp);
+        if (!addConnection(newClient, 'polling', clientIp, req.headers['user-agent'])) {
+          newClient.close(1013, 'Server is full'); // never handed out, so it just expires
+          untrackWSConnection(clientIp);
+          return res.status(503).json({ error: "Server is full" });
+        }
+        newClient.onClose = () => handleDisconnect(newClient);
+        client = newClient;
+        console.log(`New polling client from ${clientIp}`);
+      }
+
+      if (client.readyState !== WebSocket.OPEN) {
+        return res.status(410).json({ error: "Connection closed" });
+      }
+
+      connectionManager.recordActivity(client.connectionId!);
+      await messageRouter.dispatch(client, message);
+      res.json({ success: true, token: client.token, userId: client.userId });
     } catch (error) {
       console.error('Message API error:', error);
       res.status(500).json({ error: "Failed to send message" });
     }
   });
 
+  // Server-Sent Events fallback: frames stream down the GET, client frames
+  // come back through POST with the stream token
+  app.get("/api/events", (req, res) => {
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+    const lastEventId = parseInt(String(req.query.lastEventId || req.headers['last-event-id'] || '0'), 10) || 0;
+
+    // Reconnecting stream: pick up where it left off
+    const existing = token ? sseTransport.get(token) : undefined;
+    if (existing && existing.readyState === WebSocket.OPEN) {
+      existing.attach(res, lastEventId);
+      return;
+    }
+
+    if (shutdown.isDraining) {
+      return res.status(503).json({ error: "Server is restarting" });
+    }
+
+    const clientIp = normalizeIp(req.ip || 'unknown');
+    const ipBan = banStore.findBan({ ip: clientIp });
+    if (!ipBan && isIPBlocked(clientIp)) {
+      return res.status(429).json({ error: "Too many requests" });
+    }
+    if (!ipBan && !trackWSConnection(clientIp)) {
+      console.log(`SSE connection limit exceeded for IP: ${clientIp}`);
+      return res.status(429).json({ error: "Connection limit exceeded" });
+    }
+
+    const client = sseTransport.createClient(clientIp);
+    client.attach(res);
+
+    if (ipBan) {
+      console.log(`Rejected SSE connection from banned IP: ${clientIp} (ban ${ipBan.id})`);
+      client.onClose = () => sseTransport.remove(client);
+      sendFrame(client, banStore.toMessage(ipBan));
+      client.close(BANNED_CLOSE_CODE, 'Banned');
+      return;
+    }
+
+    if (!addConnection(client, 'sse', clientIp, req.headers['user-agent'])) {
+      client.onClose = () => sseTransport.remove(client);
+      client.close(1013, 'Server is full');
+      untrackWSConnection(clientIp);
+      return;
+    }
+    client.onClose = () => {
+      sseTransport.remove(client);
+      handleDisconnect(client);
+    };
+    console.log(`New SSE connection from ${clientIp}`);
+  });
+
+  app.post("/api/events", async (req, res) => {
+    try {
+      const { token, ...message } = req.body;
+      const client = typeof token === 'string' ? sseTransport.get(token) : undefined;
+
+      if (!client) {
+        return res.status(401).json({ error: "Unknown stream token" });
+      }
+      if (client.readyState !== WebSocket.OPEN) {
+        return res.status(410).json({ error: "Connection closed" });
+      }
+
+      connectionManager.recordActivity(client.connectionId!);
+      await messageRouter.dispatch(client, message);
+      res.json({ success: true, userId: client.userId });
+    } catch (error) {
+      console.error('Event API error:', error);
+      res.status(500).json({ error: "Failed to send message" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   // WebSocket Server
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
 
+  // With REDIS_URL set, users connected to other instances are reached through the bus
+  const clusterBus = await createClusterBus();
+  await clusterBus?.start(deliverFromBus);
+  banStore.onChange((banId, revoked) => clusterBus?.broadcast({ kind: 'ban', banId, revoked }));
+
+  // Handlers reach other users through this lookup rather than `wss`
+  const connections: ConnectionLookup = {
+    findByUserId: findSocketByUserId,
+    all: () => connectionManager.getSockets(),
+    register: connection => {
+      connectionManager.updateConnection(connection.connectionId!, { userId: connection.userId });
+      clusterBus?.register(connection.userId!);
+    },
+    sendToUser: (userId, frame) => {
+      if (connectionManager.sendToUser(userId, frame)) return true;
+      const remote = findRemoteConnection(userId);
+      if (!remote) return false;
+      sendFrame(remote, frame);
+      return true;
+    },
+    setWaiting: (userId, chatType) => {
+      const connection = connectionManager.getConnectionByUserId(userId);
+      if (connection) {
+        connectionManager.updateConnection(connection.id, { isWaiting: !!chatType, chatType: chatType ?? undefined });
+      }
+    },
+  };
+  const messageRouter = createMessageRouter(connections);
+
   wss.on('connection', (ws: WebSocketWithUserId, req) => {
-    const clientIp = req.socket.remoteAddress || 'unknown';
+    // A draining instance takes no new clients; they reconnect to another one
+    if (shutdown.isDraining) {
+      ws.close(1012, 'Server restarting');
+      return;
+    }
+
+    const clientIp = normalizeIp(getClientIp(req));
+
+    // Refuse banned IPs before they count against connection limits
+    const ipBan = banStore.findBan({ ip: clientIp });
+    if (ipBan) {
+      console.log(`Rejected WebSocket connection from banned IP: ${clientIp} (ban ${ipBan.id})`);
+      sendFrame(ws, banStore.toMessage(ipBan));
+      ws.close(BANNED_CLOSE_CODE, 'Banned');
+      return;
+    }
     
+    // IPs blocked for rate limit abuse are refused until the block expires
+    if (isIPBlocked(clientIp)) {
+      console.log(`Rejected WebSocket connection from rate-limited IP: ${clientIp}`);
+      ws.close(1008, 'Rate limit exceeded');
+      return;
+    }
+
     // Track connection and enforce limits
     if (!trackWSConnection(clientIp)) {
       console.log(`WebSocket connection limit exceeded for IP: ${clientIp}`);
@@ -333,7 +894,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return;
     }
 
+    if (!addConnection(ws, 'websocket', clientIp, req.headers['user-agent'])) {
+      untrackWSConnection(clientIp);
+      ws.close(1013, 'Server is full');
+      return;
+    }
+
     console.log(`New WebSocket connection from ${clientIp}`);
+    ws.clientIp = clientIp;
 
     // Set up ping/pong for connection health
     ws.isAlive = true;
@@ -346,67 +914,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Limit message size
         const dataString = data.toString();
         if (dataString.length > 100000) { // 100KB limit
-          ws.send(JSON.stringify({ type: 'error', message: 'Message too large' }));
+          sendFrame(ws, { type: 'error', message: 'Message too large' });
           return;
         }
         
-        const message = JSON.parse(dataString);
-        console.log(`WebSocket message received from user ${ws.userId}:`, message.type, message);
-        
-        switch (message.type) {
-          case 'join':
-            await handleUserJoin(ws, message);
-            break;
-          case 'find_match':
-            await handleFindMatch(ws, message);
-            break;
-          case 'send_message':
-            await handleSendMessage(ws, message);
-            break;
-          case 'typing':
-            await handleTyping(ws, message);
-            break;
-          case 'webrtc_offer':
-          case 'webrtc_answer':
-          case 'webrtc_ice_candidate':
-          case 'webrtc_recovery':
-            await handleWebRTCSignaling(ws, message);
-            break;
-          case 'end_chat':
-            await handleEndChat(ws, message);
-            break;
-          case 'next_stranger':
-            await handleNextStranger(ws, message);
-            break;
-          case 'heartbeat':
-            // Update last seen timestamp
-            if (ws.userId) {
-              await storage.updateOnlineUser(ws.userId, { lastSeen: new Date() });
-            }
-            // Send back the timestamp for latency calculation
-            ws.send(JSON.stringify({ 
-              type: 'heartbeat_ack',
-              timestamp: message.timestamp || Date.now()
-            }));
-            break;
-          case 'ping':
-            ws.send(JSON.stringify({ type: 'pong' }));
-            break;
-          case 'get_queue_status':
-            await handleGetQueueStatus(ws, message);
-            break;
-          case 'message_read':
-            await handleMessageRead(ws, message);
-            break;
-          case 'get_session_recovery':
-            await handleSessionRecovery(ws, message);
-            break;
-          case 'update_gender':
-            await handleUpdateGender(ws, message);
-            break;
-          default:
-            ws.send(JSON.stringify({ type: 'error', message: 'Unknown message type' }));
+        let message;
+        try {
+          message = JSON.parse(dataString);
+        } catch {
+          sendFrame(ws, { type: 'error', code: 'invalid_json', message: 'Frame is not valid JSON' });
+          return;
         }
+        // Type only: frame bodies carry chat content
+        console.log(`WebSocket message received from user ${ws.userId}:`, message?.type);
+        connectionManager.recordActivity(ws.connectionId!);
+        
+        await messageRouter.dispatch(ws, message);
       } catch (error) {
         console.error('WebSocket message error:', error);
         logError(error as Error, { 
@@ -414,24 +937,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           messageType: 'websocket'
         });
         if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
+          sendFrame(ws, { type: 'error', code: 'internal_error', message: 'Failed to process message' });
         }
       }
     });
 
     ws.on('close', async () => {
       console.log(`WebSocket connection closed for user ${ws.userId}`);
-      if (ws.userId) {
-        try {
-          await storage.removeOnlineUser(ws.userId);
-          console.log(`User ${ws.userId} disconnected and removed from storage`);
-        } catch (error) {
-          console.error('Error removing user on disconnect:', error);
-        }
-      }
-      // Untrack connection
-      const clientIp = req.socket.remoteAddress || 'unknown';
-      untrackWSConnection(clientIp);
+      await handleDisconnect(ws);
     });
 
     ws.on('error', (error) => {
@@ -439,6 +952,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // On shutdown, warn every client, let in-flight frames finish, then close
+  // with 1012 (service restart). Users are held for resume in storage so their
+  // tokens work on the instance they reconnect to, and any instance removes
+  // them once the hold runs out
+  shutdown.onDrain(async () => {
+    const sockets = connectionManager.getSockets().filter(socket => socket.readyState === WebSocket.OPEN);
+    for (const socket of sockets) {
+      sendFrame(socket, {
+        type: 'server_draining',
+        reconnectAfterMs: Math.floor(Math.random() * DRAIN_RECONNECT_JITTER_MS),
+        message: 'The server is restarting. You will be reconnected shortly.'
+      });
+    }
+
+    await shutdown.flush();
+
+    // This instance's hold timers won't outlive it, so record the holds before going
+    const userIds = sockets.map(socket => socket.userId).filter((userId): userId is string => !!userId);
+    await Promise.all(userIds.map(userId =>
+      holdForResume(userId, connections).catch(error => console.error(`Error holding user ${userId} while draining:`, error))
+    ));
+    await clusterBus?.stop().catch(error => console.error('Error stopping cluster bus:', error));
+
+    for (const socket of sockets) {
+      socket.close(1012, 'Server restarting');
+    }
+    console.log(`Drained ${sockets.length} connections and held ${userIds.length} users for resume`);
+  });
+
   // Set up ping interval to check for dead connections
   const pingInterval = setInterval(() => {
     wss.clients.forEach((ws) => {
@@ -479,781 +1021,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }, 5 * 60 * 1000); // Every 5 minutes
 
-  async function handleUserJoin(ws: WebSocketWithUserId, message: any) {
-    const userId = randomUUID();
-    ws.userId = userId;
-
-    console.log(`User ${userId} joined with interests:`, message.interests || []);
-
-    await storage.addOnlineUser({
-      id: userId,
-      socketId: userId, // Using userId as socketId for simplicity
-      interests: message.interests || [],
-      isWaiting: false,
-      chatType: null,
-    });
-
-    ws.send(JSON.stringify({ type: 'user_joined', userId }));
-  }
-
-  async function handleFindMatch(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) {
-      console.log('handleFindMatch: No userId found for WebSocket');
-      return;
-    }
-
-    const { chatType, interests, gender } = message;
-    console.log(`🔍 User ${ws.userId} looking for ${chatType} match with interests:`, interests, 'gender:', gender);
-    
-    // Update user status with timestamp
-    await storage.updateOnlineUser(ws.userId, {
-      isWaiting: true,
-      chatType,
-      interests,
-      gender,
-    });
-
-    // Enhanced matching algorithm with improved scoring and faster matching
-    // CRITICAL FIX: Pass userId to storage layer to prevent self-matching at source
-    const waitingUsers = await storage.getWaitingUsers(chatType, interests, ws.userId);
-    console.log(`📊 Found ${waitingUsers.length} waiting users for ${chatType} chat (excluding self):`, waitingUsers.map(u => ({ id: u.id, gender: u.gender, interests: u.interests })));
-    
-    if (waitingUsers.length === 0) {
-      console.log(`⏳ No other users waiting for ${chatType} chat. User ${ws.userId} added to queue.`);
-      ws.send(JSON.stringify({ type: 'waiting_for_match' }));
-      return;
-    }
-    
-    // Calculate match score for each user
-    interface MatchScore {
-      user: any;
-      score: number;
-      sharedInterests: string[];
-      waitTime: number;
-      genderMatch: boolean;
-      connectionQuality: number;
-    }
-    
-    const matchScores: MatchScore[] = [];
-    const now = new Date().getTime();
-    
-    for (const user of waitingUsers) {
-      // Double-check: This should never happen now, but keeping as safety
-      if (user.id === ws.userId) {
-        console.error(`🚨 CRITICAL: Found self in filtered users! User ID: ${ws.userId}`);
-        continue;
-      }
-      
-      let score = 0;
-      const userSharedInterests = user.interests?.filter(interest => 
-        interests?.includes(interest)
-      ) || [];
-      
-      // Interest matching score (35 points max) - optimized for better matching
-      if (interests && interests.length > 0) {
-        const interestScore = (userSharedInterests.length / interests.length) * 35;
-        score += interestScore;
-      } else {
-        // Give base score if no interests specified
-        score += 15;
-      }
-      
-      // Enhanced gender-based matching (35 points max)
-      let genderMatch = false;
-      let connectionQuality = 0;
-      if (gender && user.gender) {
-        // Male users prefer female matches, Female users prefer male matches
-        if ((gender === 'male' && user.gender === 'female') || 
-            (gender === 'female' && user.gender === 'male')) {
-          score += 35; // Maximum gender preference bonus
-          genderMatch = true;
-          connectionQuality = 100; // High quality match
-        } else if (gender === 'other' || user.gender === 'other') {
-          score += 25; // Good bonus for 'other' gender
-          connectionQuality = 80;
-        } else {
-          score += 15; // Lower bonus for same gender but still acceptable
-          connectionQuality = 60;
-        }
-      } else {
-        // If gender is not specified, give neutral score
-        score += 20;
-        connectionQuality = 70;
-      }
-      
-      // Wait time bonus (20 points max) - increased for fairness
-      const waitTime = now - (user.lastSeen?.getTime() || now);
-      const waitTimeBonus = Math.min(20, (waitTime / 60000) * 4); // 4 points per minute
-      score += waitTimeBonus;
-      
-      // Connection quality bonus (10 points max)
-      score += (connectionQuality / 100) * 10;
-      
-      // Random factor for variety (5 points max)
-      score += Math.random() * 5;
-      
-      matchScores.push({
-        user,
-        score,
-        sharedInterests: userSharedInterests,
-        waitTime,
-        genderMatch,
-        connectionQuality
-      });
-    }
-    
-    // Sort by score (highest first), then by wait time (longest waiting first)
-    matchScores.sort((a, b) => {
-      if (Math.abs(a.score - b.score) < 5) {
-        return b.waitTime - a.waitTime; // If scores are close, prioritize longer waiting
-      }
-      return b.score - a.score;
-    });
-    
-    const bestMatch = matchScores[0];
-
-    if (bestMatch) {
-      console.log(`🎉 Found match for user ${ws.userId}: ${bestMatch.user.id} with score ${bestMatch.score}`);
-      // Create chat session
-      const session = await storage.createChatSession({
-        user1Id: ws.userId,
-        user2Id: bestMatch.user.id,
-        type: chatType,
-        interests: interests || [],
-        status: 'connected',
-      });
-
-      // Enhanced match quality determination
-      let matchQuality: 'high' | 'medium' | 'random' = 'random';
-      if (bestMatch.score > 60 || (bestMatch.score > 45 && bestMatch.genderMatch)) {
-        matchQuality = 'high';
-      } else if (bestMatch.score > 30 || bestMatch.genderMatch) {
-        matchQuality = 'medium';
-      }
-
-      // Update both users
-      await storage.updateOnlineUser(ws.userId, { isWaiting: false });
-      await storage.updateOnlineUser(bestMatch.user.id, { isWaiting: false });
-
-      // Notify both users with enhanced data
-      const matchMessage1 = {
-        type: 'match_found',
-        sessionId: session.id,
-        partnerId: bestMatch.user.id,
-        sharedInterests: bestMatch.sharedInterests,
-        matchQuality,
-        matchScore: Math.round(bestMatch.score),
-        connectionQuality: Math.round(bestMatch.connectionQuality),
-        partnerGender: bestMatch.user.gender,
-        partnerInterests: bestMatch.user.interests || []
-      };
-      console.log(`Sending match_found to user ${ws.userId}:`, matchMessage1);
-      ws.send(JSON.stringify(matchMessage1));
-
-      // Find partner socket and notify
-      const partnerSocket = findSocketByUserId(bestMatch.user.id);
-      if (partnerSocket) {
-        const matchMessage2 = {
-          type: 'match_found',
-          sessionId: session.id,
-          partnerId: ws.userId,
-          sharedInterests: bestMatch.sharedInterests,
-          matchQuality,
-          matchScore: Math.round(bestMatch.score),
-          connectionQuality: Math.round(bestMatch.connectionQuality),
-          partnerGender: ws.userId ? (await storage.getOnlineUser(ws.userId))?.gender : null,
-          partnerInterests: interests || []
-        };
-        console.log(`Sending match_found to partner ${bestMatch.user.id}:`, matchMessage2);
-        partnerSocket.send(JSON.stringify(matchMessage2));
-      } else {
-        console.log(`Warning: Could not find partner socket for user ${bestMatch.user.id}`);
-      }
-      
-      // Broadcast updated queue status to remaining users
-      broadcastQueueUpdates(chatType, interests);
-    } else {
-      // If there are exactly 2 users waiting, match them immediately
-      const totalWaiting = waitingUsers.length + 1;
-      if (totalWaiting === 2) {
-        console.log(`Only 2 users waiting, matching immediately: ${ws.userId} and ${waitingUsers[0].id}`);
-        
-        const otherUser = waitingUsers[0];
-        
-        // Create chat session
-        const session = await storage.createChatSession({
-          user1Id: ws.userId,
-          user2Id: otherUser.id,
-          type: chatType,
-          interests: interests || [],
-          status: 'connected',
-        });
-
-        // Update both users
-        await storage.updateOnlineUser(ws.userId, { isWaiting: false });
-        await storage.updateOnlineUser(otherUser.id, { isWaiting: false });
-
-        // Notify both users with enhanced data
-        const matchMessage1 = {
-          type: 'match_found',
-          sessionId: session.id,
-          partnerId: otherUser.id,
-          sharedInterests: [],
-          matchQuality: 'random' as const,
-          matchScore: 50,
-          connectionQuality: 70,
-          partnerGender: otherUser.gender,
-          partnerInterests: otherUser.interests || []
-        };
-        ws.send(JSON.stringify(matchMessage1));
-
-        const partnerSocket = findSocketByUserId(otherUser.id);
-        if (partnerSocket) {
-          const currentUser = await storage.getOnlineUser(ws.userId);
-          const matchMessage2 = {
-            type: 'match_found',
-            sessionId: session.id,
-            partnerId: ws.userId,
-            sharedInterests: [],
-            matchQuality: 'random' as const,
-            matchScore: 50,
-            connectionQuality: 70,
-            partnerGender: currentUser?.gender,
-            partnerInterests: interests || []
-          };
-          partnerSocket.send(JSON.stringify(matchMessage2));
-        }
-      } else {
-        // Calculate dynamic wait time based on current queue
-        const estimatedWait = totalWaiting < 5 ? 5 : Math.min(30, totalWaiting * 5);
-        
-        console.log(`⏳ No match found for user ${ws.userId}, waiting in queue. Position: ${totalWaiting}, Wait time: ${estimatedWait}s`);
-        
-        ws.send(JSON.stringify({ 
-          type: 'waiting_for_match',
-          estimatedWaitTime: estimatedWait,
-          queuePosition: totalWaiting,
-          totalInQueue: totalWaiting
-        }));
-        
-        // Send periodic queue updates
-        startQueueUpdates(ws, chatType, interests);
-      }
-    }
-  }
-
-  async function handleSendMessage(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) return;
-
-    const { sessionId, content, attachments = [], hasEmoji = false, messageType = 'text' } = message;
-    
-    // Validate message content - allow empty content if there are attachments
-    if ((!content || content.trim().length === 0) && (!attachments || attachments.length === 0)) {
-      ws.send(JSON.stringify({ 
-        type: 'error', 
-        message: 'Message cannot be empty' 
-      }));
-      return;
-    }
-
-    // Validate and sanitize message content
-    if (content) {
-      const validation = validateMessage(content, 5000);
-      
-      if (!validation.isValid) {
-        ws.send(JSON.stringify({ 
-          type: 'error', 
-          message: validation.error || 'Invalid message content'
-        }));
-        return;
+  // Remove users whose resume hold ran out on an instance that has since gone away
+  const holdSweepInterval = setInterval(async () => {
+    try {
+      const removedCount = await expireOrphanedHolds(connections);
+      if (removedCount > 0) {
+        console.log(`Removed ${removedCount} users whose resume hold expired`);
       }
-      
-      // Use sanitized content
-      message.content = validation.sanitized;
+    } catch (error) {
+      console.error('Error expiring resume holds:', error);
     }
+  }, RESUME_GRACE_SECONDS * 1000);
 
-    // Check for inappropriate content (basic filter) - only check text content
-    if (content) {
-      const inappropriateWords = ['spam', 'bot', 'scam']; // Basic filter
-      const isInappropriate = inappropriateWords.some(word => 
-        content.toLowerCase().includes(word)
-      );
-
-      if (isInappropriate) {
-        ws.send(JSON.stringify({ 
-          type: 'error', 
-          message: 'Message contains inappropriate content' 
-        }));
-        return;
-      }
-    }
-    
+  // Delete attachments whose chat ended long enough ago, every 10 minutes
+  const attachmentSweepInterval = setInterval(async () => {
     try {
-      // Save message
-      const savedMessage = await storage.createMessage({
-        sessionId,
-        senderId: ws.userId,
-        content: content ? content.trim() : '',
-        attachments: attachments || [],
-        hasEmoji: hasEmoji || false,
-      });
-
-      // Get session to find partner
-      const session = await storage.getChatSession(sessionId);
-      if (!session) {
-        ws.send(JSON.stringify({ 
-          type: 'error', 
-          message: 'Session not found' 
-        }));
-        return;
-      }
-
-      const partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
-      if (!partnerId) {
-        ws.send(JSON.stringify({ 
-          type: 'error', 
-          message: 'Partner not found' 
-        }));
-        return;
+      let removedCount = 0;
+      for (const attachment of await attachmentStore.list()) {
+        if (isAttachmentExpired(attachment, await storage.getChatSession(attachment.sessionId))) {
+          await attachmentStore.remove(attachment.id);
+          removedCount++;
+        }
       }
-
-      const partnerSocket = findSocketByUserId(partnerId);
-
-      // Send message to partner
-      if (partnerSocket) {
-        partnerSocket.send(JSON.stringify({
-          type: 'message_received',
-          message: savedMessage,
-          messageType,
-          senderId: ws.userId
-        }));
-        
-        // Send delivery receipt to sender
-        ws.send(JSON.stringify({
-          type: 'message_delivered',
-          messageId: savedMessage.id,
-          timestamp: new Date()
-        }));
+      if (removedCount > 0) {
+        console.log(`Removed ${removedCount} expired attachments`);
       }
-
-      // Confirm to sender
-      ws.send(JSON.stringify({
-        type: 'message_sent',
-        message: savedMessage,
-        messageType,
-        status: partnerSocket ? 'delivered' : 'sent'
-      }));
     } catch (error) {
-      console.error('Error sending message:', error);
-      ws.send(JSON.stringify({ 
-        type: 'error', 
-        message: 'Failed to send message' 
-      }));
+      console.error('Error sweeping attachments:', error);
     }
-  }
-
-  async function handleTyping(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) return;
+  }, 10 * 60 * 1000);
 
-    const { sessionId, isTyping } = message;
-    const session = await storage.getChatSession(sessionId);
-    if (!session) return;
-
-    const partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
-    if (!partnerId) return;
-    const partnerSocket = findSocketByUserId(partnerId);
-
-    if (partnerSocket) {
-      partnerSocket.send(JSON.stringify({
-        type: 'partner_typing',
-        isTyping,
-      }));
-    }
-  }
-
-  async function handleWebRTCSignaling(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) {
-      console.log('WebRTC signaling: No userId found for WebSocket');
-      return;
-    }
-
-    const { sessionId, type, ...signalData } = message;
-    console.log(`WebRTC signaling: ${type} from user ${ws.userId} for session ${sessionId}`);
-    
-    if (!sessionId) {
-      console.warn('WebRTC signaling: No sessionId provided');
-      ws.send(JSON.stringify({ type: 'error', message: 'Session ID required for WebRTC signaling' }));
-      return;
-    }
-
-    const session = await storage.getChatSession(sessionId);
-    if (!session) {
-      console.warn(`WebRTC signaling: Session ${sessionId} not found`);
-      ws.send(JSON.stringify({ type: 'error', message: 'Session not found' }));
-      return;
-    }
-
-    // Validate that the user is part of this session
-    if (session.user1Id !== ws.userId && session.user2Id !== ws.userId) {
-      console.warn(`WebRTC signaling: User ${ws.userId} not authorized for session ${sessionId}`);
-      ws.send(JSON.stringify({ type: 'error', message: 'Not authorized for this session' }));
-      return;
-    }
-
-    const partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
-    if (!partnerId) {
-      console.warn(`WebRTC signaling: No partner found for session ${sessionId}`);
-      return;
-    }
-
-    const partnerSocket = findSocketByUserId(partnerId);
-    if (!partnerSocket) {
-      console.warn(`WebRTC signaling: Partner ${partnerId} not connected`);
-      ws.send(JSON.stringify({ type: 'error', message: 'Partner not connected' }));
-      return;
-    }
-
-    // Add timestamp to the message
-    const signalingMessage = {
-      ...message,
-      fromUserId: ws.userId,
-      timestamp: Date.now()
-    };
-
-    console.log(`WebRTC signaling: Forwarding ${type} to partner ${partnerId}`);
-    partnerSocket.send(JSON.stringify(signalingMessage));
-  }
-
-  async function handleEndChat(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) return;
-
-    const { sessionId } = message;
-    
-    // Update session status
-    await storage.updateChatSession(sessionId, {
-      status: 'ended',
-      endedAt: new Date(),
-    });
-
-    // Get session to find partner
-    const session = await storage.getChatSession(sessionId);
-    if (session) {
-      const partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
-      if (!partnerId) return;
-      const partnerSocket = findSocketByUserId(partnerId);
-
-      if (partnerSocket) {
-        partnerSocket.send(JSON.stringify({ type: 'chat_ended' }));
-      }
+  async function handleDisconnect(ws: ClientConnection) {
+    if (ws.connectionId) {
+      connectionManager.removeConnection(ws.connectionId);
     }
-
-    // Update user status
-    await storage.updateOnlineUser(ws.userId, { isWaiting: false, chatType: null });
-
-    ws.send(JSON.stringify({ type: 'chat_ended' }));
-  }
-
-  async function handleNextStranger(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) return;
-
-    const { sessionId, chatType, interests } = message;
-    
-    // Update session status
-    await storage.updateChatSession(sessionId, {
-      status: 'ended',
-      endedAt: new Date(),
-    });
-
-    // Get session to find partner and notify them
-    const session = await storage.getChatSession(sessionId);
-    if (session) {
-      const partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
-      if (partnerId) {
-        const partnerSocket = findSocketByUserId(partnerId);
-        if (partnerSocket) {
-          partnerSocket.send(JSON.stringify({ type: 'chat_ended' }));
+    // Skipped when the user already resumed on another connection
+    if (ws.userId && !findLocalConnection(ws.userId)) {
+      clusterBus?.unregister(ws.userId);
+      try {
+        // A draining instance has already held its users
+        if (!findRemoteConnection(ws.userId) && !shutdown.isDraining) {
+          await holdForResume(ws.userId, connections);
+          console.log(`User ${ws.userId} disconnected, held ${RESUME_GRACE_SECONDS}s for resume`);
         }
+      } catch (error) {
+        console.error('Error holding user on disconnect:', error);
       }
     }
-
-    // Update user status and find new match (don't send chat_ended to initiating user)
-    await storage.updateOnlineUser(ws.userId, {
-      isWaiting: true,
-      chatType,
-      interests,
-    });
-
-    // Find a new match
-    const waitingUsers = await storage.getWaitingUsers(chatType, interests, ws.userId);
-    const potentialMatch = waitingUsers[0]; // First user since we already filtered out self
-
-    if (potentialMatch) {
-      // Create chat session
-      const newSession = await storage.createChatSession({
-        user1Id: ws.userId,
-        user2Id: potentialMatch.id,
-        type: chatType,
-        interests: interests || [],
-        status: 'connected',
-      });
-
-      // Update both users
-      await storage.updateOnlineUser(ws.userId, { isWaiting: false });
-      await storage.updateOnlineUser(potentialMatch.id, { isWaiting: false });
-
-      // Notify both users
-      ws.send(JSON.stringify({
-        type: 'match_found',
-        sessionId: newSession.id,
-        partnerId: potentialMatch.id,
-      }));
-
-      const partnerSocket = findSocketByUserId(potentialMatch.id);
-      if (partnerSocket) {
-        partnerSocket.send(JSON.stringify({
-          type: 'match_found',
-          sessionId: newSession.id,
-          partnerId: ws.userId,
-        }));
-      }
-    } else {
-      ws.send(JSON.stringify({ type: 'waiting_for_match' }));
+    // Untrack connection
+    if (ws.clientIp) {
+      untrackWSConnection(ws.clientIp);
     }
   }
 
-  async function handleGetQueueStatus(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) return;
-
-    const { chatType, interests } = message;
-    
-    try {
-      // Get all waiting users including self for position calculation
-      const allWaitingUsers = await storage.getWaitingUsers(chatType, interests);
-      const position = allWaitingUsers.findIndex(user => user.id === ws.userId) + 1;
-      const estimatedWait = Math.max(10, position * 15); // 15 seconds per position
-      
-      ws.send(JSON.stringify({
-        type: 'queue_status',
-        position: position || 0,
-        totalWaiting: allWaitingUsers.length,
-        estimatedWaitTime: estimatedWait,
-        chatType
-      }));
-    } catch (error) {
-      console.error('Error getting queue status:', error);
-      ws.send(JSON.stringify({ 
-        type: 'error', 
-        message: 'Failed to get queue status' 
-      }));
-    }
+  function findSocketByUserId(userId: string): ClientConnection | null {
+    return findLocalConnection(userId) || findRemoteConnection(userId);
   }
 
-  // Handle message read receipts
-  async function handleMessageRead(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) return;
+  function findLocalConnection(userId: string): ClientConnection | null {
+    return connectionManager.getConnectionByUserId(userId)?.socket ?? null;
+  }
 
-    const { sessionId, messageId } = message;
-    const session = await storage.getChatSession(sessionId);
-    if (!session) return;
+  function findRemoteConnection(userId: string): ClientConnection | null {
+    const owner = clusterBus?.ownerOf(userId);
+    return clusterBus && owner ? new RemoteConnection(userId, owner, clusterBus) : null;
+  }
 
-    const partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
-    if (!partnerId) return;
-    
-    const partnerSocket = findSocketByUserId(partnerId);
-    if (partnerSocket) {
-      partnerSocket.send(JSON.stringify({
-        type: 'message_read_receipt',
-        messageId,
-        timestamp: new Date()
-      }));
+  // Frames and closes relayed from another instance for one of our users
+  function deliverFromBus(envelope: BusEnvelope | BanEnvelope) {
+    if (envelope.kind === 'ban') {
+      applyRemoteBan(envelope).catch(error => console.error('Error applying ban from another instance:', error));
+      return;
     }
-  }
 
-  // Handle session recovery
-  async function handleSessionRecovery(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) return;
+    const connection = findLocalConnection(envelope.userId);
+    if (!connection) return;
 
-    const { sessionId } = message;
-    
-    try {
-      const session = await storage.getChatSession(sessionId);
-      
-      if (session && session.status === 'connected') {
-        // Check if partner is still online
-        const partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
-        if (!partnerId) return;
-        
-        const partnerSocket = findSocketByUserId(partnerId);
-        
-        if (partnerSocket) {
-          // Session can be recovered
-          ws.send(JSON.stringify({
-            type: 'session_recovered',
-            sessionId: session.id,
-            partnerId,
-            chatType: session.type
-          }));
-          
-          // Notify partner about reconnection
-          partnerSocket.send(JSON.stringify({
-            type: 'partner_reconnected',
-            partnerId: ws.userId
-          }));
-        } else {
-          // Partner is offline, end session
-          await storage.updateChatSession(sessionId, {
-            status: 'ended',
-            endedAt: new Date()
-          });
-          
-          ws.send(JSON.stringify({
-            type: 'session_recovery_failed',
-            reason: 'Partner is offline'
-          }));
-        }
-      } else {
-        ws.send(JSON.stringify({
-          type: 'session_recovery_failed',
-          reason: 'Session not found or already ended'
-        }));
-      }
-    } catch (error) {
-      console.error('Session recovery error:', error);
-      ws.send(JSON.stringify({
-        type: 'session_recovery_failed',
-        reason: 'Recovery failed'
-      }));
+    if (envelope.kind === 'frame') {
+      connection.send(envelope.data);
+    } else {
+      connection.close(envelope.code, envelope.reason);
     }
   }
 
-  // Handle gender update during chat
-  async function handleUpdateGender(ws: WebSocketWithUserId, message: any) {
-    if (!ws.userId) return;
-
-    const { gender, sessionId } = message;
-    
-    try {
-      // Validate gender value
-      if (!['male', 'female', 'other'].includes(gender)) {
-        ws.send(JSON.stringify({ 
-          type: 'error', 
-          message: 'Invalid gender value' 
-        }));
-        return;
-      }
-
-      // Update user's gender in storage
-      await storage.updateOnlineUser(ws.userId, { gender });
-      
-      // Send confirmation to user
-      ws.send(JSON.stringify({
-        type: 'gender_updated',
-        gender,
-        message: 'Gender preference updated successfully'
-      }));
-
-      // If user is in an active session, notify partner about the change
-      if (sessionId) {
-        const session = await storage.getChatSession(sessionId);
-        if (session && session.status === 'connected') {
-          const partnerId = session.user1Id === ws.userId ? session.user2Id : session.user1Id;
-          if (partnerId) {
-            const partnerSocket = findSocketByUserId(partnerId);
-            if (partnerSocket) {
-              partnerSocket.send(JSON.stringify({
-                type: 'partner_gender_updated',
-                message: 'Partner updated their gender preference'
-              }));
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Gender update error:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Failed to update gender preference'
-      }));
+  // A ban issued elsewhere only reaches storage there; reload and close our own connections it covers
+  async function applyRemoteBan({ banId, revoked }: BanEnvelope) {
+    await banStore.refresh();
+    const ban = revoked ? undefined : banStore.get(banId);
+    if (ban) {
+      const disconnected = disconnectBannedSockets(connections, ban);
+      console.log('Ban from another instance:', { banId, disconnected });
     }
   }
 
-  // Broadcast queue updates to all waiting users
-  async function broadcastQueueUpdates(chatType: string, interests: string[] = []) {
+  // Registers a new connection on any transport; false once the instance is full
+  function addConnection(connection: ClientConnection, transport: TransportKind, clientIp: string, userAgent?: string): boolean {
     try {
-      const waitingUsers = await storage.getWaitingUsers(chatType, interests, undefined); // No userId needed for broadcast
-      
-      for (let i = 0; i < waitingUsers.length; i++) {
-        const user = waitingUsers[i];
-        const userSocket = findSocketByUserId(user.id);
-        
-        if (userSocket) {
-          const estimatedWait = Math.max(10, (i + 1) * 15);
-          userSocket.send(JSON.stringify({
-            type: 'queue_status',
-            position: i + 1,
-            totalWaiting: waitingUsers.length,
-            estimatedWaitTime: estimatedWait,
-            chatType
-          }));
-        }
-      }
+      connectionManager.addConnection(randomUUID(), connection, transport, clientIp, userAgent);
+      return true;
     } catch (error) {
-      console.error('Error broadcasting queue updates:', error);
+      console.log(`Refusing ${transport} connection from ${clientIp}: ${(error as Error).message}`);
+      return false;
     }
   }
 
-  // Start periodic queue updates for a user
-  function startQueueUpdates(ws: WebSocketWithUserId, chatType: string, interests: string[] = []) {
-    // Send updates every 10 seconds
-    const intervalId = setInterval(async () => {
-      if (ws.readyState !== WebSocket.OPEN || !ws.userId) {
-        clearInterval(intervalId);
-        return;
-      }
-      
-      try {
-        const user = await storage.getOnlineUser(ws.userId);
-        if (!user || !user.isWaiting) {
-          clearInterval(intervalId);
-          return;
-        }
-        
-        const waitingUsers = await storage.getWaitingUsers(chatType, interests, undefined); // No userId needed for position calculation
-        const position = waitingUsers.findIndex(u => u.id === ws.userId) + 1;
-        
-        if (position === 0) {
-          clearInterval(intervalId);
-          return;
-        }
-        
-        ws.send(JSON.stringify({
-          type: 'queue_status',
-          position,
-          totalWaiting: waitingUsers.length,
-          estimatedWaitTime: Math.max(10, position * 15),
-          chatType
-        }));
-      } catch (error) {
-        console.error('Error sending queue update:', error);
-        clearInterval(intervalId);
-      }
-    }, 10000); // Update every 10 seconds
-  }
-
-  function findSocketByUserId(userId: string): WebSocketWithUserId | null {
-    for (const client of Array.from(wss.clients)) {
-      const wsClient = client as WebSocketWithUserId;
-      if (wsClient.userId === userId && wsClient.readyState === WebSocket.OPEN) {
-        return wsClient;
-      }
-    }
-    return null;
-  }
-
   // Cleanup function for intervals
   httpServer.on('close', () => {
     clearInterval(pingInterval);
     clearInterval(cleanupInterval);
+    clearInterval(holdSweepInterval);
+    clearInterval(attachmentSweepInterval);
+    clusterBus?.stop().catch(error => console.error('Error stopping cluster bus:', error));
   });
 
   return httpServer;
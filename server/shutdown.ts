@@ -0,0 +1,71 @@
+import { log } from './vite';
+
+// Longest a drain waits for in-flight frames to finish before closing anyway
+const DRAIN_TIMEOUT_MS = parseInt(process.env.DRAIN_TIMEOUT_MS || '10000', 10);
+
+type DrainHook = () => Promise<void>;
+
+/**
+ * Graceful shutdown for deploys. Once draining, matchmaking refuses new
+ * requests; the drain hooks registered by the server then warn clients,
+ * wait for frames already being handled, and close every connection.
+ */
+export class ShutdownCoordinator {
+  private draining: Promise<void> | null = null;
+  private hooks: DrainHook[] = [];
+  private inFlight = new Set<Promise<unknown>>();
+
+  get isDraining(): boolean {
+    return this.draining !== null;
+  }
+
+  onDrain(hook: DrainHook): void {
+    this.hooks.push(hook);
+  }
+
+  // Keeps a drain from finishing while `work` is still running
+  track<T>(work: Promise<T>): Promise<T> {
+    this.inFlight.add(work);
+    const settle = () => this.inFlight.delete(work);
+    work.then(settle, settle);
+    return work;
+  }
+
+  // Resolves once everything tracked so far has settled, or after the timeout
+  async flush(timeoutMs = DRAIN_TIMEOUT_MS): Promise<void> {
+    const pending = Array.from(this.inFlight).map(work => work.catch(() => {}));
+    if (pending.length === 0) return;
+
+    log(`Waiting for ${pending.length} in-flight frames`, 'shutdown');
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        log(`Gave up waiting for in-flight frames after ${timeoutMs}ms`, 'shutdown');
+        resolve();
+      }, timeoutMs);
+    });
+    await Promise.race([Promise.all(pending), timeout]);
+    clearTimeout(timer);
+  }
+
+  // Runs the drain hooks once; later calls wait for the same drain
+  drain(reason: string): Promise<void> {
+    if (!this.draining) {
+      log(`Draining connections (${reason})`, 'shutdown');
+      this.draining = (async () => {
+        for (const hook of this.hooks) {
+          try {
+            await hook();
+          } catch (error) {
+            console.error('Drain hook failed:', error);
+          }
+        }
+        log('Drain complete', 'shutdown');
+      })();
+    }
+    return this.draining;
+  }
+}
+
+// Global shutdown coordinator
+export const shutdown = new ShutdownCoordinator();
@@ -0,0 +1,137 @@
+import { randomBytes } from 'crypto';
+import type { Response } from 'express';
+import { WebSocket } from 'ws';
+import type { ClientConnection } from './transport';
+import { log } from './vite';
+
+// How long a dropped stream may take to reconnect before the user is removed
+const SSE_RECONNECT_GRACE_MS = parseInt(process.env.SSE_RECONNECT_GRACE_MS || '15000', 10);
+// Comment lines keep proxies from closing idle streams
+const SSE_KEEPALIVE_MS = parseInt(process.env.SSE_KEEPALIVE_MS || '20000', 10);
+// Recent frames kept so a reconnecting stream can catch up
+const SSE_REPLAY_LIMIT = parseInt(process.env.SSE_REPLAY_LIMIT || '200', 10);
+
+/**
+ * Connection for a client on the Server-Sent Events fallback. Frames go out
+ * as `message` events whose id is a sequence number; when the stream drops,
+ * the client reopens it with its token and last seen id, and anything newer
+ * is replayed.
+ */
+export class SseClient implements ClientConnection {
+  connectionId?: string;
+  userId?: string;
+  clientIp?: string;
+  deviceId?: string;
+  readyState: number = WebSocket.OPEN;
+  readonly token = randomBytes(24).toString('hex');
+  onClose?: () => void;
+
+  private res: Response | null = null;
+  private recent: { seq: number; frame: string }[] = [];
+  private nextSeq = 1;
+  private graceTimer: NodeJS.Timeout | null = null;
+
+  constructor(clientIp: string) {
+    this.clientIp = clientIp;
+  }
+
+  attach(res: Response, lastEventId = 0): void {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+    this.res?.end();
+    this.res = res;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // disable proxy buffering
+    });
+    this.write(`event: ready\ndata: ${JSON.stringify({ token: this.token })}\n\n`);
+
+    for (const entry of this.recent) {
+      if (entry.seq > lastEventId) {
+        this.write(`id: ${entry.seq}\ndata: ${entry.frame}\n\n`);
+      }
+    }
+
+    res.on('close', () => {
+      if (this.res !== res) return;
+      this.res = null;
+      if (this.readyState === WebSocket.OPEN) {
+        this.graceTimer = setTimeout(() => this.close(1001, 'Stream timeout'), SSE_RECONNECT_GRACE_MS);
+      }
+    });
+  }
+
+  send(data: string): void {
+    if (this.readyState !== WebSocket.OPEN) return;
+
+    const seq = this.nextSeq++;
+    this.recent.push({ seq, frame: data });
+    if (this.recent.length > SSE_REPLAY_LIMIT) {
+      this.recent.shift();
+    }
+    this.write(`id: ${seq}\ndata: ${data}\n\n`);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === WebSocket.CLOSED) return;
+
+    this.readyState = WebSocket.CLOSED;
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+    this.write(`event: close\ndata: ${JSON.stringify({ code, reason })}\n\n`);
+    this.res?.end();
+    this.res = null;
+    this.onClose?.();
+  }
+
+  keepAlive(): void {
+    this.write(': keepalive\n\n');
+  }
+
+  private write(chunk: string): void {
+    if (this.res && !this.res.writableEnded) {
+      this.res.write(chunk);
+    }
+  }
+}
+
+/**
+ * Registry of SSE clients keyed by their secret stream token. Lookups by user
+ * id go through the connection manager.
+ */
+export class SseTransport {
+  private clients = new Map<string, SseClient>();
+
+  constructor() {
+    setInterval(() => {
+      for (const client of Array.from(this.clients.values())) {
+        client.keepAlive();
+      }
+    }, SSE_KEEPALIVE_MS);
+  }
+
+  createClient(clientIp: string): SseClient {
+    const client = new SseClient(clientIp);
+    this.clients.set(client.token, client);
+    return client;
+  }
+
+  get(token: string): SseClient | undefined {
+    return this.clients.get(token);
+  }
+
+  remove(client: SseClient): void {
+    this.clients.delete(client.token);
+    log(`SSE client ${client.userId || 'unjoined'} removed`, 'sse');
+  }
+}
+
+// Global SSE transport instance
+export const sseTransport = new SseTransport();
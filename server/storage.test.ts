@@ -0,0 +1,23 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemStorage } from './storage';
+
+describe('MemStorage.claimPartner', () => {
+  it('lets exactly one of many concurrent claims take the same candidate', async () => {
+    const storage = new MemStorage();
+    await storage.addOnlineUser({ id: 'candidate', socketId: 'candidate', isWaiting: true, chatType: 'text' });
+    const requesters = Array.from({ length: 10 }, (_, i) => `requester-${i}`);
+    for (const id of requesters) {
+      await storage.addOnlineUser({ id, socketId: id, isWaiting: true, chatType: 'text' });
+    }
+
+    const results = await Promise.all(requesters.map(id => storage.claimPartner(id, 'candidate', 'text')));
+
+    assert.equal(results.filter(Boolean).length, 1);
+    assert.equal((await storage.getOnlineUser('candidate'))?.isWaiting, false);
+    const losers = requesters.filter((_, i) => !results[i]);
+    for (const id of losers) {
+      assert.equal((await storage.getOnlineUser(id))?.isWaiting, true, `${id} should still be waiting`);
+    }
+  });
+});
@@ -1,8 +1,17 @@
-import { type ChatSession, type InsertChatSession, type Message, type InsertMessage, type OnlineUser, type InsertOnlineUser, chatSessions, messages, onlineUsers } from "@shared/schema";
+import type { MessageReaction } from "@shared/protocol";
+import { type ChatSession, type InsertChatSession, type Message, type InsertMessage, type OnlineUser, type InsertOnlineUser, type Report, type InsertReport, type Ban, type InsertBan, type Strike, type InsertStrike, chatSessions, messages, onlineUsers, reports, bans, strikes } from "@shared/schema";
+import { compareInterests } from "@shared/interests";
 import { randomUUID } from "crypto";
+import type { RedisStore } from "./redis-store";
+import { callPrimary, clusterIpcEnabled } from "./cluster-ipc";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { eq, and, or, desc, ne } from "drizzle-orm";
+import { eq, and, or, desc, asc, ne, gt, isNull, inArray } from "drizzle-orm";
+
+export interface MessagePage {
+  after?: string;
+  limit?: number;
+}
 
 export interface IStorage {
   // Chat sessions
@@ -10,10 +19,16 @@ export interface IStorage {
   getChatSession(id: string): Promise<ChatSession | undefined>;
   updateChatSession(id: string, updates: Partial<ChatSession>): Promise<ChatSession | undefined>;
   deleteChatSession(id: string): Promise<void>;
+  // The connected session a user is in, if any
+  getActiveChatSession(userId: string): Promise<ChatSession | undefined>;
 
   // Messages
   createMessage(message: InsertMessage): Promise<Message>;
-  getMessagesBySession(sessionId: string): Promise<Message[]>;
+  // Oldest first; `after` is the id of the last message the caller already has
+  getMessagesBySession(sessionId: string, page?: MessagePage): Promise<Message[]>;
+  getMessage(id: string): Promise<Message | undefined>;
+  // Sets the user's reaction, replacing any earlier one; null removes it
+  setMessageReaction(messageId: string, userId: string, emoji: string | null): Promise<Message | undefined>;
 
   // Online users
   addOnlineUser(user: InsertOnlineUser): Promise<OnlineUser>;
@@ -21,19 +36,66 @@ export interface IStorage {
   getOnlineUser(id: string): Promise<OnlineUser | undefined>;
   getOnlineUserBySocket(socketId: string): Promise<OnlineUser | undefined>;
   updateOnlineUser(id: string, updates: Partial<OnlineUser>): Promise<OnlineUser | undefined>;
-  getWaitingUsers(chatType: string, interests?: string[]): Promise<OnlineUser[]>;
+  getWaitingUsers(chatType: string, interests?: string[], excludeUserId?: string): Promise<OnlineUser[]>;
+  // Takes both users out of the queue only if both are still waiting for this
+  // chat type; returns false, changing nothing, if either was already claimed
+  claimPartner(userId: string, partnerId: string, chatType: string): Promise<boolean>;
   getAllOnlineUsers(): Promise<OnlineUser[]>;
+
+  // Moderation reports
+  createReport(report: InsertReport): Promise<Report>;
+  getReport(id: string): Promise<Report | undefined>;
+  // The report a user already filed about a session, if any
+  getReportBySessionAndReporter(sessionId: string, reporterId: string): Promise<Report | undefined>;
+  getReports(status?: string): Promise<Report[]>;
+  resolveReport(id: string, resolution: { status: 'resolved' | 'dismissed'; resolution?: string; resolvedBy?: string }): Promise<Report | undefined>;
+
+  // Bans
+  createBan(ban: InsertBan): Promise<Ban>;
+  getBans(): Promise<Ban[]>;
+  getActiveBans(): Promise<Ban[]>;
+  revokeBan(id: string): Promise<Ban | undefined>;
+
+  // Strikes
+  createStrike(strike: InsertStrike): Promise<Strike>;
+  getStrikes(since?: Date): Promise<Strike[]>;
+}
+
+// Most shared interests first, then most interests in the same categories
+function sortByInterestOverlap(users: OnlineUser[], interests: string[]): OnlineUser[] {
+  const overlaps = new Map(users.map(user => [user.id, compareInterests(interests, user.interests)]));
+  return users.sort((a, b) => {
+    const overlapA = overlaps.get(a.id)!;
+    const overlapB = overlaps.get(b.id)!;
+    return (overlapB.shared.length - overlapA.shared.length) || (overlapB.related.length - overlapA.related.length);
+  });
+}
+
+// Oldest first; messages sent in the same millisecond are ordered by id
+function compareMessages(a: Message, b: Message): number {
+  return ((a.timestamp?.getTime() || 0) - (b.timestamp?.getTime() || 0)) || a.id.localeCompare(b.id);
+}
+
+function withReaction(reactions: MessageReaction[] | null, userId: string, emoji: string | null): MessageReaction[] {
+  const others = (reactions ?? []).filter(reaction => reaction.userId !== userId);
+  return emoji ? [...others, { userId, emoji }] : others;
 }
 
 export class MemStorage implements IStorage {
   private chatSessions: Map<string, ChatSession>;
   private messages: Map<string, Message>;
   private onlineUsers: Map<string, OnlineUser>;
+  private reports: Map<string, Report>;
+  private bans: Map<string, Ban>;
+  private strikes: Map<string, Strike>;
 
   constructor() {
     this.chatSessions = new Map();
     this.messages = new Map();
     this.onlineUsers = new Map();
+    this.reports = new Map();
+    this.bans = new Map();
+    this.strikes = new Map();
   }
 
   async createChatSession(insertSession: InsertChatSession): Promise<ChatSession> {
@@ -69,6 +131,12 @@ export class MemStorage implements IStorage {
     this.chatSessions.delete(id);
   }
 
+  async getActiveChatSession(userId: string): Promise<ChatSession | undefined> {
+    return Array.from(this.chatSessions.values()).find(session =>
+      session.status === 'connected' && (session.user1Id === userId || session.user2Id === userId)
+    );
+  }
+
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
     const id = randomUUID();
     const message: Message = {
@@ -78,16 +146,32 @@ export class MemStorage implements IStorage {
       senderId: insertMessage.senderId,
       attachments: insertMessage.attachments ?? null,
       hasEmoji: insertMessage.hasEmoji ?? null,
+      encrypted: insertMessage.encrypted ?? null,
+      replyTo: insertMessage.replyTo ?? null,
+      reactions: [],
       timestamp: new Date(),
     };
     this.messages.set(id, message);
     return message;
   }
 
-  async getMessagesBySession(sessionId: string): Promise<Message[]> {
-    return Array.from(this.messages.values()).filter(
-      message => message.sessionId === sessionId
-    ).sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+  async getMessage(id: string): Promise<Message | undefined> {
+    return this.messages.get(id);
+  }
+
+  async setMessageReaction(messageId: string, userId: string, emoji: string | null): Promise<Message | undefined> {
+    const message = this.messages.get(messageId);
+    if (!message) return undefined;
+    message.reactions = withReaction(message.reactions, userId, emoji);
+    return message;
+  }
+
+  async getMessagesBySession(sessionId: string, { after, limit }: MessagePage = {}): Promise<Message[]> {
+    const sessionMessages = Array.from(this.messages.values())
+      .filter(message => message.sessionId === sessionId)
+      .sort(compareMessages);
+    const start = after ? sessionMessages.findIndex(message => message.id === after) + 1 : 0;
+    return sessionMessages.slice(start, limit === undefined ? undefined : start + limit);
   }
 
   async addOnlineUser(insertUser: InsertOnlineUser): Promise<OnlineUser> {
@@ -95,9 +179,14 @@ export class MemStorage implements IStorage {
       id: insertUser.id,
       gender: insertUser.gender || null,
       socketId: insertUser.socketId,
+      deviceId: insertUser.deviceId || null,
       interests: (insertUser.interests as string[]) || [],
       isWaiting: insertUser.isWaiting || false,
       chatType: insertUser.chatType || null,
+      preferences: {},
+      profile: {},
+      waitingSince: null,
+      heldUntil: null,
       lastSeen: new Date(),
     };
     console.log('Memory: Adding online user:', user.id);
@@ -147,17 +236,138 @@ export class MemStorage implements IStorage {
       return filteredUsers;
     }
 
-    // Sort by number of matching interests (descending)
-    return filteredUsers.sort((a, b) => {
-      const aMatches = a.interests?.filter(interest => interests.includes(interest)).length || 0;
-      const bMatches = b.interests?.filter(interest => interests.includes(interest)).length || 0;
-      return bMatches - aMatches;
-    });
+    return sortByInterestOverlap(filteredUsers, interests);
+  }
+
+  async claimPartner(userId: string, partnerId: string, chatType: string): Promise<boolean> {
+    // No awaits between the check and the update, so concurrent claims can't interleave
+    const pair = [this.onlineUsers.get(userId), this.onlineUsers.get(partnerId)];
+    if (userId === partnerId || pair.some(user => !user || !user.isWaiting || user.chatType !== chatType)) {
+      return false;
+    }
+
+    const now = new Date();
+    for (const user of pair) {
+      this.onlineUsers.set(user!.id, { ...user!, isWaiting: false, lastSeen: now });
+    }
+    return true;
   }
 
   async getAllOnlineUsers(): Promise<OnlineUser[]> {
     return Array.from(this.onlineUsers.values());
   }
+
+  async createReport(insertReport: InsertReport): Promise<Report> {
+    const id = randomUUID();
+    const report: Report = {
+      id,
+      sessionId: insertReport.sessionId,
+      reporterId: insertReport.reporterId || null,
+      reportedUserId: insertReport.reportedUserId || null,
+      reason: insertReport.reason,
+      description: insertReport.description || '',
+      evidence: (insertReport.evidence as Message[]) || [],
+      status: 'pending',
+      resolution: null,
+      resolvedBy: null,
+      createdAt: new Date(),
+      resolvedAt: null,
+    };
+    this.reports.set(id, report);
+    return report;
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    return this.reports.get(id);
+  }
+
+  async getReportBySessionAndReporter(sessionId: string, reporterId: string): Promise<Report | undefined> {
+    return Array.from(this.reports.values())
+      .find(report => report.sessionId === sessionId && report.reporterId === reporterId);
+  }
+
+  async getReports(status?: string): Promise<Report[]> {
+    return Array.from(this.reports.values())
+      .filter(report => !status || report.status === status)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async resolveReport(id: string, resolution: { status: 'resolved' | 'dismissed'; resolution?: string; resolvedBy?: string }): Promise<Report | undefined> {
+    const report = this.reports.get(id);
+    if (!report) return undefined;
+
+    const resolvedReport: Report = {
+      ...report,
+      status: resolution.status,
+      resolution: resolution.resolution || null,
+      resolvedBy: resolution.resolvedBy || null,
+      resolvedAt: new Date(),
+    };
+    this.reports.set(id, resolvedReport);
+    return resolvedReport;
+  }
+
+  async createBan(insertBan: InsertBan): Promise<Ban> {
+    const id = randomUUID();
+    const ban: Ban = {
+      id,
+      scope: insertBan.scope,
+      value: insertBan.value,
+      reason: insertBan.reason,
+      reportId: insertBan.reportId || null,
+      createdBy: insertBan.createdBy || null,
+      createdAt: new Date(),
+      expiresAt: insertBan.expiresAt || null,
+      revokedAt: null,
+    };
+    this.bans.set(id, ban);
+    return ban;
+  }
+
+  async getBans(): Promise<Ban[]> {
+    return Array.from(this.bans.values())
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async getActiveBans(): Promise<Ban[]> {
+    const now = Date.now();
+    return Array.from(this.bans.values()).filter(
+      ban => !ban.revokedAt && (!ban.expiresAt || ban.expiresAt.getTime() > now)
+    );
+  }
+
+  async revokeBan(id: string): Promise<Ban | undefined> {
+    const ban = this.bans.get(id);
+    if (!ban) return undefined;
+
+    const revokedBan = { ...ban, revokedAt: new Date() };
+    this.bans.set(id, revokedBan);
+    return revokedBan;
+  }
+
+  async createStrike(insertStrike: InsertStrike): Promise<Strike> {
+    const id = randomUUID();
+    const strike: Strike = {
+      id,
+      subjectType: insertStrike.subjectType,
+      subjectValue: insertStrike.subjectValue,
+      source: insertStrike.source,
+      detail: insertStrike.detail || null,
+      strikeCount: insertStrike.strikeCount,
+      previousLevel: insertStrike.previousLevel,
+      level: insertStrike.level,
+      banId: insertStrike.banId || null,
+      createdAt: new Date(),
+    };
+    this.strikes.set(id, strike);
+    return strike;
+  }
+
+  async getStrikes(since?: Date): Promise<Strike[]> {
+    return Array.from(this.strikes.values())
+      .filter(strike => !since || strike.createdAt!.getTime() > since.getTime())
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
 }
 
 // Database Storage Implementation
@@ -196,16 +406,59 @@ export class DatabaseStorage implements IStorage {
     await this.db.delete(chatSessions).where(eq(chatSessions.id, id));
   }
 
+  async getActiveChatSession(userId: string): Promise<ChatSession | undefined> {
+    const [session] = await this.db.select()
+      .from(chatSessions)
+      .where(and(
+        eq(chatSessions.status, 'connected'),
+        or(eq(chatSessions.user1Id, userId), eq(chatSessions.user2Id, userId))
+      ))
+      .orderBy(desc(chatSessions.createdAt))
+      .limit(1);
+    return session;
+  }
+
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
     const [message] = await this.db.insert(messages).values(insertMessage).returning();
     return message;
   }
 
-  async getMessagesBySession(sessionId: string): Promise<Message[]> {
-    return await this.db.select()
+  async getMessagesBySession(sessionId: string, { after, limit }: MessagePage = {}): Promise<Message[]> {
+    const [cursor] = after
+      ? await this.db.select().from(messages).where(and(eq(messages.sessionId, sessionId), eq(messages.id, after)))
+      : [];
+    // Keyset on (timestamp, id), matching the ORDER BY below
+    const afterCursor = cursor?.timestamp
+      ? or(
+          gt(messages.timestamp, cursor.timestamp),
+          and(eq(messages.timestamp, cursor.timestamp), gt(messages.id, cursor.id))
+        )
+      : undefined;
+
+    const query = this.db.select()
       .from(messages)
-      .where(eq(messages.sessionId, sessionId))
-      .orderBy(desc(messages.timestamp));
+      .where(and(eq(messages.sessionId, sessionId), afterCursor))
+      .orderBy(asc(messages.timestamp), asc(messages.id));
+    return limit === undefined ? await query : await query.limit(limit);
+  }
+
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async setMessageReaction(messageId: string, userId: string, emoji: string | null): Promise<Message | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Locked so both users reacting at once don't overwrite each other's reaction
+      const [message] = await tx.select().from(messages).where(eq(messages.id, messageId)).for('update');
+      if (!message) return undefined;
+
+      const [updated] = await tx.update(messages)
+        .set({ reactions: withReaction(message.reactions, userId, emoji) })
+        .where(eq(messages.id, messageId))
+        .returning();
+      return updated;
+    });
   }
 
   async addOnlineUser(insertUser: InsertOnlineUser): Promise<OnlineUser> {
@@ -263,17 +516,115 @@ export class DatabaseStorage implements IStorage {
       return waitingUsers;
     }
 
-    // Sort by number of matching interests (descending)
-    return waitingUsers.sort((a, b) => {
-      const aMatches = a.interests?.filter(interest => interests.includes(interest)).length || 0;
-      const bMatches = b.interests?.filter(interest => interests.includes(interest)).length || 0;
-      return bMatches - aMatches;
+    return sortByInterestOverlap(waitingUsers, interests);
+  }
+
+  async claimPartner(userId: string, partnerId: string, chatType: string): Promise<boolean> {
+    if (userId === partnerId) return false;
+
+    return await this.db.transaction(async (tx) => {
+      // Rows another matchmaker has locked are skipped rather than waited on,
+      // so two claims on the same user can't both succeed or deadlock
+      const claimable = await tx.select({ id: onlineUsers.id })
+        .from(onlineUsers)
+        .where(and(
+          inArray(onlineUsers.id, [userId, partnerId]),
+          eq(onlineUsers.isWaiting, true),
+          eq(onlineUsers.chatType, chatType)
+        ))
+        .for('update', { skipLocked: true });
+
+      if (claimable.length !== 2) {
+        return false;
+      }
+
+      await tx.update(onlineUsers)
+        .set({ isWaiting: false, lastSeen: new Date() })
+        .where(inArray(onlineUsers.id, [userId, partnerId]));
+      return true;
     });
   }
 
   async getAllOnlineUsers(): Promise<OnlineUser[]> {
     return await this.db.select().from(onlineUsers);
   }
+
+  async createReport(insertReport: InsertReport): Promise<Report> {
+    const reportData = {
+      ...insertReport,
+      evidence: insertReport.evidence as Message[] || []
+    };
+    const [report] = await this.db.insert(reports).values(reportData).returning();
+    return report;
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    const [report] = await this.db.select().from(reports).where(eq(reports.id, id));
+    return report;
+  }
+
+  async getReportBySessionAndReporter(sessionId: string, reporterId: string): Promise<Report | undefined> {
+    const [report] = await this.db.select()
+      .from(reports)
+      .where(and(eq(reports.sessionId, sessionId), eq(reports.reporterId, reporterId)))
+      .limit(1);
+    return report;
+  }
+
+  async getReports(status?: string): Promise<Report[]> {
+    const query = this.db.select().from(reports);
+    const filtered = status ? query.where(eq(reports.status, status)) : query;
+    return await filtered.orderBy(asc(reports.createdAt));
+  }
+
+  async resolveReport(id: string, resolution: { status: 'resolved' | 'dismissed'; resolution?: string; resolvedBy?: string }): Promise<Report | undefined> {
+    const [report] = await this.db.update(reports)
+      .set({
+        status: resolution.status,
+        resolution: resolution.resolution || null,
+        resolvedBy: resolution.resolvedBy || null,
+        resolvedAt: new Date(),
+      })
+      .where(eq(reports.id, id))
+      .returning();
+    return report;
+  }
+
+  async createBan(insertBan: InsertBan): Promise<Ban> {
+    const [ban] = await this.db.insert(bans).values(insertBan).returning();
+    return ban;
+  }
+
+  async getBans(): Promise<Ban[]> {
+    return await this.db.select().from(bans).orderBy(desc(bans.createdAt));
+  }
+
+  async getActiveBans(): Promise<Ban[]> {
+    return await this.db.select().from(bans)
+      .where(and(
+        isNull(bans.revokedAt),
+        or(isNull(bans.expiresAt), gt(bans.expiresAt, new Date()))
+      ));
+  }
+
+  async revokeBan(id: string): Promise<Ban | undefined> {
+    const [ban] = await this.db.update(bans)
+      .set({ revokedAt: new Date() })
+      .where(eq(bans.id, id))
+      .returning();
+    return ban;
+  }
+
+  async createStrike(insertStrike: InsertStrike): Promise<Strike> {
+    const [strike] = await this.db.insert(strikes).values(insertStrike).returning();
+    return strike;
+  }
+
+  async getStrikes(since?: Date): Promise<Strike[]> {
+    return await this.db.select().from(strikes)
+      .where(since ? gt(strikes.createdAt, since) : undefined)
+      .orderBy(desc(strikes.createdAt));
+  }
 }
 
 // Use database storage if DATABASE_URL is available and not pointing to localhost, otherwise fall back to memory storage
@@ -285,9 +636,310 @@ console.log('Storage configuration:', {
   hasDatabaseUrl: !!process.env.DATABASE_URL,
   databaseUrl: process.env.DATABASE_URL?.replace(/\/\/[^:]+:[^@]+@/, '//***:***@'), // Hide credentials
   hasValidDatabaseUrl,
-  usingStorage: hasValidDatabaseUrl ? 'DatabaseStorage' : 'MemStorage'
+  usingStorage: hasValidDatabaseUrl ? 'DatabaseStorage' : 'MemStorage',
+  sharedMatchmaking: process.env.REDIS_URL ? 'RedisStorage' : clusterIpcEnabled ? 'ClusterStorage' : 'none'
 });
 
-export const storage = hasValidDatabaseUrl 
+/**
+ * Shares matchmaking state between server instances: online users, waiting
+ * queues and partner claims live in Redis, everything else (chat sessions,
+ * messages, reports, bans, strikes) is kept by `durable`, which has to be the
+ * shared database when there is more than one instance. The redis client is
+ * only loaded once this storage is first used.
+ */
+export class RedisStorage implements IStorage {
+  constructor(private durable: IStorage) {}
+
+  private async redis(): Promise<RedisStore> {
+    const { redisStore } = await import("./redis-store");
+    await redisStore.connect();
+    return redisStore;
+  }
+
+  // Sessions go to the durable store: messages reference them, and admins
+  // need them for transcripts and reports long after the chat ended
+  createChatSession(session: InsertChatSession): Promise<ChatSession> {
+    return this.durable.createChatSession(session);
+  }
+
+  getChatSession(id: string): Promise<ChatSession | undefined> {
+    return this.durable.getChatSession(id);
+  }
+
+  updateChatSession(id: string, updates: Partial<ChatSession>): Promise<ChatSession | undefined> {
+    return this.durable.updateChatSession(id, updates);
+  }
+
+  deleteChatSession(id: string): Promise<void> {
+    return this.durable.deleteChatSession(id);
+  }
+
+  getActiveChatSession(userId: string): Promise<ChatSession | undefined> {
+    return this.durable.getActiveChatSession(userId);
+  }
+
+  createMessage(message: InsertMessage): Promise<Message> {
+    return this.durable.createMessage(message);
+  }
+
+  getMessagesBySession(sessionId: string, page?: MessagePage): Promise<Message[]> {
+    return this.durable.getMessagesBySession(sessionId, page);
+  }
+
+  getMessage(id: string): Promise<Message | undefined> {
+    return this.durable.getMessage(id);
+  }
+
+  setMessageReaction(messageId: string, userId: string, emoji: string | null): Promise<Message | undefined> {
+    return this.durable.setMessageReaction(messageId, userId, emoji);
+  }
+
+  async addOnlineUser(insertUser: InsertOnlineUser): Promise<OnlineUser> {
+    const user: OnlineUser = {
+      id: insertUser.id,
+      gender: insertUser.gender || null,
+      socketId: insertUser.socketId,
+      deviceId: insertUser.deviceId || null,
+      interests: (insertUser.interests as string[]) || [],
+      isWaiting: insertUser.isWaiting || false,
+      chatType: insertUser.chatType || null,
+      preferences: {},
+      profile: {},
+      waitingSince: null,
+      heldUntil: null,
+      lastSeen: new Date(),
+    };
+    console.log('Redis: Adding online user:', user.id);
+    await (await this.redis()).saveOnlineUser(user);
+    return user;
+  }
+
+  async removeOnlineUser(id: string): Promise<void> {
+    await (await this.redis()).removeOnlineUser(id);
+  }
+
+  async getOnlineUser(id: string): Promise<OnlineUser | undefined> {
+    const [user] = await (await this.redis()).getOnlineUsers([id]);
+    return user;
+  }
+
+  async getOnlineUserBySocket(socketId: string): Promise<OnlineUser | undefined> {
+    return (await this.getAllOnlineUsers()).find(user => user.socketId === socketId);
+  }
+
+  async updateOnlineUser(id: string, updates: Partial<OnlineUser>): Promise<OnlineUser | undefined> {
+    const redis = await this.redis();
+    const [user] = await redis.getOnlineUsers([id]);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates, lastSeen: new Date() };
+    await redis.saveOnlineUser(updatedUser, 'isWaiting' in updates || 'chatType' in updates);
+    return updatedUser;
+  }
+
+  async getWaitingUsers(chatType: string, interests?: string[], excludeUserId?: string): Promise<OnlineUser[]> {
+    const redis = await this.redis();
+    // The queue is ordered by waiting time; only the longest-waiting users are considered
+    const queued = await redis.getWaitingUsers(chatType, MAX_QUEUE_SCAN);
+    const waitingUsers = (await redis.getOnlineUsers(queued.filter(id => id !== excludeUserId)))
+      .filter(user => user.isWaiting && user.chatType === chatType);
+    console.log(`Redis: Found ${waitingUsers.length} waiting users for ${chatType} chat (excluding user: ${excludeUserId || 'none'})`);
+
+    if (!interests || interests.length === 0) {
+      return waitingUsers;
+    }
+    return sortByInterestOverlap(waitingUsers, interests);
+  }
+
+  async claimPartner(userId: string, partnerId: string, chatType: string): Promise<boolean> {
+    if (userId === partnerId) return false;
+    return (await this.redis()).claimPair(userId, partnerId, chatType);
+  }
+
+  async getAllOnlineUsers(): Promise<OnlineUser[]> {
+    const redis = await this.redis();
+    return redis.getOnlineUsers(await redis.getOnlineUserIds());
+  }
+
+  createReport(report: InsertReport): Promise<Report> {
+    return this.durable.createReport(report);
+  }
+
+  getReport(id: string): Promise<Report | undefined> {
+    return this.durable.getReport(id);
+  }
+
+  getReportBySessionAndReporter(sessionId: string, reporterId: string): Promise<Report | undefined> {
+    return this.durable.getReportBySessionAndReporter(sessionId, reporterId);
+  }
+
+  getReports(status?: string): Promise<Report[]> {
+    return this.durable.getReports(status);
+  }
+
+  resolveReport(id: string, resolution: { status: 'resolved' | 'dismissed'; resolution?: string; resolvedBy?: string }): Promise<Report | undefined> {
+    return this.durable.resolveReport(id, resolution);
+  }
+
+  createBan(ban: InsertBan): Promise<Ban> {
+    return this.durable.createBan(ban);
+  }
+
+  getBans(): Promise<Ban[]> {
+    return this.durable.getBans();
+  }
+
+  getActiveBans(): Promise<Ban[]> {
+    return this.durable.getActiveBans();
+  }
+
+  revokeBan(id: string): Promise<Ban | undefined> {
+    return this.durable.revokeBan(id);
+  }
+
+  createStrike(strike: InsertStrike): Promise<Strike> {
+    return this.durable.createStrike(strike);
+  }
+
+  getStrikes(since?: Date): Promise<Strike[]> {
+    return this.durable.getStrikes(since);
+  }
+}
+
+const MAX_QUEUE_SCAN = 500;
+
+/**
+ * Storage for a worker forked by startCluster() when there is no Redis: the
+ * cluster primary keeps online users and waiting queues in one MemStorage
+ * for every worker, so users on different workers can be matched, and
+ * serves everything else from its own durable storage.
+ */
+export class ClusterStorage implements IStorage {
+  createChatSession(session: InsertChatSession): Promise<ChatSession> {
+    return callPrimary('createChatSession', session);
+  }
+
+  getChatSession(id: string): Promise<ChatSession | undefined> {
+    return callPrimary('getChatSession', id);
+  }
+
+  updateChatSession(id: string, updates: Partial<ChatSession>): Promise<ChatSession | undefined> {
+    return callPrimary('updateChatSession', id, updates);
+  }
+
+  deleteChatSession(id: string): Promise<void> {
+    return callPrimary('deleteChatSession', id);
+  }
+
+  getActiveChatSession(userId: string): Promise<ChatSession | undefined> {
+    return callPrimary('getActiveChatSession', userId);
+  }
+
+  createMessage(message: InsertMessage): Promise<Message> {
+    return callPrimary('createMessage', message);
+  }
+
+  getMessagesBySession(sessionId: string, page?: MessagePage): Promise<Message[]> {
+    return callPrimary('getMessagesBySession', sessionId, page);
+  }
+
+  getMessage(id: string): Promise<Message | undefined> {
+    return callPrimary('getMessage', id);
+  }
+
+  setMessageReaction(messageId: string, userId: string, emoji: string | null): Promise<Message | undefined> {
+    return callPrimary('setMessageReaction', messageId, userId, emoji);
+  }
+
+  addOnlineUser(user: InsertOnlineUser): Promise<OnlineUser> {
+    return callPrimary('addOnlineUser', user);
+  }
+
+  removeOnlineUser(id: string): Promise<void> {
+    return callPrimary('removeOnlineUser', id);
+  }
+
+  getOnlineUser(id: string): Promise<OnlineUser | undefined> {
+    return callPrimary('getOnlineUser', id);
+  }
+
+  getOnlineUserBySocket(socketId: string): Promise<OnlineUser | undefined> {
+    return callPrimary('getOnlineUserBySocket', socketId);
+  }
+
+  updateOnlineUser(id: string, updates: Partial<OnlineUser>): Promise<OnlineUser | undefined> {
+    return callPrimary('updateOnlineUser', id, updates);
+  }
+
+  getWaitingUsers(chatType: string, interests?: string[], excludeUserId?: string): Promise<OnlineUser[]> {
+    return callPrimary('getWaitingUsers', chatType, interests, excludeUserId);
+  }
+
+  claimPartner(userId: string, partnerId: string, chatType: string): Promise<boolean> {
+    return callPrimary('claimPartner', userId, partnerId, chatType);
+  }
+
+  getAllOnlineUsers(): Promise<OnlineUser[]> {
+    return callPrimary('getAllOnlineUsers');
+  }
+
+  createReport(report: InsertReport): Promise<Report> {
+    return callPrimary('createReport', report);
+  }
+
+  getReport(id: string): Promise<Report | undefined> {
+    return callPrimary('getReport', id);
+  }
+
+  getReportBySessionAndReporter(sessionId: string, reporterId: string): Promise<Report | undefined> {
+    return callPrimary('getReportBySessionAndReporter', sessionId, reporterId);
+  }
+
+  getReports(status?: string): Promise<Report[]> {
+    return callPrimary('getReports', status);
+  }
+
+  resolveReport(id: string, resolution: { status: 'resolved' | 'dismissed'; resolution?: string; resolvedBy?: string }): Promise<Report | undefined> {
+    return callPrimary('resolveReport', id, resolution);
+  }
+
+  createBan(ban: InsertBan): Promise<Ban> {
+    return callPrimary('createBan', ban);
+  }
+
+  getBans(): Promise<Ban[]> {
+    return callPrimary('getBans');
+  }
+
+  getActiveBans(): Promise<Ban[]> {
+    return callPrimary('getActiveBans');
+  }
+
+  revokeBan(id: string): Promise<Ban | undefined> {
+    return callPrimary('revokeBan', id);
+  }
+
+  createStrike(strike: InsertStrike): Promise<Strike> {
+    return callPrimary('createStrike', strike);
+  }
+
+  getStrikes(since?: Date): Promise<Strike[]> {
+    return callPrimary('getStrikes', since);
+  }
+}
+
+const durableStorage = hasValidDatabaseUrl 
   ? new DatabaseStorage() 
   : new MemStorage();
+
+if (process.env.REDIS_URL && !hasValidDatabaseUrl) {
+  console.warn('REDIS_URL is set without DATABASE_URL: chat sessions and messages stay in this instance\'s memory');
+}
+
+// With REDIS_URL set, instances share matchmaking state through Redis;
+// without it, workers forked by startCluster() share it through the primary
+export const storage: IStorage = process.env.REDIS_URL
+  ? new RedisStorage(durableStorage)
+  : clusterIpcEnabled
+    ? new ClusterStorage()
+    : durableStorage;
@@ -0,0 +1,173 @@
+import type { Ban } from '@shared/schema';
+import { storage } from './storage';
+import { banStore } from './ban-store';
+import { log } from './vite';
+
+export type TrustLevel = 'none' | 'warning' | 'low_trust' | 'banned';
+export type StrikeSource = 'moderation' | 'validation' | 'report';
+
+const LEVEL_ORDER: TrustLevel[] = ['none', 'warning', 'low_trust', 'banned'];
+
+export interface StrikeSubject {
+  userId?: string;
+  deviceId?: string;
+  ip?: string;
+}
+
+export interface StrikeOutcome {
+  level: TrustLevel;
+  previousLevel: TrustLevel;
+  strikeCount: number; // highest count across the user and IP subjects
+  ban?: Ban;
+}
+
+function maxLevel(a: TrustLevel, b: TrustLevel): TrustLevel {
+  return LEVEL_ORDER.indexOf(a) >= LEVEL_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Counts strikes per user and per IP over a sliding window and escalates
+ * repeat offenders: warning, then the low-trust matchmaking pool, then a
+ * temporary ban. Every strike is persisted with the level transition it
+ * caused so moderators can review the history.
+ */
+export class StrikeTracker {
+  private strikes = new Map<string, number[]>(); // "type:value" -> strike timestamps
+  private windowMs = parseInt(process.env.STRIKE_WINDOW_HOURS || '24', 10) * 60 * 60 * 1000;
+  private warningThreshold = parseInt(process.env.STRIKE_WARNING_THRESHOLD || '1', 10);
+  private lowTrustThreshold = parseInt(process.env.STRIKE_LOW_TRUST_THRESHOLD || '3', 10);
+  private banThreshold = parseInt(process.env.STRIKE_BAN_THRESHOLD || '5', 10);
+  private banDurationMinutes = parseInt(process.env.STRIKE_BAN_DURATION_MINUTES || '60', 10);
+
+  constructor() {
+    this.load();
+    setInterval(() => this.prune(), 10 * 60 * 1000);
+  }
+
+  // Rebuild counts from persisted strikes so restarts don't wipe the slate
+  async load(): Promise<void> {
+    try {
+      const recent = await storage.getStrikes(new Date(Date.now() - this.windowMs));
+      for (const strike of recent) {
+        const key = `${strike.subjectType}:${strike.subjectValue}`;
+        const timestamps = this.strikes.get(key) || [];
+        timestamps.push(strike.createdAt!.getTime());
+        this.strikes.set(key, timestamps);
+      }
+    } catch (error) {
+      log(`Error loading strikes: ${error}`);
+    }
+  }
+
+  getLevel(subject: StrikeSubject): TrustLevel {
+    return this.subjectKeys(subject)
+      .map(key => this.levelFor(this.count(key)))
+      .reduce(maxLevel, 'none' as TrustLevel);
+  }
+
+  isLowTrust(subject: StrikeSubject): boolean {
+    return LEVEL_ORDER.indexOf(this.getLevel(subject)) >= LEVEL_ORDER.indexOf('low_trust');
+  }
+
+  async recordStrike(subject: StrikeSubject, source: StrikeSource, detail?: string): Promise<StrikeOutcome> {
+    const now = Date.now();
+    const keys = this.subjectKeys(subject);
+    const previousLevels = keys.map(key => this.levelFor(this.count(key)));
+
+    const counts = keys.map(key => {
+      const timestamps = this.strikes.get(key) || [];
+      timestamps.push(now);
+      this.strikes.set(key, timestamps);
+      return timestamps.length;
+    });
+    const levels = counts.map(count => this.levelFor(count));
+
+    const outcome: StrikeOutcome = {
+      level: levels.reduce(maxLevel, 'none' as TrustLevel),
+      previousLevel: previousLevels.reduce(maxLevel, 'none' as TrustLevel),
+      strikeCount: Math.max(0, ...counts),
+    };
+
+    // Every strike at or past the threshold issues a fresh temporary ban
+    if (outcome.level === 'banned') {
+      outcome.ban = await this.issueBan(subject, keys, counts);
+    }
+
+    await Promise.all(keys.map((key, index) => {
+      const separator = key.indexOf(':');
+      return storage.createStrike({
+        subjectType: key.slice(0, separator),
+        subjectValue: key.slice(separator + 1),
+        source,
+        detail: detail || null,
+        strikeCount: counts[index],
+        previousLevel: previousLevels[index],
+        level: levels[index],
+        banId: outcome.ban?.id || null,
+      });
+    }));
+
+    if (outcome.level !== outcome.previousLevel) {
+      log(`Strike escalation (${source}${detail ? `: ${detail}` : ''}): ${keys.join(', ')} ${outcome.previousLevel} -> ${outcome.level}`, 'moderation');
+    }
+    return outcome;
+  }
+
+  private async issueBan(subject: StrikeSubject, keys: string[], counts: number[]): Promise<Ban | undefined> {
+    const userIndex = keys.findIndex(key => key.startsWith('user:'));
+    const userReachedBan = userIndex !== -1 && counts[userIndex] >= this.banThreshold;
+
+    // Prefer banning the device so one bad actor doesn't take down everyone
+    // behind a shared IP; the IP is only banned once it collects strikes
+    // from several users
+    const target = userReachedBan && subject.deviceId
+      ? { scope: 'device', value: subject.deviceId }
+      : subject.ip ? { scope: 'ip', value: subject.ip } : undefined;
+    if (!target) return undefined;
+
+    const ban = await storage.createBan({
+      ...target,
+      reason: `Automatic ban after ${Math.max(...counts)} strikes`,
+      createdBy: 'system',
+      expiresAt: new Date(Date.now() + this.banDurationMinutes * 60 * 1000),
+    });
+    banStore.add(ban);
+    return ban;
+  }
+
+  private subjectKeys({ userId, deviceId, ip }: StrikeSubject): string[] {
+    const keys: string[] = [];
+    // Device ids outlive the per-connection user id, so prefer them
+    const user = deviceId || userId;
+    if (user) keys.push(`user:${user}`);
+    if (ip) keys.push(`ip:${ip}`);
+    return keys;
+  }
+
+  private levelFor(count: number): TrustLevel {
+    if (count >= this.banThreshold) return 'banned';
+    if (count >= this.lowTrustThreshold) return 'low_trust';
+    if (count >= this.warningThreshold) return 'warning';
+    return 'none';
+  }
+
+  private count(key: string): number {
+    const cutoff = Date.now() - this.windowMs;
+    const timestamps = (this.strikes.get(key) || []).filter(timestamp => timestamp > cutoff);
+    if (timestamps.length > 0) {
+      this.strikes.set(key, timestamps);
+    } else {
+      this.strikes.delete(key);
+    }
+    return timestamps.length;
+  }
+
+  private prune(): void {
+    for (const key of Array.from(this.strikes.keys())) {
+      this.count(key);
+    }
+  }
+}
+
+// Global strike tracker instance
+export const strikeTracker = new StrikeTracker();
@@ -0,0 +1,55 @@
+import type { ChatType, ServerMessage, ServerMessageOf, ServerMessageType } from '@shared/protocol';
+import type { ClientConnection, ConnectionLookup } from './transport';
+
+// Shared by the *.test.ts files: a connection that records what the server
+// sends instead of writing to a socket, and a lookup over such connections
+
+export class StubConnection implements ClientConnection {
+  readyState = 1; // WebSocket.OPEN
+  sent: ServerMessage[] = [];
+  closed = false;
+
+  constructor(public userId?: string) {}
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.closed = true;
+    this.readyState = 3; // WebSocket.CLOSED
+  }
+
+  framesOf<T extends ServerMessageType>(type: T): ServerMessageOf<T>[] {
+    return this.sent.filter((frame): frame is ServerMessageOf<T> => frame.type === type);
+  }
+}
+
+export class StubConnections implements ConnectionLookup {
+  private byUserId = new Map<string, ClientConnection>();
+
+  add<C extends ClientConnection>(connection: C): C {
+    this.register(connection);
+    return connection;
+  }
+
+  findByUserId(userId: string): ClientConnection | null {
+    return this.byUserId.get(userId) ?? null;
+  }
+
+  all(): ClientConnection[] {
+    return Array.from(this.byUserId.values());
+  }
+
+  register(connection: ClientConnection): void {
+    if (connection.userId) this.byUserId.set(connection.userId, connection);
+  }
+
+  sendToUser(userId: string, frame: ServerMessage): boolean {
+    const connection = this.byUserId.get(userId);
+    connection?.send(JSON.stringify(frame));
+    return !!connection;
+  }
+
+  setWaiting(_userId: string, _chatType: ChatType | null): void {}
+}
@@ -0,0 +1,32 @@
+import type { ChatType, ServerMessage } from '@shared/protocol';
+
+/**
+ * The part of a client connection that message handlers rely on. Native
+ * WebSockets satisfy it directly; other transports (HTTP long-polling)
+ * provide their own implementation so handlers don't care how a frame
+ * reaches the browser.
+ */
+export interface ClientConnection {
+  connectionId?: string; // set once registered with the connection manager
+  userId?: string;
+  clientIp?: string;
+  deviceId?: string;
+  protocolVersion?: number; // negotiated on join
+  readonly readyState: number; // WebSocket.OPEN / WebSocket.CLOSED semantics
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+// Serialize a typed protocol frame onto any transport
+export function sendFrame(connection: ClientConnection, frame: ServerMessage): void {
+  connection.send(JSON.stringify(frame));
+}
+
+// Finds live connections across every transport
+export interface ConnectionLookup {
+  findByUserId(userId: string): ClientConnection | null;
+  all(): ClientConnection[];
+  register(connection: ClientConnection): void; // called once a connection has joined
+  sendToUser(userId: string, frame: ServerMessage): boolean; // false if the user isn't connected
+  setWaiting(userId: string, chatType: ChatType | null): void; // entered or left the match queue
+}
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { canonicalInterest, compareInterests, countInterests, interestCategory, interestsMatch, normalizeInterests } from './interests';
+
+describe('canonicalInterest', () => {
+  for (const [raw, canonical] of [
+    ['coding', 'programming'],
+    ['#Programming', 'programming'],
+    ['code', 'programming'],
+    ['Programmer', 'programming'],
+    ['  Video_Games ', 'gaming'],
+    ['soccer', 'football'],
+    ['C++', 'c++'],
+    ['underwater basket weaving', 'underwater basket weaving'],
+  ]) {
+    it(`maps "${raw}" to "${canonical}"`, () => {
+      assert.equal(canonicalInterest(raw), canonical);
+    });
+  }
+});
+
+describe('interestsMatch', () => {
+  for (const [a, b, expected] of [
+    ['coding', 'programming', true],
+    ['code', 'coding', true],
+    ['programming', 'code', true],
+    ['movie', 'films', true],
+    ['hobby', 'hobbies', true],
+    ['photograpy', 'photography', true], // one typo in a long word
+    ['chess', 'chest', false], // too short to forgive a typo
+    ['anime', 'manga', false], // related, not the same
+  ] as const) {
+    it(`${expected ? 'matches' : 'does not match'} "${a}" and "${b}"`, () => {
+      assert.equal(interestsMatch(a, b), expected);
+    });
+  }
+});
+
+describe('interestCategory', () => {
+  for (const [raw, category] of [
+    ['anime', 'japanese culture'],
+    ['Manga', 'japanese culture'],
+    ['coding', 'technology'],
+    ['underwater basket weaving', undefined],
+  ] as const) {
+    it(`puts "${raw}" in ${category ? `"${category}"` : 'no category'}`, () => {
+      assert.equal(interestCategory(raw), category);
+    });
+  }
+});
+
+describe('normalizeInterests', () => {
+  it('drops empties and duplicates, including synonyms', () => {
+    assert.deepEqual(normalizeInterests(['Coding', 'programming', '#code', '', '  ', 'Anime', 'anime']), ['programming', 'anime']);
+  });
+});
+
+describe('compareInterests', () => {
+  it('tells shared interests from same-category ones', () => {
+    assert.deepEqual(compareInterests(['coding', 'anime', 'cooking'], ['programming', 'manga']), {
+      shared: ['programming'],
+      related: ['anime'],
+    });
+  });
+});
+
+describe('countInterests', () => {
+  it('counts each user once per interest, merging synonyms', () => {
+    const counts = countInterests([['coding', 'code', 'programming'], ['Programming'], ['anime', 'anime'], null]);
+
+    assert.deepEqual(counts, [
+      { interest: 'programming', count: 2 },
+      { interest: 'anime', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Interest normalization shared by the server and client. Free-form
+ * interests are cleaned up, mapped onto a canonical name through an alias
+ * table and compared by a stemmed key, so "Coding", "#programming" and
+ * "programmer" all count as the same interest. Interests in the same
+ * category ("anime" and "manga") count as related rather than shared.
+ */
+
+// Canonical interest -> other spellings and synonyms that mean the same thing
+const INTEREST_ALIASES: Record<string, string[]> = {
+  programming: ["coding", "code", "coder", "programmer", "developer", "software development", "software engineering", "dev"],
+  technology: ["tech", "gadgets"],
+  "artificial intelligence": ["ai", "machine learning", "ml"],
+  cryptocurrency: ["crypto", "bitcoin", "blockchain", "web3"],
+  movies: ["movie", "films", "film", "cinema"],
+  "tv shows": ["tv", "series", "tv series", "netflix"],
+  music: ["songs", "musician"],
+  gaming: ["games", "video games", "videogames", "gamer"],
+  anime: ["animé"],
+  books: ["reading", "literature", "novels"],
+  fitness: ["gym", "workout", "exercise", "bodybuilding"],
+  travel: ["traveling", "travelling", "backpacking"],
+  photography: ["photos", "photo", "camera"],
+  cooking: ["baking", "recipes", "chef"],
+  sports: ["sport"],
+  football: ["soccer"],
+  art: ["drawing", "painting", "sketching"],
+  memes: ["meme", "humor", "humour"],
+};
+
+// Category -> canonical interests in it; a category name is itself a valid interest
+const INTEREST_CATEGORIES: Record<string, string[]> = {
+  "japanese culture": ["anime", "manga", "cosplay", "j-pop", "japan"],
+  technology: ["programming", "technology", "artificial intelligence", "cryptocurrency", "science"],
+  entertainment: ["movies", "tv shows", "music", "memes"],
+  games: ["gaming", "esports", "chess", "board games"],
+  sports: ["sports", "football", "basketball", "cricket", "fitness"],
+  arts: ["art", "photography", "design", "dance", "fashion"],
+  lifestyle: ["cooking", "travel", "nature", "pets", "gardening"],
+  knowledge: ["books", "history", "philosophy", "psychology", "languages", "education"],
+  business: ["business", "startup", "investment", "economics", "real-estate"],
+};
+
+// Lowercases and strips tag syntax and stray punctuation, keeping "c++" and "c#"
+function clean(raw: string): string {
+  return raw
+    .toLowerCase()
+    .trim()
+    .replace(/^#+/, "")
+    .replace(/[_\s]+/g, " ")
+    .replace(/[!"$%&'()*,/:;<=>?@[\\\]^`{|}~]/g, "")
+    .trim();
+}
+
+// Light suffix stripping for English words: plurals, -ing, -ed, -er and a
+// final -e or -y, so "hobby"/"hobbies" and "cookie"/"cookies" line up
+function stemWord(word: string): string {
+  let stem = word;
+  if (stem.length > 4 && stem.endsWith("ies")) {
+    stem = stem.slice(0, -2);
+  } else if (stem.length > 3 && stem.endsWith("s") && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+  for (const suffix of ["ing", "ed", "er"]) {
+    if (stem.length - suffix.length >= 3 && stem.endsWith(suffix)) {
+      stem = stem.slice(0, -suffix.length);
+      // "running" -> "run", not "runn"
+      if (/([^aeiouls])\1$/.test(stem)) stem = stem.slice(0, -1);
+      break;
+    }
+  }
+  if (stem.length > 3 && stem.endsWith("e")) {
+    stem = stem.slice(0, -1);
+  } else if (stem.length > 3 && stem.endsWith("y")) {
+    stem = stem.slice(0, -1) + "i";
+  }
+  return stem;
+}
+
+function stem(cleaned: string): string {
+  return cleaned.split(/[ -]/).filter(Boolean).map(stemWord).join(" ");
+}
+
+// Stemmed spelling of every known name and alias -> canonical interest
+const CANONICAL_BY_STEM = new Map<string, string>();
+for (const [canonical, aliases] of Object.entries(INTEREST_ALIASES)) {
+  for (const name of [canonical, ...aliases]) {
+    CANONICAL_BY_STEM.set(stem(clean(name)), canonical);
+  }
+}
+
+const CATEGORY_BY_INTEREST = new Map<string, string>();
+for (const [category, members] of Object.entries(INTEREST_CATEGORIES)) {
+  for (const member of [category, ...members]) {
+    if (!CATEGORY_BY_INTEREST.has(member)) CATEGORY_BY_INTEREST.set(member, category);
+  }
+}
+
+/** The canonical name for an interest, e.g. "#Coding" -> "programming". */
+export function canonicalInterest(raw: string): string {
+  const cleaned = clean(raw);
+  return CANONICAL_BY_STEM.get(stem(cleaned)) ?? cleaned;
+}
+
+/** Key two interests are compared by; "movie" and "films" share one. */
+export function interestKey(raw: string): string {
+  return stem(canonicalInterest(raw));
+}
+
+export function interestCategory(raw: string): string | undefined {
+  return CATEGORY_BY_INTEREST.get(canonicalInterest(raw));
+}
+
+/** Canonical names for a list of interests, without empties or duplicates. */
+export function normalizeInterests(raw: readonly string[] | null | undefined): string[] {
+  const seen = new Map<string, string>();
+  for (const interest of raw ?? []) {
+    const canonical = canonicalInterest(interest);
+    const key = stem(canonical);
+    if (canonical && !seen.has(key)) seen.set(key, canonical);
+  }
+  return Array.from(seen.values());
+}
+
+// Levenshtein distance, giving up once it exceeds `max`
+function withinEditDistance(a: string, b: string, max: number): boolean {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) return false;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+}
+
+/** Whether two interests are the same, allowing one typo in longer words. */
+export function interestsMatch(a: string, b: string): boolean {
+  const keyA = interestKey(a);
+  const keyB = interestKey(b);
+  // Short words are too close to each other ("chess", "chest") to forgive typos
+  return keyA === keyB || (Math.min(keyA.length, keyB.length) >= 6 && withinEditDistance(keyA, keyB, 1));
+}
+
+export interface InterestOverlap {
+  shared: string[]; // canonical names of `mine` that `theirs` also has
+  related: string[]; // canonical names of `mine` with only a same-category interest in `theirs`
+}
+
+export function compareInterests(
+  mine: readonly string[] | null | undefined,
+  theirs: readonly string[] | null | undefined
+): InterestOverlap {
+  const overlap: InterestOverlap = { shared: [], related: [] };
+  const other = normalizeInterests(theirs);
+  const otherCategories = new Set(other.map(interestCategory).filter(Boolean));
+
+  for (const interest of normalizeInterests(mine)) {
+    if (other.some(candidate => interestsMatch(interest, candidate))) {
+      overlap.shared.push(interest);
+    } else if (otherCategories.has(interestCategory(interest))) {
+      overlap.related.push(interest);
+    }
+  }
+  return overlap;
+}
+
+/**
+ * Counts how many users have each interest, merging synonyms and spelling
+ * variants. Each group is labelled with its most common canonical name.
+ */
+export function countInterests(lists: Iterable<readonly string[] | null | undefined>): { interest: string; count: number }[] {
+  const groups = new Map<string, { count: number; names: Map<string, number> }>();
+  for (const list of Array.from(lists)) {
+    for (const interest of normalizeInterests(list)) {
+      const key = interestKey(interest);
+      const group = groups.get(key) ?? { count: 0, names: new Map<string, number>() };
+      group.count++;
+      group.names.set(interest, (group.names.get(interest) || 0) + 1);
+      groups.set(key, group);
+    }
+  }
+
+  return Array.from(groups.values()).map(({ count, names }) => ({
+    interest: Array.from(names.entries()).sort(([, a], [, b]) => b - a)[0][0],
+    count,
+  }));
+}
@@ -0,0 +1,290 @@
+import { z } from "zod";
+
+// Version spoken by this build. Clients send it in `join` and the server
+// answers with the version it will use in `user_joined`.
+export const PROTOCOL_VERSION = 1;
+// Oldest client version the server still accepts; clients that predate
+// versioning don't send one and are treated as version 1
+export const MIN_PROTOCOL_VERSION = 1;
+
+const sessionIdSchema = z.string().min(1).max(128);
+const chatTypeSchema = z.enum(["text", "video"]);
+const genderSchema = z.enum(["male", "female", "other"]);
+const interestsSchema = z.array(z.string().max(100)).max(50);
+
+export const REGIONS = ["africa", "asia", "europe", "middle-east", "north-america", "oceania", "south-america"] as const;
+
+const languagesSchema = z.array(z.string().regex(/^[a-z]{2,3}$/, "Expected an ISO 639 language code")).max(10);
+
+// Who a user wants to be matched with. Each field is a hard filter on the
+// partner's gender or profile until the server relaxes it for users who have waited long
+export const partnerPreferencesSchema = z.object({
+  genders: z.array(genderSchema).max(3).optional(), // partner genders to accept; empty or absent means any
+  languages: languagesSchema.optional(), // partner must speak one of these
+  region: z.enum(REGIONS).optional(), // partner must be in this region
+});
+
+// What a user says about themself, checked against the partner's preferences
+export const userProfileSchema = z.object({
+  languages: languagesSchema.optional(), // languages the user chats in
+  region: z.enum(REGIONS).optional(), // where the user is
+});
+
+export const attachmentSchema = z.object({
+  id: z.string(),
+  type: z.enum(["image", "video", "audio", "file"]),
+  url: z.string().max(2048), // /api/attachments/<id>; files aren't inlined as data URLs
+  thumbnailUrl: z.string().max(2048).optional(), // small JPEG preview of images
+  filename: z.string(),
+  size: z.number().nonnegative(),
+  mimeType: z.string(),
+});
+
+// How clients show a file with this type: inline media, or a download link for 'file'
+export function attachmentKind(mimeType: string): Attachment["type"] {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  return "file";
+}
+
+// End-to-end encrypted message content: base64 AES-GCM IV and ciphertext, dot separated
+export const ENCRYPTED_CONTENT = /^[A-Za-z0-9+/]+={0,2}\.[A-Za-z0-9+/]+={0,2}$/;
+// Room for a 5000-character message once encrypted and base64 encoded
+export const MAX_ENCRYPTED_CONTENT_LENGTH = 28000;
+
+// Non-ASCII only, so a reaction is an emoji rather than a word
+export const reactionEmojiSchema = z.string().min(1).max(16).regex(/^[^\x00-\x7F]+$/, "Expected an emoji");
+
+const sessionDescriptionSchema = z.object({
+  type: z.enum(["offer", "answer", "pranswer", "rollback"]),
+  sdp: z.string().optional(),
+});
+
+const iceCandidateSchema = z.object({
+  candidate: z.string().optional(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().nullable().optional(),
+  usernameFragment: z.string().nullable().optional(),
+});
+
+// Every client frame may carry the send time stamped by the client
+function frame<T extends string, S extends z.ZodRawShape>(type: T, shape: S) {
+  return z.object({ type: z.literal(type), timestamp: z.number().optional(), ...shape });
+}
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  frame("join", {
+    protocolVersion: z.number().int().positive().optional(),
+    interests: interestsSchema.optional(),
+    deviceId: z.string().max(128).optional(),
+    // From an earlier `user_joined`; gets the same user id back after a reconnect
+    resumeToken: z.string().max(256).optional(),
+  }),
+  frame("find_match", {
+    chatType: chatTypeSchema,
+    interests: interestsSchema.optional(),
+    gender: genderSchema.nullable().optional(),
+    preferences: partnerPreferencesSchema.optional(),
+    profile: userProfileSchema.optional(),
+  }),
+  frame("send_message", {
+    sessionId: sessionIdSchema,
+    content: z.string().optional(),
+    attachments: z.array(attachmentSchema).max(10).optional(),
+    hasEmoji: z.boolean().optional(),
+    messageType: z.string().max(32).optional(),
+    // `content` is ENCRYPTED_CONTENT ciphertext the server can't read
+    encrypted: z.boolean().optional(),
+    replyTo: z.string().min(1).max(128).optional(), // id of the message being quoted, from the same chat
+  }),
+  // One reaction per user per message: a new emoji replaces theirs, null removes it
+  frame("message_reaction", {
+    sessionId: sessionIdSchema,
+    messageId: z.string().min(1).max(128),
+    emoji: reactionEmojiSchema.nullable(),
+  }),
+  frame("typing", {
+    sessionId: sessionIdSchema,
+    isTyping: z.boolean(),
+  }),
+  frame("webrtc_offer", {
+    sessionId: sessionIdSchema,
+    offer: sessionDescriptionSchema,
+  }),
+  frame("webrtc_answer", {
+    sessionId: sessionIdSchema,
+    answer: sessionDescriptionSchema,
+  }),
+  frame("webrtc_ice_candidate", {
+    sessionId: sessionIdSchema,
+    candidate: iceCandidateSchema,
+  }),
+  frame("webrtc_recovery", {
+    sessionId: sessionIdSchema,
+  }),
+  // ECDH public key for end-to-end encrypted chat, relayed to the partner
+  frame("key_exchange", {
+    sessionId: sessionIdSchema,
+    publicKey: z.string().min(1).max(256), // base64 raw P-256 point
+  }),
+  frame("end_chat", {
+    sessionId: sessionIdSchema,
+  }),
+  frame("next_stranger", {
+    sessionId: sessionIdSchema,
+    chatType: chatTypeSchema,
+    interests: interestsSchema.optional(),
+    gender: genderSchema.nullable().optional(),
+    preferences: partnerPreferencesSchema.optional(),
+    profile: userProfileSchema.optional(),
+  }),
+  frame("get_queue_status", {
+    chatType: chatTypeSchema,
+    interests: interestsSchema.optional(),
+  }),
+  frame("message_read", {
+    sessionId: sessionIdSchema,
+    messageId: z.string().min(1),
+  }),
+  frame("get_session_recovery", {
+    sessionId: sessionIdSchema,
+    // Last message the client still has; history replay starts after it
+    lastMessageId: z.string().min(1).max(128).optional(),
+  }),
+  frame("get_message_history", {
+    sessionId: sessionIdSchema,
+    after: z.string().min(1).max(128).optional(),
+  }),
+  frame("update_gender", {
+    gender: genderSchema,
+    sessionId: sessionIdSchema.optional(),
+  }),
+  frame("heartbeat", {}),
+  frame("ping", {}),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ClientMessageType = ClientMessage["type"];
+export type ClientMessageOf<T extends ClientMessageType> = Extract<ClientMessage, { type: T }>;
+
+export type ChatType = z.infer<typeof chatTypeSchema>;
+export type Gender = z.infer<typeof genderSchema>;
+export type Attachment = z.infer<typeof attachmentSchema>;
+export type PartnerPreferences = z.infer<typeof partnerPreferencesSchema>;
+export type UserProfile = z.infer<typeof userProfileSchema>;
+export type Region = (typeof REGIONS)[number];
+
+export type WebRTCSignal = ClientMessageOf<"webrtc_offer" | "webrtc_answer" | "webrtc_ice_candidate" | "webrtc_recovery">;
+
+// Dates are Date objects on the server and ISO strings once serialized
+type WireDate = Date | string;
+
+export interface MessageReaction {
+  userId: string;
+  emoji: string;
+}
+
+export interface ChatMessagePayload {
+  id: string;
+  sessionId: string;
+  senderId: string;
+  content: string;
+  attachments: Attachment[] | null;
+  hasEmoji: boolean | null;
+  encrypted: boolean | null;
+  replyTo: string | null;
+  reactions: MessageReaction[] | null;
+  timestamp: WireDate | null;
+}
+
+export interface ProtocolIssue {
+  path: string; // dotted path into the frame, e.g. "candidate.sdpMid"
+  message: string;
+}
+
+export type ServerMessage =
+  | { type: "user_joined"; userId: string; protocolVersion: number; resumeToken: string; resumed: boolean }
+  | { type: "waiting_for_match"; estimatedWaitTime?: number; queuePosition?: number; totalInQueue?: number }
+  | {
+      type: "match_found";
+      sessionId: string;
+      partnerId: string;
+      sharedInterests?: string[];
+      matchQuality?: "high" | "medium" | "random";
+      matchScore?: number;
+      connectionQuality?: number;
+      partnerGender?: string | null;
+      partnerInterests?: string[];
+    }
+  | { type: "message_received"; message: ChatMessagePayload; messageType: string; senderId: string }
+  | { type: "message_sent"; message: ChatMessagePayload; messageType: string; status: "sent" | "delivered" }
+  | { type: "message_delivered"; messageId: string; timestamp: WireDate }
+  | { type: "message_read_receipt"; messageId: string; timestamp: WireDate }
+  // Sent to both users with the message's full reaction list after any change
+  | { type: "message_reaction"; sessionId: string; messageId: string; reactions: MessageReaction[] }
+  | { type: "partner_typing"; isTyping: boolean }
+  | { type: "chat_ended" }
+  | (WebRTCSignal & { fromUserId: string; timestamp: number })
+  | { type: "key_exchange"; sessionId: string; publicKey: string; fromUserId: string }
+  | { type: "queue_status"; position: number; totalWaiting: number; estimatedWaitTime: number; chatType: ChatType }
+  | { type: "session_recovered"; sessionId: string; partnerId: string; chatType: string }
+  | { type: "session_recovery_failed"; reason: string }
+  // Oldest first; while `hasMore`, ask for the next page with get_message_history after the last one
+  | { type: "message_history"; sessionId: string; messages: ChatMessagePayload[]; hasMore: boolean }
+  | { type: "partner_disconnected"; partnerId: string; graceSeconds: number }
+  | { type: "partner_reconnected"; partnerId?: string }
+  | { type: "gender_updated"; gender: Gender; message: string }
+  | { type: "partner_gender_updated"; message: string }
+  | { type: "heartbeat_ack"; timestamp: number }
+  | { type: "pong" }
+  | { type: "error"; message: string; code?: string; rule?: string; issues?: ProtocolIssue[] }
+  | { type: "rate_limited"; messageType: ClientMessageType; retryAfter: number } // seconds
+  | {
+      type: "banned";
+      banId: string;
+      reason: string;
+      scope: string;
+      expiresAt: string | null;
+      remainingSeconds: number | null; // null for permanent bans
+    }
+  | { type: "moderation_warning"; level: "none" | "warning" | "low_trust" | "banned"; strikeCount: number; message: string }
+  // The server is restarting: the connection closes with 1012 shortly after. Reconnect
+  // after the hint (jittered per client) and use get_session_recovery to resume a chat
+  | { type: "server_draining"; reconnectAfterMs: number; message: string };
+
+export type ServerMessageType = ServerMessage["type"];
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+export type ParseResult =
+  | { success: true; message: ClientMessage }
+  | { success: false; code: "unknown_message_type" | "invalid_frame"; error: string; issues: ProtocolIssue[] };
+
+const clientMessageTypes = new Set<string>(clientMessageSchema.options.map(option => option.shape.type.value));
+
+/**
+ * Validates an inbound frame against the client protocol. Failures name the
+ * frame type and the offending field ("send_message.sessionId: Required")
+ * so a broken client can tell exactly what it got wrong.
+ */
+export function parseClientMessage(raw: unknown): ParseResult {
+  const type = raw && typeof raw === "object" ? (raw as { type?: unknown }).type : undefined;
+  if (typeof type !== "string" || !clientMessageTypes.has(type)) {
+    const error = typeof type === "string" ? `Unknown message type "${type}"` : "Frame is missing a string \"type\"";
+    return { success: false, code: "unknown_message_type", error, issues: [{ path: "type", message: error }] };
+  }
+
+  const result = clientMessageSchema.safeParse(raw);
+  if (result.success) {
+    return { success: true, message: result.data };
+  }
+
+  const issues = result.error.issues.map(issue => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+  const error = issues
+    .map(issue => `${type}${issue.path ? `.${issue.path}` : ""}: ${issue.message}`)
+    .join("; ");
+  return { success: false, code: "invalid_frame", error, issues };
+}
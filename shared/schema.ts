@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, boolean, integer } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { attachmentSchema, type Attachment, type MessageReaction, type PartnerPreferences, type UserProfile } from "./protocol";
 
 export const chatSessions = pgTable("chat_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -19,21 +20,69 @@ export const messages = pgTable("messages", {
   sessionId: varchar("session_id").notNull(),
   senderId: varchar("sender_id").notNull(),
   content: text("content").notNull(),
-  attachments: json("attachments").$type<any[]>().default([]),
+  attachments: json("attachments").$type<Attachment[]>().default([]),
   hasEmoji: boolean("has_emoji").default(false),
+  encrypted: boolean("encrypted").default(false), // content is end-to-end encrypted ciphertext
+  replyTo: varchar("reply_to"), // id of the quoted message in the same session
+  reactions: json("reactions").$type<MessageReaction[]>().default([]), // at most one per user
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
 export const onlineUsers = pgTable("online_users", {
   id: varchar("id").primaryKey(),
   socketId: varchar("socket_id").notNull(),
+  deviceId: varchar("device_id"), // strikes are counted per device, so every instance can tell the user's trust level
   interests: json("interests").$type<string[]>().default([]),
   isWaiting: boolean("is_waiting").default(false),
   chatType: text("chat_type"), // 'text' | 'video'
   gender: text("gender"), // 'male' | 'female' | 'other'
+  preferences: json("preferences").$type<PartnerPreferences>().default({}),
+  profile: json("profile").$type<UserProfile>().default({}), // languages spoken and region, matched against partners' preferences
+  waitingSince: timestamp("waiting_since"), // when the user last joined the queue
+  heldUntil: timestamp("held_until"), // end of a disconnected user's resume window
   lastSeen: timestamp("last_seen").defaultNow(),
 });
 
+export const reports = pgTable("reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(),
+  reporterId: varchar("reporter_id"),
+  reportedUserId: varchar("reported_user_id"),
+  reason: text("reason").notNull(),
+  description: text("description").default(''),
+  evidence: json("evidence").$type<Message[]>().default([]), // Last messages of the session at report time
+  status: text("status").notNull().default('pending'), // 'pending' | 'resolved' | 'dismissed'
+  resolution: text("resolution"),
+  resolvedBy: varchar("resolved_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+export const bans = pgTable("bans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // 'ip' | 'ip_prefix' | 'device'
+  value: text("value").notNull(),
+  reason: text("reason").notNull(),
+  reportId: varchar("report_id"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at"), // null means permanent
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const strikes = pgTable("strikes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subjectType: text("subject_type").notNull(), // 'user' | 'ip'
+  subjectValue: text("subject_value").notNull(),
+  source: text("source").notNull(), // 'moderation' | 'validation' | 'report'
+  detail: text("detail"), // rule that fired or report id
+  strikeCount: integer("strike_count").notNull(), // strikes in the window, including this one
+  previousLevel: text("previous_level").notNull(), // 'none' | 'warning' | 'low_trust' | 'banned'
+  level: text("level").notNull(),
+  banId: varchar("ban_id"), // set when this strike triggered an automatic ban
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const insertChatSessionSchema = createInsertSchema(chatSessions).pick({
   user1Id: true,
   user2Id: true,
@@ -48,21 +97,62 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
   content: true,
   attachments: true,
   hasEmoji: true,
+  encrypted: true,
+  replyTo: true,
+}).extend({
+  // drizzle-zod only knows the column is JSON
+  attachments: z.array(attachmentSchema).nullable().optional(),
 });
 
 export const insertOnlineUserSchema = createInsertSchema(onlineUsers).pick({
   id: true,
   socketId: true,
+  deviceId: true,
   interests: true,
   isWaiting: true,
   chatType: true,
   gender: true,
 });
 
+export const insertReportSchema = createInsertSchema(reports).pick({
+  sessionId: true,
+  reporterId: true,
+  reportedUserId: true,
+  reason: true,
+  description: true,
+  evidence: true,
+});
+
+export const insertBanSchema = createInsertSchema(bans).pick({
+  scope: true,
+  value: true,
+  reason: true,
+  reportId: true,
+  createdBy: true,
+  expiresAt: true,
+});
+
+export const insertStrikeSchema = createInsertSchema(strikes).pick({
+  subjectType: true,
+  subjectValue: true,
+  source: true,
+  detail: true,
+  strikeCount: true,
+  previousLevel: true,
+  level: true,
+  banId: true,
+});
+
 export type InsertChatSession = z.infer<typeof insertChatSessionSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type InsertOnlineUser = z.infer<typeof insertOnlineUserSchema>;
+export type InsertReport = z.infer<typeof insertReportSchema>;
+export type InsertBan = z.infer<typeof insertBanSchema>;
+export type InsertStrike = z.infer<typeof insertStrikeSchema>;
 
 export type ChatSession = typeof chatSessions.$inferSelect;
 export type Message = typeof messages.$inferSelect;
 export type OnlineUser = typeof onlineUsers.$inferSelect;
+export type Report = typeof reports.$inferSelect;
+export type Ban = typeof bans.$inferSelect;
+export type Strike = typeof strikes.$inferSelect;